@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BookA, Plus, Trash2 } from "lucide-react";
+import type { AbbreviationKind } from "@shared/schema";
+import type { AbbreviationDictionary } from "@shared/abbreviations";
+
+// The member's own abbreviations and acronyms (AFSC-specific terms, unit names),
+// used on top of the global list when compressing and expanding statements
+export default function AbbreviationDictionaryCard() {
+  const { toast } = useToast();
+  const [term, setTerm] = useState("");
+  const [abbreviation, setAbbreviation] = useState("");
+  const [kind, setKind] = useState<AbbreviationKind>("abbreviation");
+
+  const { data: dictionary } = useQuery<AbbreviationDictionary>({
+    queryKey: ["/api/abbreviations"],
+    retry: false,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/abbreviations", { term, abbreviation, kind });
+      return response.json();
+    },
+    onSuccess: () => {
+      setTerm("");
+      setAbbreviation("");
+      queryClient.invalidateQueries({ queryKey: ["/api/abbreviations"] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/abbreviations/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/abbreviations"] });
+    },
+    onError,
+  });
+
+  const custom = dictionary?.custom ?? [];
+
+  return (
+    <Card className="gradient-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <BookA className="w-5 h-5 text-primary" />
+          Abbreviations
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Your entries are used alongside {dictionary?.global.length ?? 0} standard ones when compressing and
+          expanding statements, and replace a standard entry for the same term.
+        </p>
+
+        <form
+          className="grid grid-cols-[1fr_7rem] gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (term.trim() && abbreviation.trim()) createMutation.mutate();
+          }}
+        >
+          <Input
+            placeholder="Full term, e.g. crew chief"
+            value={term}
+            onChange={(e) => setTerm(e.target.value)}
+            maxLength={80}
+            data-testid="input-abbreviation-term"
+          />
+          <Input
+            placeholder="Short form"
+            value={abbreviation}
+            onChange={(e) => setAbbreviation(e.target.value)}
+            maxLength={30}
+            data-testid="input-abbreviation-short"
+          />
+          <Select value={kind} onValueChange={(value) => setKind(value as AbbreviationKind)}>
+            <SelectTrigger data-testid="select-abbreviation-kind">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="abbreviation">Abbreviation (maint)</SelectItem>
+              <SelectItem value="acronym">Acronym (AFSC)</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            type="submit"
+            disabled={!term.trim() || !abbreviation.trim() || createMutation.isPending}
+            data-testid="button-add-abbreviation"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        </form>
+
+        {custom.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No custom entries yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {custom.map(entry => (
+              <li key={entry.id} className="flex items-center justify-between gap-2 text-sm" data-testid={`abbreviation-${entry.id}`}>
+                <span className="truncate">
+                  {entry.term} <span className="text-muted-foreground">→</span> <span className="font-medium">{entry.abbreviation}</span>
+                </span>
+                <div className="flex items-center gap-2 shrink-0">
+                  {entry.kind === "acronym" && <Badge variant="outline" className="text-xs">acronym</Badge>}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => deleteMutation.mutate(entry.id)}
+                    disabled={deleteMutation.isPending}
+                    aria-label={`Remove ${entry.term}`}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
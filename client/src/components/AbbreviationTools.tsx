@@ -0,0 +1,128 @@
+import { useMemo } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Minimize2, Maximize2 } from "lucide-react";
+import { MAX_STATEMENT_LENGTH } from "@/lib/constants";
+import {
+  expandStatement,
+  listUndefinedAcronyms,
+  mergeDictionary,
+  type AbbreviationDictionary,
+  type RewriteResult,
+} from "@shared/abbreviations";
+
+interface AbbreviationToolsProps {
+  text: string;
+  onChange: (text: string) => void;
+  targetLength?: number;
+}
+
+// Compress/expand buttons backed by the member's abbreviation dictionary, and
+// the acronyms in the text that are never spelled out
+export default function AbbreviationTools({ text, onChange, targetLength = MAX_STATEMENT_LENGTH }: AbbreviationToolsProps) {
+  const { toast } = useToast();
+
+  const { data: dictionary } = useQuery<AbbreviationDictionary>({
+    queryKey: ["/api/abbreviations"],
+    retry: false,
+  });
+
+  const entries = useMemo(
+    () => dictionary ? mergeDictionary(dictionary.global, dictionary.custom) : [],
+    [dictionary]
+  );
+  const undefinedAcronyms = useMemo(() => listUndefinedAcronyms(text, entries), [text, entries]);
+
+  const rewriteMutation = useMutation({
+    mutationFn: async (mode: "compress" | "expand") => {
+      const response = await apiRequest("POST", `/api/abbreviations/${mode}`, { text, targetLength });
+      return response.json() as Promise<RewriteResult>;
+    },
+    onSuccess: (result, mode) => {
+      if (result.changes.length === 0) {
+        toast({
+          title: mode === "compress" ? "Nothing to abbreviate" : "Nothing to expand",
+          description: mode === "compress" && text.length > targetLength
+            ? "No dictionary terms left to shorten. Try cutting a phrase."
+            : "The statement already reads as it should.",
+        });
+        return;
+      }
+      onChange(result.text);
+      toast({
+        title: mode === "compress" ? `Compressed to ${result.text.length} characters` : "Expanded for readability",
+        description: result.changes.join("; "),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const spellOut = (acronym: string) => {
+    const entry = entries.find(candidate => candidate.kind === "acronym" && candidate.abbreviation.toUpperCase() === acronym.toUpperCase());
+    if (entry) onChange(expandStatement(text, [entry]).text);
+  };
+
+  if (!text.trim()) return null;
+
+  return (
+    <div className="space-y-2" data-testid="abbreviation-tools">
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => rewriteMutation.mutate("compress")}
+          disabled={rewriteMutation.isPending}
+          data-testid="button-compress-statement"
+        >
+          <Minimize2 className="w-3 h-3 mr-1" />
+          Compress
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => rewriteMutation.mutate("expand")}
+          disabled={rewriteMutation.isPending}
+          data-testid="button-expand-statement"
+        >
+          <Maximize2 className="w-3 h-3 mr-1" />
+          Expand
+        </Button>
+      </div>
+
+      {undefinedAcronyms.length > 0 && (
+        <div className="text-xs text-muted-foreground space-y-1">
+          <p>Acronyms never spelled out:</p>
+          <ul className="flex flex-wrap gap-2">
+            {undefinedAcronyms.map(({ acronym, expansion }) => (
+              <li key={acronym} className="flex items-center gap-1" data-testid={`undefined-acronym-${acronym}`}>
+                <span className="font-medium text-foreground">{acronym}</span>
+                {expansion ? (
+                  <button
+                    type="button"
+                    className="underline hover:text-foreground"
+                    onClick={() => spellOut(acronym)}
+                    title={`Replace the first ${acronym} with "${expansion} (${acronym})"`}
+                  >
+                    spell out
+                  </button>
+                ) : (
+                  <span>(not in your dictionary)</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -15,8 +15,9 @@ import { cn } from "@/lib/utils";
 import type { Rank, UserProfile } from "@shared/types";
 import { format } from "date-fns";
 import { useAfscs } from "@/hooks/useAfscs";
-import { getDaysUntilDue, getDueDateStatus, calculateDueDate, getDueDateProgress, formatDueDate } from "@/lib/profile";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import BackupRestoreCard from "./BackupRestoreCard";
+import AbbreviationDictionaryCard from "./AbbreviationDictionaryCard";
 
 interface SettingsScreenProps {
   profile?: UserProfile | null;
@@ -55,8 +56,9 @@ export default function AccountScreen({ profile, onProfileUpdate }: SettingsScre
       return response.json();
     },
     onSuccess: (updatedProfile: UserProfile) => {
-      // Invalidate and refetch profile data
+      // Invalidate and refetch profile data (and the SCODs derived from it)
       queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/profile/due-dates"] });
       
       toast({
         title: "Success",
@@ -93,6 +95,11 @@ export default function AccountScreen({ profile, onProfileUpdate }: SettingsScre
     retry: false,
   });
 
+  const { data: ratingPeriods = [] } = useQuery({
+    queryKey: ["/api/rating-periods"],
+    retry: false,
+  });
+
   const ranks: Rank[] = ['E-1', 'E-2', 'E-3', 'E-4', 'E-5', 'E-6', 'E-7', 'E-8', 'E-9'];
   
   // AFSC prefix options
@@ -506,6 +513,12 @@ export default function AccountScreen({ profile, onProfileUpdate }: SettingsScre
           </CardContent>
         </Card>
 
+        {/* Abbreviation Dictionary */}
+        <AbbreviationDictionaryCard />
+
+        {/* Backup & Restore */}
+        <BackupRestoreCard hasData={(wins as any[]).length > 0 || (statements as any[]).length > 0 || (ratingPeriods as any[]).length > 0} />
+
         {/* Account Actions */}
         <Card className="gradient-card border-destructive/20">
           <CardHeader>
@@ -0,0 +1,34 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AUDIENCE_DESCRIPTIONS, AUDIENCE_LABELS } from "@shared/generationContext";
+import type { GenerationAudience } from "@shared/schema";
+
+const AUDIENCES = Object.keys(AUDIENCE_LABELS) as GenerationAudience[];
+
+interface AudienceSelectProps {
+  value: GenerationAudience;
+  onChange: (audience: GenerationAudience) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Who a statement is written for (EPB, award package, decoration); changes the
+// tone and scope the generator aims for
+export default function AudienceSelect({ value, onChange, disabled, className }: AudienceSelectProps) {
+  return (
+    <Select value={value} onValueChange={(audience) => onChange(audience as GenerationAudience)} disabled={disabled}>
+      <SelectTrigger className={className} data-testid="select-audience">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {AUDIENCES.map((audience) => (
+          <SelectItem key={audience} value={audience}>
+            <div className="flex flex-col">
+              <span className="font-medium">{AUDIENCE_LABELS[audience]}</span>
+              <span className="text-xs text-muted-foreground">{AUDIENCE_DESCRIPTIONS[audience]}</span>
+            </div>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
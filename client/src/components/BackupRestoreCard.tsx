@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { Archive, Download, Upload } from "lucide-react";
+import type { RestoreSummary } from "@shared/backup";
+
+interface BackupRestoreCardProps {
+  // Restores are only accepted into an empty account
+  hasData: boolean;
+}
+
+export default function BackupRestoreCard({ hasData }: BackupRestoreCardProps) {
+  const { toast } = useToast();
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const response = await apiRequest("GET", "/api/account/backup");
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.style.display = 'none';
+      a.href = url;
+      a.download = `af-performance-backup-${new Date().toISOString().split('T')[0]}.json`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error('Backup error:', error);
+      toast({
+        title: "Error",
+        description: "Failed to download backup. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async (archive: unknown) => {
+      const response = await apiRequest("POST", "/api/account/restore", archive);
+      return response.json() as Promise<RestoreSummary>;
+    },
+    onSuccess: (summary) => {
+      toast({
+        title: "Backup restored",
+        description: `${summary.wins} wins, ${summary.statements} statements and ${summary.refinementSessions} refinement sessions restored.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/wins"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/statements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rating-periods"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/abbreviations"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Restore failed",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRestoreFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      restoreMutation.mutate(JSON.parse(await file.text()));
+    } catch {
+      toast({
+        title: "Restore failed",
+        description: "The selected file is not valid JSON.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="gradient-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Archive className="w-5 h-5" />
+          Backup & Restore
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Download everything — profile, wins, statements and refinement history — to move to a new account or keep a copy when you PCS.
+        </p>
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={handleDownload}
+          disabled={isDownloading}
+          data-testid="button-download-backup"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          {isDownloading ? "Preparing..." : "Download Backup"}
+        </Button>
+
+        <Separator />
+
+        <div className="space-y-2">
+          <label htmlFor="restore-file">
+            <Button
+              variant="outline"
+              className="w-full"
+              disabled={hasData || restoreMutation.isPending}
+              asChild
+            >
+              <span data-testid="button-restore-backup">
+                <Upload className="w-4 h-4 mr-2" />
+                {restoreMutation.isPending ? "Restoring..." : "Restore From Backup"}
+              </span>
+            </Button>
+          </label>
+          <input
+            id="restore-file"
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            disabled={hasData || restoreMutation.isPending}
+            onChange={handleRestoreFile}
+            data-testid="input-restore-file"
+          />
+          {hasData && (
+            <p className="text-xs text-muted-foreground">
+              Restore is available on accounts with no wins, statements or rating periods yet.
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,11 +5,15 @@ import { Progress } from "@/components/ui/progress";
 import { Target, TrendingUp, Calendar, Zap, Trophy, Clock, BookOpen, Plus, Crown } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { cn } from "@/lib/utils";
-import type { DashboardStats, PerformanceCategory, UserProfile } from "@shared/types";
+import type { DashboardStats, PerformanceCategory, ProfileDueDates, UserProfile } from "@shared/types";
 import type { Win } from "@shared/schema";
-import { getDaysUntilDue, getDueDateStatus, calculateDueDate, getDueDateProgress, getRankName } from "@/lib/profile";
+import { getRankName } from "@/lib/profile";
+import { parseIsoDate } from "@shared/winDates";
 import { getWeekNumber, calculateCategoryStats, calculateWeeklyTrend, calculateSimpleStreak, getWinsThisWeek, getWinsThisMonth } from "@/lib/metrics";
 import { format } from "date-fns";
+import { useRatingPeriods } from "@/hooks/useRatingPeriods";
+import { matchesPeriodFilter } from "@shared/ratingPeriods";
+import RatingPeriodSwitcher from "./RatingPeriodSwitcher";
 
 interface DashboardScreenProps {
   onAddWin: () => void;
@@ -30,8 +34,17 @@ export const DashboardScreen = ({ onAddWin, onOpenLibrary, onOpenDeadlines, prof
     retry: false,
   });
 
-  // Calculate stats from real data using typed wins
-  const winsArray = wins || [];
+  // Close-out dates are computed server-side from the rank's SCOD
+  const { data: dueDates } = useQuery<ProfileDueDates>({
+    queryKey: ["/api/profile/due-dates"],
+    enabled: !!profile,
+    retry: false,
+  });
+
+  const { periods, filter: periodFilter, setFilter: setPeriodFilter } = useRatingPeriods();
+
+  // Calculate stats from real data using typed wins, limited to the selected period
+  const winsArray = (wins || []).filter(win => matchesPeriodFilter(win, periodFilter, periods));
   const thisWeekWins = getWinsThisWeek(winsArray);
   const thisMonthWins = getWinsThisMonth(winsArray);
 
@@ -57,10 +70,10 @@ export const DashboardScreen = ({ onAddWin, onOpenLibrary, onOpenDeadlines, prof
 
   const weeklyGoal = profile?.weeklyGoal || 3;
   const weeklyProgress = (dashboardStats.thisWeek / weeklyGoal) * 100;
-  const daysUntilDue = profile ? getDaysUntilDue(profile) : null;
-  const dueDateProgress = profile ? getDueDateProgress(profile) : 0;
-  const dueDateStatus = daysUntilDue !== null ? getDueDateStatus(daysUntilDue) : 'neutral';
-  const dueDate = profile ? calculateDueDate(profile) : null;
+  const daysUntilDue = dueDates?.daysRemaining ?? null;
+  const dueDateProgress = dueDates?.progress ?? 0;
+  const dueDateStatus = dueDates?.status ?? 'neutral';
+  const dueDate = dueDates ? parseIsoDate(dueDates.currentScod) : null;
 
   return (
     <div className="min-h-screen bg-background pb-20 px-4 pt-6">
@@ -81,8 +94,10 @@ export const DashboardScreen = ({ onAddWin, onOpenLibrary, onOpenDeadlines, prof
           </div>
         </div>
 
+        <RatingPeriodSwitcher periods={periods} value={periodFilter} onChange={setPeriodFilter} />
+
         {/* EPB Due Date - only show if profile exists */}
-        {profile && (
+        {profile && dueDates && (
           <Card 
             className={cn(
               "gradient-card cursor-pointer transition-all",
@@ -138,8 +153,8 @@ export const DashboardScreen = ({ onAddWin, onOpenLibrary, onOpenDeadlines, prof
                     )}
                   />
                   {dueDate && (
-                    <p className="text-xs text-muted-foreground text-center">
-                      Due {format(dueDate, 'MMM dd, yyyy')}
+                    <p className="text-xs text-muted-foreground text-center" data-testid="text-scod">
+                      SCOD {format(dueDate, 'MMM dd, yyyy')} · next {format(parseIsoDate(dueDates.nextScod), 'MMM dd, yyyy')}
                     </p>
                   )}
                 </div>
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -9,6 +10,11 @@ import { FileDown, Calendar as CalendarIcon, Filter, Share2, Target, Users, Tren
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import { PERFORMANCE_CATEGORIES } from "@/lib/constants";
+import { toIsoDate } from "@shared/winDates";
+import type { TagSummary } from "@shared/tags";
+import { useRatingPeriods } from "@/hooks/useRatingPeriods";
+import RatingPeriodSwitcher from "./RatingPeriodSwitcher";
+import TagFilter from "./TagFilter";
 
 const formats = [
   { value: 'PDF', label: 'PDF Report', description: 'Professional formatted document' },
@@ -48,6 +54,13 @@ function ExportScreen() {
   const [startDate, setStartDate] = useState<Date>();
   const [endDate, setEndDate] = useState<Date>();
   const [isExporting, setIsExporting] = useState(false);
+  const [csvBom, setCsvBom] = useState(true);
+  const { periods, filter: periodFilter, setFilter: setPeriodFilter } = useRatingPeriods();
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const { data: tags = [] } = useQuery<TagSummary[]>({
+    queryKey: ["/api/tags"],
+    retry: false,
+  });
 
   const handleCategoryToggle = (category: string) => {
     const newSelected = new Set(selectedCategories);
@@ -74,7 +87,10 @@ function ExportScreen() {
       const exportData = {
         ...exportOptions,
         categories: Array.from(selectedCategories),
-        dateRange: startDate && endDate ? { start: startDate, end: endDate } : undefined,
+        dateRange: startDate && endDate ? { start: toIsoDate(startDate), end: toIsoDate(endDate) } : undefined,
+        ratingPeriod: periodFilter,
+        tags: selectedTags,
+        csvBom: exportOptions.format === 'CSV' ? csvBom : undefined,
       };
       
       const response = await fetch('/api/export', {
@@ -157,6 +173,19 @@ function ExportScreen() {
                 )} />
               </div>
             ))}
+            {exportOptions.format === 'CSV' && (
+              <div className="flex items-center space-x-2 pt-1">
+                <Checkbox
+                  id="csv-bom"
+                  checked={csvBom}
+                  onCheckedChange={(checked) => setCsvBom(checked === true)}
+                  data-testid="checkbox-csv-bom"
+                />
+                <label htmlFor="csv-bom" className="text-sm leading-none">
+                  Excel-friendly encoding (UTF-8 BOM)
+                </label>
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -187,6 +216,33 @@ function ExportScreen() {
           </CardContent>
         </Card>
 
+        {/* Rating Period */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Rating Period</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <RatingPeriodSwitcher periods={periods} value={periodFilter} onChange={setPeriodFilter} />
+          </CardContent>
+        </Card>
+
+        {/* Tags */}
+        {tags.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Tags (Optional)</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <TagFilter selected={selectedTags} onChange={setSelectedTags} />
+              <p className="text-xs text-muted-foreground">
+                {selectedTags.length > 0
+                  ? "Only wins and statements with at least one selected tag are exported."
+                  : "Pick tags to export everything tied to one exercise, deployment or award package."}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Date Range */}
         <Card>
           <CardHeader>
@@ -0,0 +1,57 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Check, Loader2, X } from "lucide-react";
+import { GENERATION_STAGE_LABELS, type JobRetryEvent } from "@shared/generationStream";
+import type { StageProgress } from "@/hooks/useGenerationStream";
+
+interface GenerationProgressProps {
+  stages: StageProgress[];
+  retry?: JobRetryEvent | null;
+  onCancel: () => void;
+}
+
+// Each stage of a streamed generation as it arrives, with the text being
+// written; cancelling stops the run and nothing is saved
+export default function GenerationProgress({ stages, retry, onCancel }: GenerationProgressProps) {
+  return (
+    <Card className="border-primary/20" data-testid="generation-progress">
+      <CardContent className="p-4 space-y-3">
+        {retry && (
+          <div className="text-xs text-amber-600" data-testid="generation-retry">
+            The AI service had a problem. Trying again (attempt {retry.attempts + 1} of {retry.maxAttempts})...
+          </div>
+        )}
+        {stages.length === 0 && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Starting...
+          </div>
+        )}
+        {stages.map(({ stage, status, text }) => (
+          <div key={stage} className="space-y-1" data-testid={`generation-stage-${stage}`}>
+            <div className="flex items-center gap-2 text-sm">
+              {status === "done"
+                ? <Check className="h-4 w-4 text-green-600" />
+                : <Loader2 className="h-4 w-4 animate-spin text-primary" />}
+              <span className={status === "done" ? "text-muted-foreground" : "font-medium text-foreground"}>
+                {GENERATION_STAGE_LABELS[stage]}
+              </span>
+              {status === "retrying" && (
+                <span className="text-xs text-amber-600">rewriting to keep your facts</span>
+              )}
+            </div>
+            {text && (
+              <p className="ml-6 text-xs text-muted-foreground leading-relaxed whitespace-pre-wrap">{text}</p>
+            )}
+          </div>
+        ))}
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={onCancel} data-testid="button-cancel-generation">
+            <X className="h-4 w-4 mr-1" />
+            Cancel
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
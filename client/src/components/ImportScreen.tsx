@@ -0,0 +1,279 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, FileUp, Upload, CheckCircle, TriangleAlert, Copy } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ImportColumnMapping, ImportField, ImportFormat, ImportPreview, ImportResult } from "@shared/types";
+
+interface ImportScreenProps {
+  onDone: () => void;
+}
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  category: 'Category',
+  action: 'Action',
+  impact: 'Impact',
+  result: 'Result',
+  date: 'Date (optional)',
+  endDate: 'End date (optional)',
+};
+
+const UNMAPPED = '__none__';
+
+const STATUS_STYLES = {
+  valid: 'border-green-200 dark:border-green-800',
+  invalid: 'border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950',
+  duplicate: 'border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950',
+} as const;
+
+export default function ImportScreen({ onDone }: ImportScreenProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [fileName, setFileName] = useState("");
+  const [format, setFormat] = useState<ImportFormat>('CSV');
+  const [content, setContent] = useState("");
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+
+  const previewMutation = useMutation({
+    mutationFn: async (request: { format: ImportFormat; content: string; mapping?: ImportColumnMapping }) => {
+      const response = await apiRequest("POST", "/api/wins/import/preview", request);
+      return response.json() as Promise<ImportPreview>;
+    },
+    onSuccess: (data) => setPreview(data),
+    onError: (error) => {
+      setPreview(null);
+      toast({
+        title: "Couldn't read file",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/wins/import", {
+        format,
+        content,
+        mapping: preview?.mapping,
+        includeDuplicates,
+      });
+      return response.json() as Promise<ImportResult>;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Import complete",
+        description: `${result.imported} win${result.imported !== 1 ? 's' : ''} imported, ${result.skipped} skipped.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/wins"] });
+      onDone();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Import failed and nothing was saved. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const text = await file.text();
+    const detectedFormat: ImportFormat = file.name.toLowerCase().endsWith('.json') ? 'JSON' : 'CSV';
+    setFileName(file.name);
+    setFormat(detectedFormat);
+    setContent(text);
+    previewMutation.mutate({ format: detectedFormat, content: text });
+  };
+
+  const handleMappingChange = (field: ImportField, column: string) => {
+    if (!preview) return;
+    const mapping = { ...preview.mapping };
+    if (column === UNMAPPED) {
+      delete mapping[field];
+    } else {
+      mapping[field] = column;
+    }
+    previewMutation.mutate({ format, content, mapping });
+  };
+
+  const importCount = preview
+    ? preview.summary.valid + (includeDuplicates ? preview.summary.duplicate : 0)
+    : 0;
+
+  return (
+    <div className="min-h-screen bg-background pb-20 px-4 pt-6">
+      <div className="max-w-md mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center space-x-2">
+          <button onClick={onDone} data-testid="button-back">
+            <ArrowLeft className="h-5 w-5 text-muted-foreground" />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Import Wins</h1>
+            <p className="text-sm text-muted-foreground">Bring in accomplishments from a spreadsheet or JSON file</p>
+          </div>
+        </div>
+
+        {/* File Selection */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <FileUp className="w-4 h-4" />
+              Source File
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <label
+              htmlFor="import-file"
+              className="flex flex-col items-center justify-center gap-2 p-6 border-2 border-dashed rounded-md cursor-pointer hover:bg-accent"
+            >
+              <Upload className="h-6 w-6 text-muted-foreground" />
+              <span className="text-sm font-medium">{fileName || 'Choose a .csv or .json file'}</span>
+              <span className="text-xs text-muted-foreground">Columns: category, action, impact, result, date, end date</span>
+            </label>
+            <input
+              id="import-file"
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={handleFileChange}
+              data-testid="input-import-file"
+            />
+          </CardContent>
+        </Card>
+
+        {previewMutation.isPending && (
+          <p className="text-sm text-muted-foreground text-center">Checking rows...</p>
+        )}
+
+        {preview && (
+          <>
+            {/* Column Mapping */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Column Mapping</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {(Object.keys(FIELD_LABELS) as ImportField[]).map(field => (
+                  <div key={field} className="grid grid-cols-2 items-center gap-3">
+                    <Label className="text-sm">{FIELD_LABELS[field]}</Label>
+                    <Select
+                      value={preview.mapping[field] ?? UNMAPPED}
+                      onValueChange={(column) => handleMappingChange(field, column)}
+                    >
+                      <SelectTrigger data-testid={`select-mapping-${field}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                        {preview.columns.filter(Boolean).map(column => (
+                          <SelectItem key={column} value={column}>{column}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            {/* Preview */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center justify-between">
+                  Preview
+                  <div className="flex gap-1">
+                    <Badge variant="outline" className="text-xs" data-testid="badge-import-valid">
+                      {preview.summary.valid} ready
+                    </Badge>
+                    {preview.summary.duplicate > 0 && (
+                      <Badge variant="outline" className="text-xs" data-testid="badge-import-duplicate">
+                        {preview.summary.duplicate} duplicate
+                      </Badge>
+                    )}
+                    {preview.summary.invalid > 0 && (
+                      <Badge variant="destructive" className="text-xs" data-testid="badge-import-invalid">
+                        {preview.summary.invalid} with errors
+                      </Badge>
+                    )}
+                  </div>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 max-h-96 overflow-y-auto">
+                {preview.rows.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-4">No data rows found.</p>
+                )}
+                {preview.rows.map(row => (
+                  <div
+                    key={row.row}
+                    className={cn("p-3 rounded-md border text-sm space-y-1", STATUS_STYLES[row.status])}
+                    data-testid={`import-row-${row.row}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs text-muted-foreground">
+                        Row {row.row}{row.values.category ? ` · ${row.values.category}` : ''}{row.values.date ? ` · ${row.values.date}` : ''}{row.values.endDate ? ` – ${row.values.endDate}` : ''}
+                      </span>
+                      {row.status === 'valid' && <CheckCircle className="h-4 w-4 text-green-600" />}
+                      {row.status === 'invalid' && <TriangleAlert className="h-4 w-4 text-red-600" />}
+                      {row.status === 'duplicate' && <Copy className="h-4 w-4 text-amber-600" />}
+                    </div>
+                    <p className="line-clamp-2">{[row.values.action, row.values.impact, row.values.result].filter(Boolean).join('; ')}</p>
+                    {row.errors.map(error => (
+                      <p key={error} className="text-xs text-red-700 dark:text-red-300">{error}</p>
+                    ))}
+                    {row.status === 'duplicate' && (
+                      <p className="text-xs text-amber-700 dark:text-amber-300">
+                        Duplicate of {row.duplicateOf?.startsWith('row ') ? row.duplicateOf : 'an existing win'}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            {preview.summary.duplicate > 0 && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="include-duplicates"
+                  checked={includeDuplicates}
+                  onCheckedChange={(checked) => setIncludeDuplicates(checked === true)}
+                  data-testid="checkbox-include-duplicates"
+                />
+                <label htmlFor="include-duplicates" className="text-sm leading-none">
+                  Import duplicates anyway
+                </label>
+              </div>
+            )}
+
+            <Button
+              onClick={() => importMutation.mutate()}
+              disabled={importCount === 0 || importMutation.isPending || previewMutation.isPending}
+              className="w-full"
+              data-testid="button-import"
+            >
+              {importMutation.isPending
+                ? "Importing..."
+                : `Import ${importCount} win${importCount !== 1 ? 's' : ''}`}
+            </Button>
+            {preview.summary.invalid > 0 && (
+              <p className="text-xs text-center text-muted-foreground">
+                Rows with errors are skipped. Fix them in the file and choose it again to include them.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
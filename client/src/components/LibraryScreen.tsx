@@ -2,7 +2,7 @@ import { useState, useEffect } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -12,8 +12,22 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Search, Filter, FileDown, Calendar, Edit2, Trash2, MessageSquare, ChevronDown, ChevronRight, FileText, Plus, Sparkles, PlusCircle } from "lucide-react";
+import { Search, Filter, FileDown, Calendar, Edit2, Trash2, MessageSquare, ChevronDown, ChevronRight, FileText, Plus, Sparkles, PlusCircle, History } from "lucide-react";
 import { PERFORMANCE_CATEGORIES } from "../lib/constants";
+import StatementHistoryPanel from "./StatementHistoryPanel";
+import RatingPeriodSwitcher from "./RatingPeriodSwitcher";
+import TagInput from "./TagInput";
+import TagFilter from "./TagFilter";
+import SearchSnippet from "./SearchSnippet";
+import FormFitIndicator from "./ui/form-fit-indicator";
+import TrashPanel from "./TrashPanel";
+import StatementSources from "./StatementSources";
+import AbbreviationTools from "./AbbreviationTools";
+import RecategorizeReview from "./RecategorizeReview";
+import { useRatingPeriods } from "@/hooks/useRatingPeriods";
+import { useLibrarySearch } from "@/hooks/useLibrarySearch";
+import { getWinDate, getWinEndDate } from "@shared/winDates";
+import type { WinUsageFilter } from "@shared/lineage";
 
 interface LibraryScreenProps {
   onNavigateToStatements?: () => void;
@@ -28,6 +42,11 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
   const [statementSearchQuery, setStatementSearchQuery] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<string>("all");
   const [selectedStatementCategory, setSelectedStatementCategory] = useState<string>("all");
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [selectedStatementTags, setSelectedStatementTags] = useState<string[]>([]);
+  const [usageFilter, setUsageFilter] = useState<WinUsageFilter>("all");
+  const [expandedSources, setExpandedSources] = useState<Set<string>>(new Set());
+  const [statementCompletion, setStatementCompletion] = useState<"all" | "completed" | "in-progress">("all");
   const [expandedEntries, setExpandedEntries] = useState<Set<string>>(new Set());
   
   // Entry editing state
@@ -35,21 +54,39 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
   const [editAction, setEditAction] = useState("");
   const [editImpact, setEditImpact] = useState("");
   const [editResult, setEditResult] = useState("");
+  const [editOccurredOn, setEditOccurredOn] = useState("");
+  const [editEndedOn, setEditEndedOn] = useState("");
+  const [editTags, setEditTags] = useState<string[]>([]);
   const [deletingEntryId, setDeletingEntryId] = useState<string | null>(null);
   
   // Statement editing state
   const [editingStatement, setEditingStatement] = useState<any>(null);
   const [editStatementText, setEditStatementText] = useState("");
+  const [editStatementTags, setEditStatementTags] = useState<string[]>([]);
   const [writingStatementForEntry, setWritingStatementForEntry] = useState<string | null>(null);
   const [newStatementText, setNewStatementText] = useState("");
+  const [historyStatementId, setHistoryStatementId] = useState<string | null>(null);
 
-  // Fetch wins and statements
-  const { data: wins = [], isLoading: winsLoading } = useQuery({
-    queryKey: ["/api/wins"],
-    retry: false,
+  const { periods, filter: periodFilter, setFilter: setPeriodFilter } = useRatingPeriods();
+
+  // Both tabs page through server-side search results
+  const entrySearch = useLibrarySearch<any>("wins", {
+    q: searchQuery,
+    category: selectedCategory,
+    tags: selectedTags,
+    ratingPeriod: periodFilter,
+    usage: usageFilter,
+  });
+  const statementSearch = useLibrarySearch<any>("statements", {
+    q: statementSearchQuery,
+    category: selectedStatementCategory,
+    tags: selectedStatementTags,
+    ratingPeriod: periodFilter,
+    completed: statementCompletion === "all" ? undefined : statementCompletion === "completed",
   });
 
-  const { data: statements = [], isLoading: statementsLoading } = useQuery({
+  // Every statement, to list the ones written from each entry
+  const { data: statements = [] } = useQuery({
     queryKey: ["/api/statements"],
     retry: false,
   });
@@ -66,6 +103,7 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
         description: "Your statement has been added to your library.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/statements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/search"] });
       setNewStatementText("");
       setWritingStatementForEntry(null);
     },
@@ -91,11 +129,14 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
 
   // Update entry mutation
   const updateEntryMutation = useMutation({
-    mutationFn: async (data: { id: string; action: string; impact: string; result: string }) => {
+    mutationFn: async (data: { id: string; action: string; impact: string; result: string; occurredOn: string; endedOn: string | null; tags: string[] }) => {
       const response = await apiRequest("PUT", `/api/wins/${data.id}`, {
         action: data.action,
         impact: data.impact,
         result: data.result,
+        occurredOn: data.occurredOn,
+        endedOn: data.endedOn,
+        tags: data.tags,
       });
       return response.json();
     },
@@ -105,6 +146,8 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
         description: "Your changes have been saved.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/wins"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
       setEditingEntry(null);
       setEditAction("");
       setEditImpact("");
@@ -119,24 +162,30 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
     },
   });
 
-  // Delete entry mutation
+  // Delete entry mutation; force confirms deleting a win statements were built from
   const deleteEntryMutation = useMutation({
-    mutationFn: async (entryId: string) => {
-      const response = await apiRequest("DELETE", `/api/wins/${entryId}`);
+    mutationFn: async ({ id, force }: { id: string; force: boolean }) => {
+      const response = await apiRequest("DELETE", `/api/wins/${id}${force ? "?force=true" : ""}`);
       return response.json();
     },
     onSuccess: () => {
       toast({
-        title: "Entry deleted",
-        description: "Performance entry has been removed.",
+        title: "Entry moved to Trash",
+        description: "You can restore it from the Trash tab.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/wins"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
       setDeletingEntryId(null);
     },
     onError: (error) => {
+      // A 409 means statements we didn't know about use this win; refresh so the
+      // dialog can show them
+      queryClient.invalidateQueries({ queryKey: ["/api/statements"] });
       toast({
         title: "Error",
-        description: "Failed to delete entry. Please try again.",
+        description: getApiErrorMessage(error),
         variant: "destructive",
       });
     },
@@ -144,9 +193,10 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
 
   // Update statement mutation
   const updateStatementMutation = useMutation({
-    mutationFn: async (data: { id: string; content: string }) => {
+    mutationFn: async (data: { id: string; content: string; tags: string[] }) => {
       const response = await apiRequest("PUT", `/api/statements/${data.id}`, {
         content: data.content,
+        tags: data.tags,
       });
       return response.json();
     },
@@ -156,6 +206,8 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
         description: "Your changes have been saved.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/statements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
       setEditingStatement(null);
       setEditStatementText("");
     },
@@ -176,10 +228,13 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
     },
     onSuccess: () => {
       toast({
-        title: "Statement deleted",
-        description: "Statement has been removed.",
+        title: "Statement moved to Trash",
+        description: "You can restore it from the Trash tab.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/statements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
     },
     onError: (error) => {
       toast({
@@ -190,26 +245,6 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
     },
   });
 
-  // Filter entries based on search and category
-  const filteredEntries = (wins as any[]).filter(entry => {
-    const matchesSearch = !searchQuery || 
-      entry.action?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      entry.impact?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      entry.result?.toLowerCase().includes(searchQuery.toLowerCase());
-      
-    const matchesCategory = selectedCategory === "all" || entry.category === selectedCategory;
-    
-    return matchesSearch && matchesCategory;
-  });
-
-  // Filter statements based on search and category
-  const filteredStatements = (statements as any[]).filter(statement => {
-    const matchesSearch = !statementSearchQuery || 
-      statement.content?.toLowerCase().includes(statementSearchQuery.toLowerCase());
-    const matchesCategory = selectedStatementCategory === "all" || statement.category === selectedStatementCategory;
-    return matchesSearch && matchesCategory;
-  });
-
   const toggleEntryExpansion = (entryId: string) => {
     setExpandedEntries(prev => {
       const newSet = new Set(prev);
@@ -222,6 +257,18 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
     });
   };
 
+  const toggleSources = (statementId: string) => {
+    setExpandedSources(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(statementId)) {
+        newSet.delete(statementId);
+      } else {
+        newSet.add(statementId);
+      }
+      return newSet;
+    });
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', { 
@@ -231,11 +278,21 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
     });
   };
 
+  // Accomplishment date, or date range for multi-week efforts
+  const formatEntryDate = (entry: any) => {
+    const format = (date: Date | null) => date?.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: '2-digit' }) ?? '';
+    const start = format(getWinDate(entry));
+    return entry.endedOn ? `${start} – ${format(getWinEndDate(entry))}` : start;
+  };
+
   const handleEditEntry = (entry: any) => {
     setEditingEntry(entry);
     setEditAction(entry.action);
     setEditImpact(entry.impact);
     setEditResult(entry.result);
+    setEditOccurredOn(entry.occurredOn || "");
+    setEditEndedOn(entry.endedOn || "");
+    setEditTags(entry.tags || []);
   };
 
   const handleSaveEdit = async () => {
@@ -246,16 +303,25 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
       action: editAction,
       impact: editImpact,
       result: editResult,
+      occurredOn: editOccurredOn,
+      endedOn: editEndedOn || null,
+      tags: editTags,
     });
   };
 
+  // Statements built from the entry awaiting delete confirmation
+  const deletingEntryStatements = deletingEntryId
+    ? (statements as any[]).filter(s => s.sourceWinIds?.includes(deletingEntryId))
+    : [];
+
   const handleDeleteEntry = async (entryId: string) => {
-    await deleteEntryMutation.mutateAsync(entryId);
+    await deleteEntryMutation.mutateAsync({ id: entryId, force: deletingEntryStatements.length > 0 });
   };
 
   const handleEditStatement = (statement: any) => {
     setEditingStatement(statement);
     setEditStatementText(statement.content);
+    setEditStatementTags(statement.tags || []);
   };
 
   const handleSaveStatementEdit = async () => {
@@ -264,6 +330,7 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
     await updateStatementMutation.mutateAsync({
       id: editingStatement.id,
       content: editStatementText,
+      tags: editStatementTags,
     });
   };
 
@@ -303,17 +370,23 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
             <h1 className="text-2xl font-bold text-foreground">Performance Library</h1>
             <p className="text-sm text-muted-foreground">Manage your wins and statements</p>
           </div>
+
+          <RatingPeriodSwitcher periods={periods} value={periodFilter} onChange={setPeriodFilter} />
           
           {/* Tabs */}
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="entries" className="flex items-center gap-2" data-testid="tab-entries">
                 <FileDown className="w-4 h-4" />
-                Entries ({filteredEntries.length})
+                Entries ({entrySearch.total})
               </TabsTrigger>
               <TabsTrigger value="statements" className="flex items-center gap-2" data-testid="tab-statements">
                 <MessageSquare className="w-4 h-4" />
-                Statements ({filteredStatements.length})
+                Statements ({statementSearch.total})
+              </TabsTrigger>
+              <TabsTrigger value="trash" className="flex items-center gap-2" data-testid="tab-trash">
+                <Trash2 className="w-4 h-4" />
+                Trash
               </TabsTrigger>
             </TabsList>
             
@@ -348,25 +421,43 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
                     ))}
                   </SelectContent>
                 </Select>
+                <Select value={usageFilter} onValueChange={(value) => setUsageFilter(value as WinUsageFilter)}>
+                  <SelectTrigger className="w-36" data-testid="select-usage-filter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All entries</SelectItem>
+                    <SelectItem value="unused">Unused wins</SelectItem>
+                    <SelectItem value="used">Used in statements</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
+              <TagFilter selected={selectedTags} onChange={setSelectedTags} usedOn="wins" />
 
               {/* Results Count */}
-              <div className="text-sm text-muted-foreground text-center">
-                {filteredEntries.length} {filteredEntries.length === 1 ? 'entry' : 'entries'}
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">
+                  {entrySearch.total} {entrySearch.total === 1 ? 'entry' : 'entries'}
+                </span>
+                <RecategorizeReview entries={entrySearch.hits.map(({ item }) => item)} />
               </div>
 
               {/* Entries List */}
-              {winsLoading ? (
+              {entrySearch.isLoading ? (
                 <div className="text-center py-8 space-y-2">
                   <p className="text-muted-foreground">Loading your performance entries...</p>
                 </div>
-              ) : filteredEntries.length === 0 ? (
+              ) : entrySearch.hits.length === 0 ? (
                 <Card>
                   <CardContent className="p-6 text-center">
                     <p className="text-muted-foreground mb-4">
-                      {searchQuery ? "No entries match your search." : "No entries yet. Start capturing your achievements!"}
+                      {searchQuery
+                        ? "No entries match your search."
+                        : usageFilter === "unused"
+                          ? "Every entry has been used in a statement."
+                          : "No entries yet. Start capturing your achievements!"}
                     </p>
-                    {!searchQuery && (
+                    {!searchQuery && usageFilter === "all" && (
                       <Button onClick={() => window.location.href = '/#wins'} data-testid="button-add-first-entry">
                         <PlusCircle className="mr-2 h-4 w-4" />
                         Add Your First Entry
@@ -376,8 +467,8 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
                 </Card>
               ) : (
                 <div className="space-y-3">
-                  {filteredEntries.map((entry) => {
-                    const relatedStatements = (statements as any[]).filter(s => s.winId === entry.id);
+                  {entrySearch.hits.map(({ item: entry, snippet }) => {
+                    const relatedStatements = (statements as any[]).filter(s => s.sourceWinIds?.includes(entry.id));
                     const hasStatements = relatedStatements.length > 0;
                     const isExpanded = expandedEntries.has(entry.id);
                     
@@ -395,39 +486,57 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
                                 <Badge variant="secondary" className="text-xs">
                                   {entry.category}
                                 </Badge>
-                                {hasStatements && (
-                                  <Badge variant="outline" className="text-xs">
-                                    {relatedStatements.length} statement{relatedStatements.length !== 1 ? 's' : ''}
+                                {entry.statementCount > 0 ? (
+                                  <Badge variant="outline" className="text-xs" data-testid={`badge-usage-${entry.id}`}>
+                                    Used in {entry.statementCount} statement{entry.statementCount !== 1 ? 's' : ''}
+                                  </Badge>
+                                ) : (
+                                  <Badge variant="outline" className="text-xs text-muted-foreground" data-testid={`badge-usage-${entry.id}`}>
+                                    Unused
                                   </Badge>
                                 )}
                               </div>
                               <div className="flex items-center gap-2 text-xs text-muted-foreground">
                                 <Calendar className="w-3 h-3" />
-                                {formatDate(entry.createdAt)}
+                                {formatEntryDate(entry)}
                               </div>
                             </div>
 
                             {/* Performance Details */}
-                            <div className="space-y-2">
-                              <div>
-                                <p className="text-xs text-muted-foreground font-medium">ACTION</p>
-                                <p className="text-sm text-foreground">
-                                  {entry.action}
-                                </p>
-                              </div>
-                              <div>
-                                <p className="text-xs text-muted-foreground font-medium">IMPACT</p>
-                                <p className="text-sm text-foreground">
-                                  {entry.impact}
-                                </p>
+                            {snippet ? (
+                              <SearchSnippet parts={snippet} />
+                            ) : (
+                              <div className="space-y-2">
+                                <div>
+                                  <p className="text-xs text-muted-foreground font-medium">ACTION</p>
+                                  <p className="text-sm text-foreground">
+                                    {entry.action}
+                                  </p>
+                                </div>
+                                <div>
+                                  <p className="text-xs text-muted-foreground font-medium">IMPACT</p>
+                                  <p className="text-sm text-foreground">
+                                    {entry.impact}
+                                  </p>
+                                </div>
+                                <div>
+                                  <p className="text-xs text-muted-foreground font-medium">RESULT</p>
+                                  <p className="text-sm text-foreground">
+                                    {entry.result}
+                                  </p>
+                                </div>
                               </div>
-                              <div>
-                                <p className="text-xs text-muted-foreground font-medium">RESULT</p>
-                                <p className="text-sm text-foreground">
-                                  {entry.result}
-                                </p>
+                            )}
+
+                            {entry.tags?.length > 0 && (
+                              <div className="flex flex-wrap gap-1">
+                                {entry.tags.map((tag: string) => (
+                                  <Badge key={tag} variant="outline" className="text-xs font-normal">
+                                    {tag}
+                                  </Badge>
+                                ))}
                               </div>
-                            </div>
+                            )}
 
                             {/* Actions */}
                             <div className="flex items-center justify-between pt-2 border-t border-muted/20">
@@ -577,6 +686,17 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
                       </Card>
                     );
                   })}
+                  {entrySearch.hasNextPage && (
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      onClick={() => entrySearch.fetchNextPage()}
+                      disabled={entrySearch.isFetchingNextPage}
+                      data-testid="button-load-more-entries"
+                    >
+                      {entrySearch.isFetchingNextPage ? "Loading..." : "Load more"}
+                    </Button>
+                  )}
                 </div>
               )}
             </TabsContent>
@@ -595,7 +715,7 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
                 />
               </div>
 
-              {/* Category Filter */}
+              {/* Filters */}
               <div className="flex gap-2">
                 <Select value={selectedStatementCategory} onValueChange={setSelectedStatementCategory}>
                   <SelectTrigger className="flex-1" data-testid="select-statement-category-filter">
@@ -613,19 +733,30 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
                     ))}
                   </SelectContent>
                 </Select>
+                <Select value={statementCompletion} onValueChange={(value) => setStatementCompletion(value as typeof statementCompletion)}>
+                  <SelectTrigger className="w-36" data-testid="select-statement-completion-filter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Any status</SelectItem>
+                    <SelectItem value="completed">Complete</SelectItem>
+                    <SelectItem value="in-progress">In progress</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
+              <TagFilter selected={selectedStatementTags} onChange={setSelectedStatementTags} usedOn="statements" />
 
               {/* Results Count */}
               <div className="text-sm text-muted-foreground text-center">
-                {filteredStatements.length} {filteredStatements.length === 1 ? 'statement' : 'statements'}
+                {statementSearch.total} {statementSearch.total === 1 ? 'statement' : 'statements'}
               </div>
 
               {/* Statements List */}
-              {statementsLoading ? (
+              {statementSearch.isLoading ? (
                 <div className="text-center py-8">
                   <p className="text-muted-foreground">Loading your statements...</p>
                 </div>
-              ) : filteredStatements.length === 0 ? (
+              ) : statementSearch.hits.length === 0 ? (
                 <Card>
                   <CardContent className="p-6 text-center">
                     <p className="text-muted-foreground mb-4">
@@ -641,7 +772,7 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
                 </Card>
               ) : (
                 <div className="space-y-3">
-                  {filteredStatements.map((statement) => (
+                  {statementSearch.hits.map(({ item: statement, snippet }) => (
                     <Card key={statement.id} data-testid={`card-statement-${statement.id}`}>
                       <CardContent className="p-4">
                         <div className="space-y-3">
@@ -666,14 +797,50 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
                               </div>
                             )}
                           </div>
-                          <p className="text-sm text-foreground line-clamp-3">
-                            {statement.content}
-                          </p>
+                          {snippet ? (
+                            <SearchSnippet parts={snippet} />
+                          ) : (
+                            <p className="text-sm text-foreground line-clamp-3">
+                              {statement.content}
+                            </p>
+                          )}
+                          {statement.tags?.length > 0 && (
+                            <div className="flex flex-wrap gap-1">
+                              {statement.tags.map((tag: string) => (
+                                <Badge key={tag} variant="outline" className="text-xs font-normal">
+                                  {tag}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
                           <div className="flex items-center justify-between">
-                            <span className="text-xs text-muted-foreground">
-                              {statement.content?.length || 0} characters
-                            </span>
+                            <div className="flex flex-col">
+                              <span className="text-xs text-muted-foreground">
+                                {statement.content?.length || 0} characters
+                              </span>
+                              <FormFitIndicator text={statement.content || ""} />
+                            </div>
                             <div className="flex space-x-2">
+                              {statement.sourceWinIds?.length > 0 && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => toggleSources(statement.id)}
+                                  data-testid={`button-sources-statement-${statement.id}`}
+                                >
+                                  <FileText className="mr-1 h-3 w-3" />
+                                  Sources ({statement.sourceWinIds.length})
+                                </Button>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setHistoryStatementId(statement.id)}
+                                data-testid={`button-history-statement-${statement.id}`}
+                              >
+                                <History className="mr-1 h-3 w-3" />
+                                History
+                              </Button>
                               <Button
                                 variant="ghost"
                                 size="sm"
@@ -695,13 +862,32 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
                               </Button>
                             </div>
                           </div>
+                          {expandedSources.has(statement.id) && (
+                            <StatementSources statementId={statement.id} />
+                          )}
                         </div>
                       </CardContent>
                     </Card>
                   ))}
+                  {statementSearch.hasNextPage && (
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      onClick={() => statementSearch.fetchNextPage()}
+                      disabled={statementSearch.isFetchingNextPage}
+                      data-testid="button-load-more-statements"
+                    >
+                      {statementSearch.isFetchingNextPage ? "Loading..." : "Load more"}
+                    </Button>
+                  )}
                 </div>
               )}
             </TabsContent>
+
+            {/* Trash Tab */}
+            <TabsContent value="trash" className="space-y-4 mt-4">
+              <TrashPanel />
+            </TabsContent>
           </Tabs>
         </div>
 
@@ -756,8 +942,38 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
                   className="mt-1"
                 />
               </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="edit-occurred-on">Date</Label>
+                  <Input
+                    id="edit-occurred-on"
+                    type="date"
+                    value={editOccurredOn}
+                    onChange={(e) => setEditOccurredOn(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="edit-ended-on">End date</Label>
+                  <Input
+                    id="edit-ended-on"
+                    type="date"
+                    value={editEndedOn}
+                    min={editOccurredOn}
+                    onChange={(e) => setEditEndedOn(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="edit-tags">Tags</Label>
+                <TagInput id="edit-tags" value={editTags} onChange={setEditTags} />
+              </div>
               <div className="flex space-x-2">
-                <Button onClick={handleSaveEdit} disabled={updateEntryMutation.isPending}>
+                <Button
+                  onClick={handleSaveEdit}
+                  disabled={updateEntryMutation.isPending || !editOccurredOn || (!!editEndedOn && editEndedOn < editOccurredOn)}
+                >
                   {updateEntryMutation.isPending ? "Saving..." : "Save Changes"}
                 </Button>
                 <Button variant="outline" onClick={() => setEditingEntry(null)}>
@@ -785,6 +1001,14 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
                   className="mt-1"
                   rows={4}
                 />
+                <div className="flex justify-end mt-1">
+                  <FormFitIndicator text={editStatementText} />
+                </div>
+                <AbbreviationTools text={editStatementText} onChange={setEditStatementText} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="edit-statement-tags">Tags</Label>
+                <TagInput id="edit-statement-tags" value={editStatementTags} onChange={setEditStatementTags} />
               </div>
               <div className="flex space-x-2">
                 <Button onClick={handleSaveStatementEdit} disabled={updateStatementMutation.isPending}>
@@ -798,6 +1022,16 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
           </DialogContent>
         </Dialog>
 
+        {/* Statement History Dialog */}
+        <Dialog open={!!historyStatementId} onOpenChange={() => setHistoryStatementId(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Statement History</DialogTitle>
+            </DialogHeader>
+            {historyStatementId && <StatementHistoryPanel statementId={historyStatementId} />}
+          </DialogContent>
+        </Dialog>
+
         {/* Delete Entry Confirmation Dialog */}
         <Dialog open={!!deletingEntryId} onOpenChange={() => setDeletingEntryId(null)}>
           <DialogContent>
@@ -805,15 +1039,30 @@ export default function LibraryScreen({ onNavigateToStatements }: LibraryScreenP
               <DialogTitle>Delete Entry</DialogTitle>
             </DialogHeader>
             <p className="text-sm text-muted-foreground">
-              Are you sure you want to delete this performance entry? This action cannot be undone.
+              This performance entry will be moved to the Trash, where you can restore it until it is permanently removed.
             </p>
+            {deletingEntryStatements.length > 0 && (
+              <div className="space-y-2 rounded-md border border-destructive/50 p-3" data-testid="warning-entry-referenced">
+                <p className="text-sm font-medium text-destructive">
+                  {deletingEntryStatements.length} statement{deletingEntryStatements.length !== 1 ? 's were' : ' was'} built from this entry
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  They will stay in your library but lose this entry as supporting evidence.
+                </p>
+                <ul className="space-y-1">
+                  {deletingEntryStatements.slice(0, 3).map(statement => (
+                    <li key={statement.id} className="text-xs text-foreground line-clamp-2">{statement.content}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
             <div className="flex space-x-2">
               <Button 
                 variant="destructive" 
                 onClick={() => deletingEntryId && handleDeleteEntry(deletingEntryId)}
                 disabled={deleteEntryMutation.isPending}
               >
-                {deleteEntryMutation.isPending ? "Deleting..." : "Delete"}
+                {deleteEntryMutation.isPending ? "Deleting..." : deletingEntryStatements.length > 0 ? "Move to Trash Anyway" : "Move to Trash"}
               </Button>
               <Button variant="outline" onClick={() => setDeletingEntryId(null)}>
                 Cancel
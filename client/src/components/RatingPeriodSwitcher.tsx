@@ -0,0 +1,268 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Archive, ArchiveRestore, CalendarRange, Lock, LockOpen, Settings2, Trash2 } from "lucide-react";
+import type { RatingPeriod, RatingPeriodStatus } from "@shared/schema";
+import type { ProfileDueDates } from "@shared/types";
+import { parseIsoDate } from "@shared/winDates";
+import { formatPeriodRange, suggestRatingPeriod, validateRatingPeriodRange, type RatingPeriodFilter } from "@shared/ratingPeriods";
+
+interface RatingPeriodSwitcherProps {
+  periods: RatingPeriod[];
+  value: RatingPeriodFilter;
+  onChange: (value: RatingPeriodFilter) => void;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  open: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
+  closed: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300",
+  archived: "bg-muted text-muted-foreground",
+};
+
+export default function RatingPeriodSwitcher({ periods, value, onChange }: RatingPeriodSwitcherProps) {
+  const [isManaging, setIsManaging] = useState(false);
+  const currentPeriods = periods.filter(period => period.status !== 'archived');
+  const archivedPeriods = periods.filter(period => period.status === 'archived');
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="flex-1" data-testid="select-rating-period">
+          <div className="flex items-center gap-2">
+            <CalendarRange className="w-4 h-4" />
+            <SelectValue />
+          </div>
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="active">All active periods</SelectItem>
+          <SelectItem value="all">Everything (incl. archived)</SelectItem>
+          {currentPeriods.length > 0 && <SelectSeparator />}
+          {currentPeriods.map(period => (
+            <SelectItem key={period.id} value={period.id}>
+              {period.name}
+            </SelectItem>
+          ))}
+          {archivedPeriods.length > 0 && (
+            <>
+              <SelectSeparator />
+              <SelectGroup>
+                <SelectLabel>Archived</SelectLabel>
+                {archivedPeriods.map(period => (
+                  <SelectItem key={period.id} value={period.id}>
+                    {period.name}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </>
+          )}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={() => setIsManaging(true)}
+        aria-label="Manage rating periods"
+        data-testid="button-manage-rating-periods"
+      >
+        <Settings2 className="w-4 h-4" />
+      </Button>
+
+      <Dialog open={isManaging} onOpenChange={setIsManaging}>
+        <DialogContent className="max-w-md max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Rating Periods</DialogTitle>
+          </DialogHeader>
+          <RatingPeriodManager periods={periods} />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function RatingPeriodManager({ periods }: { periods: RatingPeriod[] }) {
+  const { toast } = useToast();
+  const { data: dueDates } = useQuery<ProfileDueDates>({
+    queryKey: ["/api/profile/due-dates"],
+    retry: false,
+  });
+
+  // Pre-fill the current cycle from the member's SCOD
+  const [name, setName] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [closeOutDate, setCloseOutDate] = useState("");
+  const [scod, setScod] = useState("");
+
+  useEffect(() => {
+    if (!dueDates) return;
+    const suggestion = suggestRatingPeriod(parseIsoDate(dueDates.currentScod));
+    setName(suggestion.name);
+    setStartDate(suggestion.startDate);
+    setCloseOutDate(suggestion.closeOutDate);
+    setScod(suggestion.scod);
+  }, [dueDates]);
+
+  const rangeError = startDate && closeOutDate
+    ? validateRatingPeriodRange({ startDate, closeOutDate, scod: scod || null })
+    : null;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/rating-periods"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/wins"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/statements"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/rating-periods", {
+        name,
+        startDate,
+        closeOutDate,
+        scod: scod || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Rating period created", description: "Wins and statements in its dates were assigned to it." });
+      setName("");
+      setStartDate("");
+      setCloseOutDate("");
+      setScod("");
+      invalidate();
+    },
+    onError,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: RatingPeriodStatus }) => {
+      const response = await apiRequest("PUT", `/api/rating-periods/${id}`, { status });
+      return response.json();
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/rating-periods/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Rating period deleted", description: "Its wins and statements were kept." });
+      invalidate();
+    },
+    onError,
+  });
+
+  const isBusy = statusMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <div className="space-y-4">
+      {periods.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No rating periods yet. Add your current EPB cycle to keep older wins out of your dashboard.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {periods.map(period => (
+            <div key={period.id} className="flex items-center justify-between gap-2 rounded-md border p-3" data-testid={`rating-period-${period.id}`}>
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-sm truncate">{period.name}</span>
+                  <Badge variant="secondary" className={STATUS_STYLES[period.status]}>
+                    {period.status}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {formatPeriodRange(period)}
+                  {period.scod && ` · SCOD ${period.scod}`}
+                </p>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                {period.status === 'open' && (
+                  <Button variant="ghost" size="icon" disabled={isBusy} aria-label="Close period"
+                    onClick={() => statusMutation.mutate({ id: period.id, status: 'closed' })}>
+                    <Lock className="w-4 h-4" />
+                  </Button>
+                )}
+                {period.status === 'closed' && (
+                  <>
+                    <Button variant="ghost" size="icon" disabled={isBusy} aria-label="Reopen period"
+                      onClick={() => statusMutation.mutate({ id: period.id, status: 'open' })}>
+                      <LockOpen className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" disabled={isBusy} aria-label="Archive period"
+                      onClick={() => statusMutation.mutate({ id: period.id, status: 'archived' })}>
+                      <Archive className="w-4 h-4" />
+                    </Button>
+                  </>
+                )}
+                {period.status === 'archived' && (
+                  <Button variant="ghost" size="icon" disabled={isBusy} aria-label="Unarchive period"
+                    onClick={() => statusMutation.mutate({ id: period.id, status: 'closed' })}>
+                    <ArchiveRestore className="w-4 h-4" />
+                  </Button>
+                )}
+                <Button variant="ghost" size="icon" disabled={isBusy} aria-label="Delete period"
+                  onClick={() => {
+                    if (confirm(`Delete "${period.name}"? Its wins and statements are kept.`)) {
+                      deleteMutation.mutate(period.id);
+                    }
+                  }}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Separator />
+
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold">New rating period</h3>
+        <div className="space-y-1">
+          <Label htmlFor="period-name">Name</Label>
+          <Input id="period-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="2025 EPB" data-testid="input-period-name" />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="period-start">Start</Label>
+            <Input id="period-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} data-testid="input-period-start" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="period-close-out">Close-out</Label>
+            <Input id="period-close-out" type="date" value={closeOutDate} onChange={(e) => setCloseOutDate(e.target.value)} data-testid="input-period-close-out" />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="period-scod">SCOD (optional)</Label>
+          <Input id="period-scod" type="date" value={scod} onChange={(e) => setScod(e.target.value)} data-testid="input-period-scod" />
+        </div>
+        {rangeError && <p className="text-xs text-destructive">{rangeError}</p>}
+        <Button
+          className="w-full"
+          onClick={() => createMutation.mutate()}
+          disabled={!name.trim() || !startDate || !closeOutDate || !!rangeError || createMutation.isPending}
+          data-testid="button-create-rating-period"
+        >
+          {createMutation.isPending ? "Creating..." : "Add Rating Period"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Shuffle } from "lucide-react";
+import type { WinCategorySuggestion } from "@shared/categorize";
+
+// Suggestions at or above this are ticked for the member to accept
+const PRESELECT_CONFIDENCE = 0.6;
+const MAX_REVIEW_ENTRIES = 50;
+
+interface RecategorizeReviewProps {
+  entries: { id: string; action: string }[];
+}
+
+// Asks for a performance area for each listed entry and lets the member accept
+// the ones that differ from what was filed
+export default function RecategorizeReview({ entries }: RecategorizeReviewProps) {
+  const { toast } = useToast();
+  const [mismatches, setMismatches] = useState<WinCategorySuggestion[] | null>(null);
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+
+  const reviewed = entries.slice(0, MAX_REVIEW_ENTRIES);
+  const actions = new Map(reviewed.map(entry => [entry.id, entry.action]));
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const suggestMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/wins/recategorize", { winIds: reviewed.map(entry => entry.id) });
+      return response.json() as Promise<{ suggestions: WinCategorySuggestion[] }>;
+    },
+    onSuccess: ({ suggestions }) => {
+      const differing = suggestions.filter(({ current, suggestion }) => suggestion.category !== current);
+      if (differing.length === 0) {
+        toast({ title: "Categories look right", description: `No changes suggested for ${suggestions.length} entries.` });
+        return;
+      }
+      setAccepted(new Set(differing.filter(({ suggestion }) => suggestion.confidence >= PRESELECT_CONFIDENCE).map(({ winId }) => winId)));
+      setMismatches(differing);
+    },
+    onError,
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const updates = (mismatches ?? [])
+        .filter(({ winId }) => accepted.has(winId))
+        .map(({ winId, suggestion }) => ({ id: winId, category: suggestion.category }));
+      const response = await apiRequest("POST", "/api/wins/categories", { updates });
+      return response.json() as Promise<{ updated: number }>;
+    },
+    onSuccess: ({ updated }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/wins"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+      setMismatches(null);
+      toast({ title: "Categories updated", description: `Moved ${updated} ${updated === 1 ? "entry" : "entries"}.` });
+    },
+    onError,
+  });
+
+  const toggle = (winId: string) => {
+    setAccepted(previous => {
+      const next = new Set(previous);
+      if (next.has(winId)) next.delete(winId);
+      else next.add(winId);
+      return next;
+    });
+  };
+
+  if (entries.length === 0) return null;
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => suggestMutation.mutate()}
+        disabled={suggestMutation.isPending}
+        title={entries.length > MAX_REVIEW_ENTRIES ? `Reviews the first ${MAX_REVIEW_ENTRIES} listed entries` : undefined}
+        data-testid="button-review-categories"
+      >
+        <Shuffle className="w-4 h-4 mr-2" />
+        {suggestMutation.isPending ? "Reviewing..." : "Review categories"}
+      </Button>
+
+      <Dialog open={mismatches !== null} onOpenChange={(open) => !open && setMismatches(null)}>
+        <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Review categories</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            {mismatches?.length} of {reviewed.length} entries may fit a different performance area.
+          </p>
+          <ul className="space-y-3">
+            {mismatches?.map(({ winId, current, suggestion }) => (
+              <li key={winId} className="flex items-start gap-3" data-testid={`recategorize-${winId}`}>
+                <Checkbox
+                  id={`recategorize-${winId}`}
+                  checked={accepted.has(winId)}
+                  onCheckedChange={() => toggle(winId)}
+                  className="mt-1"
+                />
+                <label htmlFor={`recategorize-${winId}`} className="text-sm space-y-1 cursor-pointer">
+                  <p className="line-clamp-2">{actions.get(winId)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {current} → <span className="font-medium text-foreground">{suggestion.category}</span>{" "}
+                    ({Math.round(suggestion.confidence * 100)}%)
+                    {suggestion.alternative && ` · or ${suggestion.alternative.category}`}
+                  </p>
+                </label>
+              </li>
+            ))}
+          </ul>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setMismatches(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => applyMutation.mutate()}
+              disabled={accepted.size === 0 || applyMutation.isPending}
+              data-testid="button-apply-categories"
+            >
+              Apply {accepted.size} {accepted.size === 1 ? "change" : "changes"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -10,8 +10,20 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import CharacterCounter from "./ui/character-counter";
-import { Check, Lock, Bot, CheckCircle, TriangleAlert, ArrowLeft, ChevronDown, ChevronUp, Sparkles, RotateCcw, Save, Trophy } from "lucide-react";
+import FormFitIndicator from "./ui/form-fit-indicator";
+import { Check, Lock, Bot, CheckCircle, TriangleAlert, ArrowLeft, ChevronDown, ChevronUp, Sparkles, RotateCcw, Save, Trophy, History } from "lucide-react";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import StatementHistoryPanel from "./StatementHistoryPanel";
+import StatementLint from "./StatementLint";
+import AbbreviationTools from "./AbbreviationTools";
+import AudienceSelect from "./AudienceSelect";
+import GenerationProgress from "./GenerationProgress";
+import { isAbortError, useGenerationStream } from "@/hooks/useGenerationStream";
+import { MAX_STATEMENT_LENGTH } from "@/lib/constants";
+import type { FactCheckReport } from "@shared/factCheck";
+import { mergeDictionary, type AbbreviationDictionary } from "@shared/abbreviations";
+import type { GenerationAudience } from "@shared/schema";
+import { measureFormFit, tightenToWidth } from "@shared/formWidth";
 
 interface RefinementScreenProps {
   statementId: string | null;
@@ -31,10 +43,31 @@ export default function RefinementScreen({ statementId, onComplete }: Refinement
   const [helpSectionCollapsed, setHelpSectionCollapsed] = useState(false);
   const [isGeneratingFirstDraft, setIsGeneratingFirstDraft] = useState(false);
   const [intermediateSteps, setIntermediateSteps] = useState<any>(null);
+  const [factCheck, setFactCheck] = useState<FactCheckReport | null>(null);
   const [showSteps, setShowSteps] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const attemptedFirstDraftRef = useRef(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  // Drafting, questions, regeneration and feedback run as server jobs that
+  // stream each stage as it finishes; one still running when the member left
+  // is picked back up here
+  const generation = useGenerationStream(`refinement:${statementId}`, {
+    onResult: (purpose, result) => {
+      if (purpose === "firstDraft") applyFirstDraft(result);
+      else if (purpose === "feedback") applyFeedback(result);
+      else if (purpose === "askbacks") applyAskBacks(result);
+      else if (purpose === "regenerate") applyRegeneration(result);
+    },
+    onError: (purpose) => {
+      if (purpose === "firstDraft") setIsGeneratingFirstDraft(false);
+      toast({
+        title: "Generation failed",
+        description: "The work in progress when you left could not finish. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
 
   // Safe diff highlighting React components (prevents XSS)
   const renderDiffHighlights = (original: string, improved: string, type: 'original' | 'improved') => {
@@ -122,26 +155,30 @@ export default function RefinementScreen({ statementId, onComplete }: Refinement
     retry: false,
   });
 
+  // The member's own abbreviations, so tightening here matches regeneration
+  const { data: dictionary } = useQuery<AbbreviationDictionary>({
+    queryKey: ["/api/abbreviations"],
+    retry: false,
+  });
+
+  const applyFirstDraft = (data: any) => {
+    setOriginalStatementContent(data.content);
+    setIsGeneratingFirstDraft(false);
+    // Set query data directly to avoid retriggering useEffect
+    queryClient.setQueryData(["/api/statements", statementId], (prev: any) => ({ ...prev, content: data.content }));
+    toast({
+      title: "First draft ready!",
+      description: "Your performance statement has been generated from your win data.",
+    });
+  };
+
   // Auto-generate first draft if statement content is empty
   const generateFirstDraftMutation = useMutation({
-    mutationFn: async () => {
-      const response = await apiRequest("POST", `/api/refinement/${statementId}/regenerate`, {
-        askBackAnswers: {}
-      });
-      return response.json();
-    },
-    onSuccess: (data) => {
-      setOriginalStatementContent(data.content);
-      setIsGeneratingFirstDraft(false);
-      // Set query data directly to avoid retriggering useEffect
-      queryClient.setQueryData(["/api/statements", statementId], (prev: any) => ({ ...prev, content: data.content }));
-      toast({
-        title: "First draft ready!",
-        description: "Your performance statement has been generated from your win data.",
-      });
-    },
+    mutationFn: () => generation.run<any>({ kind: "regenerate", statementId: statementId ?? "", askBackAnswers: {} }, "firstDraft"),
+    onSuccess: applyFirstDraft,
     onError: (error) => {
       setIsGeneratingFirstDraft(false);
+      if (isAbortError(error)) return;
       console.error('Failed to generate first draft:', error);
       toast({
         title: "Generation failed",
@@ -171,7 +208,10 @@ export default function RefinementScreen({ statementId, onComplete }: Refinement
       // Generate first draft only once per statement
       attemptedFirstDraftRef.current = true; // Set BEFORE mutate to prevent double fire
       setIsGeneratingFirstDraft(true);
-      generateFirstDraftMutation.mutate();
+      // A draft already running is being followed and lands through onResult
+      if (generation.pendingJob()?.purpose !== "firstDraft") {
+        generateFirstDraftMutation.mutate();
+      }
     }
   }, [statementId, statement]); // Removed wins to prevent unnecessary retriggering
   
@@ -187,17 +227,17 @@ export default function RefinementScreen({ statementId, onComplete }: Refinement
     }
   }, [statement, wins]);
 
+  const applyFeedback = (feedback: any) => {
+    setAiFeedback(feedback);
+    setCurrentStep(4); // AI feedback comes after comparison
+  };
+
   // Generate AI feedback (now happens after seeing improvement)
   const generateFeedbackMutation = useMutation({
-    mutationFn: async () => {
-      const response = await apiRequest("POST", `/api/refinement/${statementId}/feedback`);
-      return response.json();
-    },
-    onSuccess: (feedback) => {
-      setAiFeedback(feedback);
-      setCurrentStep(4); // AI feedback comes after comparison
-    },
+    mutationFn: () => generation.run<any>({ kind: "feedback", statementId: statementId ?? "" }),
+    onSuccess: applyFeedback,
     onError: (error) => {
+      if (isAbortError(error)) return;
       if (isUnauthorizedError(error)) {
         toast({
           title: "Unauthorized",
@@ -217,17 +257,17 @@ export default function RefinementScreen({ statementId, onComplete }: Refinement
     },
   });
 
+  const applyAskBacks = (questions: any) => {
+    setAskBackQuestions(questions);
+    setCurrentStep(2);
+  };
+
   // Generate ask-back questions
   const generateAskBacksMutation = useMutation({
-    mutationFn: async () => {
-      const response = await apiRequest("POST", `/api/refinement/${statementId}/askbacks`);
-      return response.json();
-    },
-    onSuccess: (questions) => {
-      setAskBackQuestions(questions);
-      setCurrentStep(2);
-    },
+    mutationFn: () => generation.run<any>({ kind: "askbacks", statementId: statementId ?? "" }),
+    onSuccess: applyAskBacks,
     onError: (error) => {
+      if (isAbortError(error)) return;
       toast({
         title: "Error",
         description: "Failed to generate questions. Please try again.",
@@ -236,27 +276,59 @@ export default function RefinementScreen({ statementId, onComplete }: Refinement
     },
   });
 
+  const applyRegeneration = (result: any) => {
+    setImprovedStatementContent(result.content);
+    setIntermediateSteps(result.intermediateSteps);
+    setFactCheck(result.factCheck ?? null);
+    setCurrentStep(3); // Move to enhanced result display
+    toast({
+      title: "Statement dramatically improved!",
+      description: "Enhanced with two-stage AI refinement process!",
+    });
+  };
+
   // Enhanced regenerate statement with two-stage AI refinement
   const regenerateStatementMutation = useMutation({
-    mutationFn: async () => {
-      const response = await apiRequest("POST", `/api/refinement/${statementId}/regenerate`, {
-        askBackAnswers,
+    mutationFn: () => generation.run<any>({ kind: "regenerate", statementId: statementId ?? "", askBackAnswers }),
+    onSuccess: applyRegeneration,
+    onError: (error) => {
+      if (isAbortError(error)) return;
+      toast({
+        title: "Error",
+        description: "Failed to regenerate statement. Please try again.",
+        variant: "destructive",
       });
+    },
+  });
+
+  // Abbreviate and reformat numbers until the draft fits the form's width
+  const tightenOriginalStatement = () => {
+    const abbreviations = dictionary ? mergeDictionary(dictionary.global, dictionary.custom) : undefined;
+    const result = tightenToWidth(originalStatementContent, { abbreviations });
+    setOriginalStatementContent(result.text);
+    toast({
+      title: result.fit.fits ? "Statement fits the form" : `Still over by ${result.fit.overflowPx} px`,
+      description: result.changes.length > 0
+        ? result.changes.join("; ")
+        : "Nothing left to abbreviate. Try cutting a phrase.",
+      variant: result.fit.fits ? undefined : "destructive",
+    });
+  };
+
+  // Later feedback, questions and rewrites are aimed at the new audience
+  const updateAudienceMutation = useMutation({
+    mutationFn: async (audience: GenerationAudience) => {
+      const response = await apiRequest("PUT", `/api/statements/${statementId}`, { audience });
       return response.json();
     },
-    onSuccess: (result) => {
-      setImprovedStatementContent(result.content);
-      setIntermediateSteps(result.intermediateSteps);
-      setCurrentStep(3); // Move to enhanced result display
-      toast({
-        title: "Statement dramatically improved!",
-        description: "Enhanced with two-stage AI refinement process!",
-      });
+    onSuccess: (_data, audience) => {
+      queryClient.setQueryData(["/api/statements", statementId], (prev: any) => ({ ...prev, audience }));
+      queryClient.invalidateQueries({ queryKey: ["/api/statements"], exact: true });
     },
-    onError: (error) => {
+    onError: () => {
       toast({
         title: "Error",
-        description: "Failed to regenerate statement. Please try again.",
+        description: "Failed to change who the statement is for. Please try again.",
         variant: "destructive",
       });
     },
@@ -344,6 +416,9 @@ export default function RefinementScreen({ statementId, onComplete }: Refinement
             }
           </div>
         </div>
+        {generation.isStreaming && (
+          <GenerationProgress stages={generation.stages} retry={generation.retry} onCancel={generation.cancel} />
+        )}
       </div>
     );
   }
@@ -357,9 +432,41 @@ export default function RefinementScreen({ statementId, onComplete }: Refinement
           </button>
           <h2 className="text-xl font-semibold text-foreground">Refine Statement</h2>
         </div>
-        <span className="text-sm text-muted-foreground">Step {currentStep} of 5</span>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowHistory(!showHistory)}
+            data-testid="button-toggle-history"
+          >
+            <History className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground">Step {currentStep} of 5</span>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <Label className="text-sm text-muted-foreground">Writing for</Label>
+        <AudienceSelect
+          value={((statement as any).audience ?? "epb") as GenerationAudience}
+          onChange={(audience) => updateAudienceMutation.mutate(audience)}
+          disabled={updateAudienceMutation.isPending || regenerateStatementMutation.isPending}
+          className="w-56"
+        />
       </div>
 
+      {/* Version History */}
+      {showHistory && statementId && (
+        <Card>
+          <CardContent className="p-4">
+            <StatementHistoryPanel
+              statementId={statementId}
+              onRestored={(content) => setOriginalStatementContent(content)}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Progress Steps */}
       <Card>
         <CardContent className="p-4">
@@ -382,7 +489,10 @@ export default function RefinementScreen({ statementId, onComplete }: Refinement
           <div className="space-y-3">
             <div className="flex items-center justify-between">
               <Label className="text-sm font-medium text-foreground">First Draft from Win Data</Label>
-              <CharacterCounter current={originalStatementContent.length} max={350} />
+              <div className="flex items-center gap-3">
+                <FormFitIndicator text={originalStatementContent} />
+                <CharacterCounter current={originalStatementContent.length} max={MAX_STATEMENT_LENGTH} />
+              </div>
             </div>
             <Textarea
               value={originalStatementContent}
@@ -390,6 +500,18 @@ export default function RefinementScreen({ statementId, onComplete }: Refinement
               className="resize-none h-32"
               data-testid="textarea-original-statement"
             />
+            {originalStatementContent.trim() && !measureFormFit(originalStatementContent).fits && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={tightenOriginalStatement}
+                data-testid="button-tighten-statement"
+              >
+                Tighten to fit form
+              </Button>
+            )}
+            <AbbreviationTools text={originalStatementContent} onChange={setOriginalStatementContent} />
+            <StatementLint text={originalStatementContent} />
           </div>
           
           {/* Show original AIR fields for transparency */}
@@ -458,6 +580,11 @@ export default function RefinementScreen({ statementId, onComplete }: Refinement
         </Collapsible>
       )}
 
+      {/* Regeneration and feedback progress */}
+      {generation.isStreaming && (
+        <GenerationProgress stages={generation.stages} retry={generation.retry} onCancel={generation.cancel} />
+      )}
+
       {/* Step 3: Enhanced Result Display */}
       {currentStep >= 3 && improvedStatementContent && (
         <Card className="bg-gradient-to-r from-green-50 to-blue-50 dark:from-green-950 dark:to-blue-950 border-green-200 dark:border-green-800">
@@ -499,11 +626,29 @@ export default function RefinementScreen({ statementId, onComplete }: Refinement
                 <span className="text-xs text-green-600 font-medium">Dramatically Improved!</span>
               </div>
               <div className="p-4 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 rounded-lg">
-                <p className="text-sm text-foreground leading-relaxed font-medium" data-testid="text-final-statement">
-                  {improvedStatementContent}
-                </p>
-                <p className="text-xs text-muted-foreground mt-2">{improvedStatementContent.length}/350 characters</p>
+                <StatementLint
+                  text={improvedStatementContent}
+                  textClassName="text-sm text-foreground leading-relaxed font-medium"
+                  textTestId="text-final-statement"
+                />
+                <div className="flex items-center justify-between mt-2">
+                  <p className="text-xs text-muted-foreground">{improvedStatementContent.length}/{MAX_STATEMENT_LENGTH} characters</p>
+                  <FormFitIndicator text={improvedStatementContent} showLines />
+                </div>
               </div>
+              {factCheck && factCheck.issues.length > 0 && (
+                <div className="p-3 bg-amber-50 dark:bg-amber-950 border border-amber-200 dark:border-amber-800 rounded-lg" data-testid="fact-check-warnings">
+                  <div className="flex items-center gap-2 mb-1">
+                    <TriangleAlert className="h-4 w-4 text-amber-600" />
+                    <span className="text-xs font-medium text-amber-800 dark:text-amber-200">Check these facts before saving</span>
+                  </div>
+                  <ul className="space-y-1 text-xs text-amber-800 dark:text-amber-200">
+                    {factCheck.issues.map((issue, index) => (
+                      <li key={index}>{issue.message}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
             
             {/* Intermediate Steps - Collapsible */}
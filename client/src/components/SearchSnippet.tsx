@@ -0,0 +1,14 @@
+import type { SnippetPart } from "@shared/search";
+
+// Search result excerpt with the matched words highlighted
+export default function SearchSnippet({ parts }: { parts: SnippetPart[] }) {
+  return (
+    <p className="text-sm text-foreground" data-testid="search-snippet">
+      {parts.map((part, index) => part.highlight ? (
+        <mark key={index} className="bg-accent/30 text-foreground rounded-sm px-0.5">{part.text}</mark>
+      ) : (
+        <span key={index}>{part.text}</span>
+      ))}
+    </p>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { History, RotateCcw } from "lucide-react";
+import { diffWords } from "@shared/diff";
+import type { StatementVersion, StatementVersionSource } from "@shared/schema";
+
+const SOURCE_LABELS: Record<StatementVersionSource, string> = {
+  first_draft: "First draft",
+  manual: "Written manually",
+  askback_stage1: "Ask-back stage 1",
+  askback_final: "Ask-back final",
+  manual_edit: "Manual edit",
+  restore: "Restored",
+  original: "Original",
+};
+
+interface StatementHistoryPanelProps {
+  statementId: string;
+  onRestored?: (content: string) => void;
+}
+
+export default function StatementHistoryPanel({ statementId, onRestored }: StatementHistoryPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [fromId, setFromId] = useState<string>("");
+  const [toId, setToId] = useState<string>("");
+
+  // Newest first
+  const { data: versions = [], isLoading } = useQuery<StatementVersion[]>({
+    queryKey: ["/api/statements", statementId, "versions"],
+    retry: false,
+  });
+
+  // Default to comparing the previous version against the current one
+  useEffect(() => {
+    if (versions.length > 0 && !versions.some(v => v.id === toId)) {
+      setToId(versions[0].id);
+      setFromId(versions[Math.min(1, versions.length - 1)].id);
+    }
+  }, [versions, toId]);
+
+  const restoreMutation = useMutation({
+    mutationFn: async (versionId: string) => {
+      const response = await apiRequest("POST", `/api/statements/${statementId}/versions/${versionId}/restore`);
+      return response.json();
+    },
+    onSuccess: (statement) => {
+      toast({
+        title: "Version restored",
+        description: "The selected version is now the current statement.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/statements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+      onRestored?.(statement.content);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to restore version. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatVersionLabel = (version: StatementVersion, index: number) => {
+    const date = version.createdAt
+      ? new Date(version.createdAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+      : '';
+    const label = SOURCE_LABELS[version.source as StatementVersionSource] || version.source;
+    return `v${versions.length - index} · ${label} · ${date}`;
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground text-center py-4">Loading history...</p>;
+  }
+
+  if (versions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-4">
+        No history yet. Versions are recorded each time the statement changes.
+      </p>
+    );
+  }
+
+  const fromVersion = versions.find(v => v.id === fromId);
+  const toVersion = versions.find(v => v.id === toId);
+  const segments = fromVersion && toVersion ? diffWords(fromVersion.content, toVersion.content) : [];
+
+  return (
+    <div className="space-y-4" data-testid="panel-statement-history">
+      <div className="flex items-center gap-2">
+        <History className="h-4 w-4 text-muted-foreground" />
+        <span className="text-sm font-medium">{versions.length} version{versions.length !== 1 ? 's' : ''}</span>
+      </div>
+
+      <div className="grid grid-cols-1 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Compare</Label>
+          <Select value={fromId} onValueChange={setFromId}>
+            <SelectTrigger data-testid="select-version-from">
+              <SelectValue placeholder="Select version" />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.map((version, index) => (
+                <SelectItem key={version.id} value={version.id}>
+                  {formatVersionLabel(version, index)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">With</Label>
+          <Select value={toId} onValueChange={setToId}>
+            <SelectTrigger data-testid="select-version-to">
+              <SelectValue placeholder="Select version" />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.map((version, index) => (
+                <SelectItem key={version.id} value={version.id}>
+                  {formatVersionLabel(version, index)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {fromVersion && toVersion && (
+        <div className="p-3 border rounded-lg bg-muted/10">
+          <p className="text-sm leading-relaxed" data-testid="text-version-diff">
+            {segments.map((segment, index) => {
+              if (segment.type === 'removed') {
+                return (
+                  <span key={index} className="bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200 line-through rounded">
+                    {segment.text}
+                  </span>
+                );
+              }
+              if (segment.type === 'added') {
+                return (
+                  <span key={index} className="bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200 font-medium rounded">
+                    {segment.text}
+                  </span>
+                );
+              }
+              return <span key={index}>{segment.text}</span>;
+            })}
+          </p>
+          <div className="flex items-center justify-between mt-2 text-xs text-muted-foreground">
+            <span>{fromVersion.content.length} → {toVersion.content.length} characters</span>
+            {toVersion.aiScore !== null && toVersion.aiScore !== undefined && (
+              <Badge variant="outline" className="text-xs">AI score {toVersion.aiScore}/10</Badge>
+            )}
+          </div>
+        </div>
+      )}
+
+      {fromVersion && fromVersion.id !== versions[0].id && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={() => restoreMutation.mutate(fromVersion.id)}
+          disabled={restoreMutation.isPending}
+          data-testid="button-restore-version"
+        >
+          <RotateCcw className="h-4 w-4 mr-2" />
+          {restoreMutation.isPending ? "Restoring..." : `Restore v${versions.length - versions.indexOf(fromVersion)}`}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useMemo } from "react";
+import { CircleCheck, CircleX, Info, TriangleAlert } from "lucide-react";
+import { lintStatement, type LintFinding, type LintSeverity } from "@shared/statementLint";
+
+const highlightClasses: Record<LintSeverity, string> = {
+  error: "bg-red-100 dark:bg-red-950 underline decoration-wavy decoration-red-500",
+  warning: "bg-amber-100 dark:bg-amber-950 underline decoration-wavy decoration-amber-500",
+  info: "underline decoration-dotted decoration-blue-500",
+};
+
+const severityIcons = {
+  error: <CircleX className="h-3 w-3 text-red-600 shrink-0 mt-0.5" />,
+  warning: <TriangleAlert className="h-3 w-3 text-amber-600 shrink-0 mt-0.5" />,
+  info: <Info className="h-3 w-3 text-blue-600 shrink-0 mt-0.5" />,
+};
+
+type Segment = { text: string; finding?: LintFinding };
+
+// Findings arrive sorted by start; where spans overlap the earlier one wins
+function toSegments(text: string, findings: LintFinding[]): Segment[] {
+  const segments: Segment[] = [];
+  let position = 0;
+  for (const finding of findings) {
+    if (!finding.span || finding.span.start < position) continue;
+    if (finding.span.start > position) segments.push({ text: text.slice(position, finding.span.start) });
+    segments.push({ text: text.slice(finding.span.start, finding.span.end), finding });
+    position = finding.span.end;
+  }
+  if (position < text.length) segments.push({ text: text.slice(position) });
+  return segments;
+}
+
+interface StatementLintProps {
+  text: string;
+  // Hide the highlighted copy when the text is already shown in an editor
+  showText?: boolean;
+  textClassName?: string;
+  textTestId?: string;
+}
+
+// Rule-based findings for a statement: the text with problem spans highlighted
+// (hover for the reason) followed by the full list
+export default function StatementLint({
+  text,
+  showText = true,
+  textClassName = "text-sm text-foreground leading-relaxed",
+  textTestId = "text-lint-highlighted",
+}: StatementLintProps) {
+  const findings = useMemo(() => lintStatement(text), [text]);
+
+  if (!text.trim()) return null;
+
+  return (
+    <div className="space-y-2" data-testid="statement-lint">
+      {showText && (
+        <p className={textClassName} data-testid={textTestId}>
+          {toSegments(text, findings).map((segment, index) => segment.finding ? (
+            <span
+              key={index}
+              className={`rounded-sm ${highlightClasses[segment.finding.severity]}`}
+              title={segment.finding.message}
+            >
+              {segment.text}
+            </span>
+          ) : (
+            <span key={index}>{segment.text}</span>
+          ))}
+        </p>
+      )}
+
+      {findings.length === 0 ? (
+        <p className="flex items-center gap-1 text-xs text-green-600">
+          <CircleCheck className="h-3 w-3" />
+          No rule issues found
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {findings.map((finding, index) => (
+            <li key={index} className="flex items-start gap-1 text-xs text-muted-foreground" data-testid={`lint-${finding.rule}`}>
+              {severityIcons[finding.severity]}
+              <span>{finding.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { getWinDate } from "@shared/winDates";
+import type { StatementLineage } from "@shared/lineage";
+
+// The wins a statement was built from, flagging ones since moved to the Trash
+// or permanently deleted
+export default function StatementSources({ statementId }: { statementId: string }) {
+  const { data: lineage, isLoading } = useQuery<StatementLineage>({
+    queryKey: ["/api/statements", statementId, "lineage"],
+    retry: false,
+    staleTime: 0,
+  });
+
+  if (isLoading || !lineage) {
+    return <p className="text-xs text-muted-foreground">Loading sources...</p>;
+  }
+  if (lineage.sources.length === 0) {
+    return <p className="text-xs text-muted-foreground">Written without source entries.</p>;
+  }
+
+  return (
+    <ul className="space-y-2" data-testid={`statement-sources-${statementId}`}>
+      {lineage.sources.map(source => (
+        <li key={source.winId} className="p-2 border rounded text-xs bg-muted/10 space-y-1">
+          {source.win ? (
+            <>
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary" className="text-xs">{source.win.category}</Badge>
+                <span className="text-muted-foreground">
+                  {getWinDate(source.win)?.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: '2-digit' })}
+                </span>
+                {source.status === "trashed" && (
+                  <Badge variant="outline" className="text-xs text-destructive border-destructive/50">In Trash</Badge>
+                )}
+              </div>
+              <p className="line-clamp-2">{source.win.action}</p>
+            </>
+          ) : (
+            <p className="text-muted-foreground italic">This entry was permanently deleted.</p>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
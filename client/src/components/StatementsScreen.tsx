@@ -1,8 +1,7 @@
 import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
@@ -11,6 +10,13 @@ import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { PERFORMANCE_CATEGORIES } from "../lib/constants";
 import { Sparkles, Target, Users, TrendingUp, Zap, ArrowRight } from "lucide-react";
+import { getWinDate } from "@shared/winDates";
+import type { GenerationAudience, Statement } from "@shared/schema";
+import { matchesTagFilter } from "@shared/tags";
+import TagFilter from "./TagFilter";
+import AudienceSelect from "./AudienceSelect";
+import GenerationProgress from "./GenerationProgress";
+import { isAbortError, useGenerationStream } from "@/hooks/useGenerationStream";
 
 interface StatementsScreenProps {
   onStartRefinement: (statementId: string) => void;
@@ -19,8 +25,20 @@ interface StatementsScreenProps {
 export default function StatementsScreen({ onStartRefinement }: StatementsScreenProps) {
   const [selectedWins, setSelectedWins] = useState<string[]>([]);
   const [generationMode, setGenerationMode] = useState<'combine' | 'separate'>('combine');
+  const [audience, setAudience] = useState<GenerationAudience>('epb');
   const [categoryFilter, setCategoryFilter] = useState<string>('all');
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // A generation still running when the member left lands here on return
+  const generation = useGenerationStream("statements", {
+    onResult: (_purpose, result) => applyGeneratedStatements(result),
+    onError: () => toast({
+      title: "Error",
+      description: "Failed to generate statement. Please try again.",
+      variant: "destructive",
+    }),
+  });
 
   // Fetch wins
   const { data: wins = [], isLoading: winsLoading } = useQuery({
@@ -28,19 +46,23 @@ export default function StatementsScreen({ onStartRefinement }: StatementsScreen
     retry: false,
   });
 
+  const applyGeneratedStatements = ({ statements }: { statements: Statement[] }) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/statements"] });
+    toast({
+      title: statements.length === 1 ? "Statement generated!" : `${statements.length} statements generated!`,
+      description: statements.length === 1
+        ? "Starting refinement process..."
+        : "Refining the first one now; the rest are waiting in your Library.",
+    });
+    onStartRefinement(statements[0].id);
+  };
+
   const generateStatementMutation = useMutation({
-    mutationFn: async (data: { winIds: string[], mode: 'combine' | 'separate' }) => {
-      const response = await apiRequest("POST", "/api/statements/generate", data);
-      return response.json();
-    },
-    onSuccess: (statement) => {
-      toast({
-        title: "Statement generated!",
-        description: "Starting refinement process...",
-      });
-      onStartRefinement(statement.id);
-    },
+    mutationFn: (data: { winIds: string[], mode: 'combine' | 'separate', audience: GenerationAudience }) =>
+      generation.run<{ statements: Statement[] }>({ kind: "generate", ...data }),
+    onSuccess: applyGeneratedStatements,
     onError: (error) => {
+      if (isAbortError(error)) return;
       if (isUnauthorizedError(error)) {
         toast({
           title: "Unauthorized",
@@ -61,7 +83,7 @@ export default function StatementsScreen({ onStartRefinement }: StatementsScreen
   });
 
   const filteredWins = (wins as any[]).filter((win: any) => 
-    categoryFilter === 'all' || win.category === categoryFilter
+    (categoryFilter === 'all' || win.category === categoryFilter) && matchesTagFilter(win.tags, tagFilter)
   );
 
   const handleWinToggle = (winId: string) => {
@@ -85,6 +107,7 @@ export default function StatementsScreen({ onStartRefinement }: StatementsScreen
     generateStatementMutation.mutate({
       winIds: selectedWins,
       mode: generationMode,
+      audience,
     });
   };
 
@@ -124,8 +147,8 @@ export default function StatementsScreen({ onStartRefinement }: StatementsScreen
     };
   };
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
+  const formatDate = (value: Date | string) => {
+    const date = new Date(value);
     const now = new Date();
     const diffTime = Math.abs(now.getTime() - date.getTime());
     const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
@@ -193,10 +216,14 @@ export default function StatementsScreen({ onStartRefinement }: StatementsScreen
             </Select>
           </div>
 
+          {/* Tag Filter, e.g. every win from one exercise */}
+          <TagFilter selected={tagFilter} onChange={setTagFilter} usedOn="wins" />
+
           {/* Results Count */}
           <div className="text-sm text-muted-foreground">
             {filteredWins.length} of {(wins as any[]).length} {filteredWins.length === 1 ? 'win' : 'wins'} 
             {categoryFilter !== 'all' && ` in ${categoryFilter}`}
+            {tagFilter.length > 0 && ` tagged ${tagFilter.join(' or ')}`}
           </div>
 
           {/* Win Cards */}
@@ -241,9 +268,18 @@ export default function StatementsScreen({ onStartRefinement }: StatementsScreen
                               {win.category}
                             </Badge>
                             <span className="text-xs text-muted-foreground">
-                              {formatDate(win.createdAt)}
+                              {formatDate(getWinDate(win) ?? win.createdAt)}
                             </span>
                           </div>
+                          {win.tags?.length > 0 && (
+                            <div className="flex flex-wrap gap-1">
+                              {win.tags.map((tag: string) => (
+                                <Badge key={tag} variant="outline" className="text-xs font-normal">
+                                  {tag}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
                         </div>
                       </div>
                     </CardContent>
@@ -300,16 +336,26 @@ export default function StatementsScreen({ onStartRefinement }: StatementsScreen
         </Card>
       )}
 
+      {/* Audience */}
+      <div className="flex items-center justify-between gap-3">
+        <Label className="text-sm font-medium">Writing for</Label>
+        <AudienceSelect value={audience} onChange={setAudience} className="w-56" />
+      </div>
+
       {/* Generate Button */}
       <Button 
         className="w-full" 
         onClick={handleGenerate}
-        disabled={selectedWins.length === 0 || generateStatementMutation.isPending}
+        disabled={selectedWins.length === 0 || generation.isStreaming}
         data-testid="button-generate"
       >
         <Sparkles className="mr-2 h-4 w-4" />
-        {generateStatementMutation.isPending ? "Generating..." : "Generate First Draft"}
+        {generation.isStreaming ? "Generating..." : "Generate First Draft"}
       </Button>
+
+      {generation.isStreaming && (
+        <GenerationProgress stages={generation.stages} retry={generation.retry} onCancel={generation.cancel} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,55 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Tag as TagIcon } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { tagKey, type TagSummary } from "@shared/tags";
+
+interface TagFilterProps {
+  selected: string[];
+  onChange: (tags: string[]) => void;
+  // Only offer tags used by this kind of item
+  usedOn?: 'wins' | 'statements';
+}
+
+// Toggleable tag chips; an item matches when it carries any selected tag
+export default function TagFilter({ selected, onChange, usedOn }: TagFilterProps) {
+  const { data: tags = [] } = useQuery<TagSummary[]>({
+    queryKey: ["/api/tags"],
+    retry: false,
+  });
+
+  const available = tags.filter(tag =>
+    usedOn === 'wins' ? tag.winCount > 0 : usedOn === 'statements' ? tag.statementCount > 0 : true
+  );
+  if (available.length === 0) return null;
+
+  const selectedKeys = new Set(selected.map(tagKey));
+  const toggle = (name: string) => {
+    onChange(selectedKeys.has(tagKey(name))
+      ? selected.filter(tag => tagKey(tag) !== tagKey(name))
+      : [...selected, name]);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1" data-testid="tag-filter">
+      <TagIcon className="w-4 h-4 text-muted-foreground mr-1" />
+      {available.map(tag => (
+        <Badge
+          key={tag.id}
+          variant={selectedKeys.has(tagKey(tag.name)) ? "default" : "outline"}
+          className={cn("cursor-pointer", !selectedKeys.has(tagKey(tag.name)) && "hover:bg-accent")}
+          onClick={() => toggle(tag.name)}
+          data-testid={`tag-filter-${tagKey(tag.name)}`}
+        >
+          {tag.name}
+        </Badge>
+      ))}
+      {selected.length > 0 && (
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => onChange([])}>
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
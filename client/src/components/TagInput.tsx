@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Tag as TagIcon, X } from "lucide-react";
+import { MAX_TAG_LENGTH, MAX_TAGS_PER_ITEM, cleanTagName, normalizeTagNames, tagKey, type TagSummary } from "@shared/tags";
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  id?: string;
+  placeholder?: string;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+// Chip-style tag editor. Enter or comma adds the typed tag; suggestions come from
+// tags the member has already used, most used first.
+export default function TagInput({ value, onChange, id, placeholder = "Add a tag (e.g. RED FLAG 24-2)" }: TagInputProps) {
+  const [draft, setDraft] = useState("");
+  const [isFocused, setIsFocused] = useState(false);
+
+  const { data: knownTags = [] } = useQuery<TagSummary[]>({
+    queryKey: ["/api/tags"],
+    retry: false,
+  });
+
+  const selectedKeys = new Set(value.map(tagKey));
+  const query = tagKey(draft);
+  const suggestions = knownTags
+    .filter(tag => !selectedKeys.has(tagKey(tag.name)) && (!query || tagKey(tag.name).includes(query)))
+    .sort((a, b) => (b.winCount + b.statementCount) - (a.winCount + a.statementCount))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const addTag = (name: string) => {
+    const cleaned = cleanTagName(name);
+    if (!cleaned || value.length >= MAX_TAGS_PER_ITEM) return;
+    // Reuse the stored spelling so "red flag" doesn't fork "RED FLAG"
+    const existing = knownTags.find(tag => tagKey(tag.name) === tagKey(cleaned));
+    onChange(normalizeTagNames([...value, existing?.name ?? cleaned]));
+    setDraft("");
+  };
+
+  const removeTag = (name: string) => {
+    onChange(value.filter(tag => tag !== name));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter' || event.key === ',') {
+      event.preventDefault();
+      addTag(draft);
+    } else if (event.key === 'Backspace' && !draft && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map(tag => (
+            <Badge key={tag} variant="secondary" className="gap-1" data-testid={`tag-chip-${tagKey(tag)}`}>
+              {tag}
+              <button type="button" onClick={() => removeTag(tag)} aria-label={`Remove ${tag}`}>
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <div className="relative">
+        <TagIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          id={id}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false);
+            if (draft) addTag(draft);
+          }}
+          maxLength={MAX_TAG_LENGTH}
+          placeholder={value.length >= MAX_TAGS_PER_ITEM ? `Up to ${MAX_TAGS_PER_ITEM} tags` : placeholder}
+          disabled={value.length >= MAX_TAGS_PER_ITEM}
+          className="pl-9"
+          data-testid="input-tags"
+        />
+      </div>
+      {isFocused && suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {suggestions.map(tag => (
+            <Badge
+              key={tag.id}
+              variant="outline"
+              className="cursor-pointer hover:bg-accent"
+              // Fire before the input's blur commits the draft
+              onMouseDown={(e) => {
+                e.preventDefault();
+                addTag(tag.name);
+              }}
+              data-testid={`tag-suggestion-${tagKey(tag.name)}`}
+            >
+              {tag.name}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
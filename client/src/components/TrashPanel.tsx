@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { getPurgeDate, type TrashContents } from "@shared/trash";
+
+type TrashKind = "wins" | "statements";
+
+const formatDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: '2-digit' });
+
+// Deleted wins and statements with restore and permanent-delete actions
+export default function TrashPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [confirmEmpty, setConfirmEmpty] = useState(false);
+
+  const { data: trash, isLoading } = useQuery<TrashContents>({
+    queryKey: ["/api/trash"],
+    retry: false,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async ({ kind, id }: { kind: TrashKind; id: string }) => {
+      const response = await apiRequest("POST", `/api/trash/${kind}/${id}/restore`);
+      return response.json();
+    },
+    onSuccess: (_data, { kind }) => {
+      toast({
+        title: kind === "wins" ? "Entry restored" : "Statement restored",
+        description: "It's back in your library.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/wins"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/statements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    },
+    onError,
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async ({ kind, id }: { kind: TrashKind; id: string }) => {
+      const response = await apiRequest("DELETE", `/api/trash/${kind}/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Permanently deleted",
+        description: "The item can no longer be recovered.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    },
+    onError,
+  });
+
+  const emptyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", "/api/trash");
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Trash emptied",
+        description: "Deleted items have been permanently removed.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      setConfirmEmpty(false);
+    },
+    onError,
+  });
+
+  if (isLoading || !trash) {
+    return <p className="text-sm text-muted-foreground text-center py-8">Loading trash...</p>;
+  }
+
+  const isEmpty = trash.wins.length === 0 && trash.statements.length === 0;
+  const isBusy = restoreMutation.isPending || purgeMutation.isPending;
+
+  const renderActions = (kind: TrashKind, id: string) => (
+    <div className="flex gap-2">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 px-2 text-xs"
+        onClick={() => restoreMutation.mutate({ kind, id })}
+        disabled={isBusy}
+        data-testid={`button-restore-${kind}-${id}`}
+      >
+        <RotateCcw className="w-3 h-3 mr-1" />
+        Restore
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 px-2 text-xs text-destructive hover:text-destructive"
+        onClick={() => purgeMutation.mutate({ kind, id })}
+        disabled={isBusy}
+        data-testid={`button-purge-${kind}-${id}`}
+      >
+        <Trash2 className="w-3 h-3 mr-1" />
+        Delete forever
+      </Button>
+    </div>
+  );
+
+  const renderDates = (deletedAt: Date | string | null) => deletedAt && (
+    <p className="text-xs text-muted-foreground">
+      Deleted {formatDate(deletedAt)} · removed for good {formatDate(getPurgeDate(deletedAt, trash.retentionDays))}
+    </p>
+  );
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground text-center">
+        Deleted items are kept for {trash.retentionDays} days, then permanently removed.
+      </p>
+
+      {isEmpty ? (
+        <Card>
+          <CardContent className="p-6 text-center">
+            <p className="text-muted-foreground">The Trash is empty.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {trash.wins.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium text-foreground">Entries ({trash.wins.length})</h3>
+              {trash.wins.map(win => (
+                <Card key={win.id} data-testid={`card-trash-win-${win.id}`}>
+                  <CardContent className="p-4 space-y-2">
+                    <Badge variant="secondary" className="text-xs">{win.category}</Badge>
+                    <p className="text-sm text-foreground line-clamp-2">{win.action}</p>
+                    {renderDates(win.deletedAt)}
+                    {renderActions("wins", win.id)}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          {trash.statements.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium text-foreground">Statements ({trash.statements.length})</h3>
+              {trash.statements.map(statement => (
+                <Card key={statement.id} data-testid={`card-trash-statement-${statement.id}`}>
+                  <CardContent className="p-4 space-y-2">
+                    <Badge variant="secondary" className="text-xs">{statement.category}</Badge>
+                    <p className="text-sm text-foreground line-clamp-3">{statement.content}</p>
+                    {renderDates(statement.deletedAt)}
+                    {renderActions("statements", statement.id)}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          <Button
+            variant="outline"
+            className="w-full text-destructive hover:text-destructive"
+            onClick={() => setConfirmEmpty(true)}
+            data-testid="button-empty-trash"
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Empty Trash
+          </Button>
+        </>
+      )}
+
+      <Dialog open={confirmEmpty} onOpenChange={setConfirmEmpty}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Empty Trash</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            Permanently delete {trash.wins.length + trash.statements.length} item(s)? This action cannot be undone.
+          </p>
+          <div className="flex space-x-2">
+            <Button variant="destructive" onClick={() => emptyMutation.mutate()} disabled={emptyMutation.isPending}>
+              {emptyMutation.isPending ? "Deleting..." : "Delete Forever"}
+            </Button>
+            <Button variant="outline" onClick={() => setConfirmEmpty(false)}>
+              Cancel
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
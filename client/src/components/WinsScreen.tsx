@@ -15,7 +15,11 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import CharacterCounter from "./ui/character-counter";
 import { PERFORMANCE_CATEGORIES, ACTION_SUGGESTIONS, IMPACT_OPTIONS, CATEGORY_TIPS, RESULT_TEMPLATES } from "../lib/constants";
-import { Save, Zap, Lightbulb, Target, Plus } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Save, Zap, Lightbulb, Target, Plus, FileUp, Sparkles } from "lucide-react";
+import { ISO_DATE_PATTERN, getWinDate, toIsoDate } from "@shared/winDates";
+import TagInput from "./TagInput";
+import { useCategorySuggestion } from "@/hooks/useCategorySuggestion";
 
 type PerformanceCategory = typeof PERFORMANCE_CATEGORIES[number];
 type ActionVerb = typeof ACTION_SUGGESTIONS[number];
@@ -25,6 +29,12 @@ const winSchema = z.object({
   action: z.string().min(10, "Action must be at least 10 characters").max(350, "Action cannot exceed 350 characters"),
   impact: z.string().min(10, "Impact must be at least 10 characters").max(350, "Impact cannot exceed 350 characters"),
   result: z.string().min(10, "Result must be at least 10 characters").max(350, "Result cannot exceed 350 characters"),
+  occurredOn: z.string().regex(ISO_DATE_PATTERN, "Pick the date this happened"),
+  endedOn: z.string().optional(),
+  tags: z.array(z.string()),
+}).refine(data => !data.endedOn || data.endedOn >= data.occurredOn, {
+  message: "End date cannot be before the start date",
+  path: ["endedOn"],
 });
 
 type WinFormData = z.infer<typeof winSchema>;
@@ -33,7 +43,11 @@ type WinFormData = z.infer<typeof winSchema>;
 const BENEFICIARY_OPTIONS = ['Self', 'Team', 'Unit', 'Mission'];
 const OUTCOME_OPTIONS = ['Readiness ↑', 'Efficiency ↑', 'Cost ↓', 'Risk ↓', 'Training ↑'];
 
-export default function WinsScreen() {
+interface WinsScreenProps {
+  onOpenImport?: () => void;
+}
+
+export default function WinsScreen({ onOpenImport }: WinsScreenProps = {}) {
   const [showResultWizard, setShowResultWizard] = useState(false);
   const [wizardBeneficiary, setWizardBeneficiary] = useState("");
   const [wizardOutcome, setWizardOutcome] = useState("");
@@ -53,6 +67,9 @@ export default function WinsScreen() {
       action: "",
       impact: "",
       result: "",
+      occurredOn: toIsoDate(new Date()),
+      endedOn: "",
+      tags: [],
     },
   });
 
@@ -64,7 +81,10 @@ export default function WinsScreen() {
 
   const createWinMutation = useMutation({
     mutationFn: async (data: WinFormData) => {
-      const response = await apiRequest("POST", "/api/wins", data);
+      const response = await apiRequest("POST", "/api/wins", {
+        ...data,
+        endedOn: data.endedOn || null,
+      });
       return response.json();
     },
     onSuccess: () => {
@@ -79,10 +99,14 @@ export default function WinsScreen() {
         action: "",
         impact: "",
         result: "",
+        occurredOn: toIsoDate(new Date()),
+        endedOn: "",
+        tags: [],
       });
       setWizardBeneficiary("");
       setWizardOutcome("");
       queryClient.invalidateQueries({ queryKey: ["/api/wins"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
     },
     onError: (error) => {
       if (isUnauthorizedError(error)) {
@@ -160,6 +184,17 @@ export default function WinsScreen() {
                          currentValues.impact?.trim().length >= 10 && 
                          currentValues.result?.trim().length >= 10;
 
+  const categorySuggestion = useCategorySuggestion({
+    action: currentValues.action ?? "",
+    impact: currentValues.impact ?? "",
+    result: currentValues.result ?? "",
+  });
+  const suggestedCategories = categorySuggestion
+    ? [categorySuggestion, categorySuggestion.alternative].filter(
+        (choice): choice is NonNullable<typeof choice> => !!choice && choice.category !== currentValues.category
+      )
+    : [];
+
   // Visual stitching preview
   const getAIRPreview = () => {
     const { action, impact, result } = currentValues;
@@ -213,8 +248,8 @@ export default function WinsScreen() {
 
   const totalWins = (wins as any[]).length;
   const thisWeekWins = (wins as any[]).filter((win: any) => {
-    if (!win.createdAt) return false;
-    const winDate = new Date(win.createdAt);
+    const winDate = getWinDate(win);
+    if (!winDate) return false;
     const weekAgo = new Date();
     weekAgo.setDate(weekAgo.getDate() - 7);
     return winDate > weekAgo;
@@ -227,6 +262,12 @@ export default function WinsScreen() {
         <div className="text-center">
           <h1 className="text-2xl font-bold text-foreground">Add Performance Win</h1>
           <p className="text-sm text-muted-foreground">Capture your Action-Impact-Result in under 20 seconds</p>
+          {onOpenImport && (
+            <Button variant="link" size="sm" onClick={onOpenImport} data-testid="button-open-import">
+              <FileUp className="w-4 h-4 mr-1" />
+              Import from spreadsheet
+            </Button>
+          )}
         </div>
 
         <Form {...form}>
@@ -266,6 +307,25 @@ export default function WinsScreen() {
                 <p className="text-xs text-muted-foreground mt-2">
                   {CATEGORY_TIPS[currentValues.category as keyof typeof CATEGORY_TIPS]}
                 </p>
+                {categorySuggestion && suggestedCategories.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 mt-3 text-xs text-muted-foreground" data-testid="category-suggestion">
+                    <Sparkles className="w-3 h-3 text-primary" />
+                    <span>{categorySuggestion.category === currentValues.category ? "Could also fit:" : "Suggested:"}</span>
+                    {suggestedCategories.map((choice) => (
+                      <Button
+                        key={choice.category}
+                        type="button"
+                        size="sm"
+                        variant={choice.category === categorySuggestion.category ? "default" : "outline"}
+                        className="h-6 px-2 text-xs rounded-full"
+                        onClick={() => form.setValue("category", choice.category, { shouldDirty: true })}
+                        data-testid={`button-suggested-category-${choice.category.toLowerCase().replace(/\s+/g, "-")}`}
+                      >
+                        {choice.category} ({Math.round(choice.confidence * 100)}%)
+                      </Button>
+                    ))}
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -466,6 +526,52 @@ export default function WinsScreen() {
                     )}
                   />
                 </div>
+
+                {/* Accomplishment Dates */}
+                <div className="grid grid-cols-2 gap-3">
+                  <FormField
+                    control={form.control}
+                    name="occurredOn"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-medium text-foreground">Date *</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} data-testid="input-occurred-on" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="endedOn"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-medium text-foreground">End date</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} min={currentValues.occurredOn} data-testid="input-ended-on" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground -mt-3">
+                  When it happened, not when you logged it. Add an end date for efforts that spanned several weeks.
+                </p>
+
+                {/* Tags */}
+                <FormField
+                  control={form.control}
+                  name="tags"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-foreground">Tags</FormLabel>
+                      <TagInput value={field.value} onChange={field.onChange} />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </CardContent>
             </Card>
 
@@ -0,0 +1,39 @@
+import { useMemo } from "react";
+import { measureFormFit } from "@shared/formWidth";
+
+interface FormFitIndicatorProps {
+  text: string;
+  // Show a fill bar for each form line
+  showLines?: boolean;
+  className?: string;
+}
+
+export default function FormFitIndicator({ text, showLines = false, className = "" }: FormFitIndicatorProps) {
+  const fit = useMemo(() => measureFormFit(text), [text]);
+  const lineSummary = fit.lines
+    .map((width, index) => `Line ${index + 1}: ${Math.round((width / fit.lineWidthPx) * 100)}%`)
+    .join('\n');
+
+  return (
+    <span className={`inline-flex flex-col gap-1 ${className}`} data-testid="form-fit-indicator">
+      <span
+        className={`text-xs ${fit.fits ? 'text-green-600' : 'text-destructive'}`}
+        title={lineSummary || undefined}
+      >
+        {fit.fits ? `Fits form · ${fit.remainingPx} px to spare` : `Over form by ${fit.overflowPx} px`}
+      </span>
+      {showLines && fit.lines.length > 0 && (
+        <span className="flex flex-col gap-0.5 w-32">
+          {fit.lines.map((width, index) => (
+            <span key={index} className="h-1 w-full rounded bg-muted overflow-hidden">
+              <span
+                className={`block h-full ${index < fit.maxLines ? 'bg-primary' : 'bg-destructive'}`}
+                style={{ width: `${Math.min(100, (width / fit.lineWidthPx) * 100)}%` }}
+              />
+            </span>
+          ))}
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { CategorySuggestion, WinText } from "@shared/categorize";
+
+const SUGGESTION_DEBOUNCE_MS = 800;
+// Below this there isn't enough text to classify
+const MIN_SUGGESTION_TEXT = 10;
+
+// Performance area suggested for an entry as it is typed
+export function useCategorySuggestion(win: WinText) {
+  const [debounced, setDebounced] = useState(win);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(win), SUGGESTION_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [win.action, win.impact, win.result]);
+
+  const { data } = useQuery<CategorySuggestion>({
+    queryKey: ["/api/wins/categorize", debounced],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/wins/categorize", debounced);
+      return response.json();
+    },
+    enabled: `${debounced.action} ${debounced.impact} ${debounced.result}`.trim().length >= MIN_SUGGESTION_TEXT,
+    retry: false,
+  });
+
+  return data;
+}
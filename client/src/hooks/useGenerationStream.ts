@@ -0,0 +1,170 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { apiRequest, isAbortError, StreamDisconnectedError, streamRequest } from "@/lib/queryClient";
+import type { GenerationProgressEvent, GenerationStage, GenerationStageStatus, JobRetryEvent } from "@shared/generationStream";
+import type { GenerationJobView, JobRequestInput } from "@shared/jobs";
+
+export { isAbortError };
+
+export interface StageProgress {
+  stage: GenerationStage;
+  status: GenerationStageStatus;
+  // Text written so far, or the stage's result once done
+  text: string;
+}
+
+// The job a screen is waiting on, kept for the tab's session so a reload or a
+// return to the screen picks it back up. purpose tells the screen what the
+// result is for when two runs share a job kind.
+interface PendingJob {
+  id: string;
+  purpose: string;
+}
+
+interface ResumeHandlers {
+  onResult?: (purpose: string, result: any) => void;
+  onError?: (purpose: string, error: Error) => void;
+}
+
+const STORAGE_PREFIX = "generation-job:";
+const MAX_RECONNECTS = 8;
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 15_000;
+
+function readPendingJob(key: string): PendingJob | null {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_PREFIX + key);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+function applyProgress(stages: StageProgress[], event: GenerationProgressEvent): StageProgress[] {
+  const existing = stages.find(progress => progress.stage === event.stage);
+  const current = existing ?? { stage: event.stage, status: 'started' as const, text: "" };
+
+  let next: StageProgress;
+  if (event.type === 'token') next = { ...current, text: current.text + event.text };
+  else if (event.status === 'retrying') next = { ...current, status: 'retrying', text: "" };
+  else next = { ...current, status: event.status, text: event.text ?? current.text };
+
+  return existing ? stages.map(progress => progress === existing ? next : progress) : [...stages, next];
+}
+
+function waitFor(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+// Runs one generation job at a time for a screen (key) and tracks each stage's
+// progress. The job runs on the server (shared/jobs.ts): a dropped connection
+// reconnects to it, and leaving the screen only stops following it, so the
+// result is picked up when the screen comes back and handed to handlers.
+// Starting another run or calling cancel() cancels the job in flight.
+export function useGenerationStream(key: string, handlers: ResumeHandlers = {}) {
+  const [stages, setStages] = useState<StageProgress[]>([]);
+  const [retry, setRetry] = useState<JobRetryEvent | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+  const jobRef = useRef<PendingJob | null>(null);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  const storageKey = STORAGE_PREFIX + key;
+
+  // Follows the job's events until its result or error, reconnecting with
+  // backoff while the connection keeps dropping
+  const follow = useCallback(async <T,>(job: PendingJob): Promise<T> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    jobRef.current = job;
+    setIsStreaming(true);
+
+    try {
+      for (let reconnects = 0; ; reconnects++) {
+        setStages([]);
+        setRetry(null);
+        try {
+          const result = await streamRequest<T>("GET", `/api/jobs/${job.id}/events`, undefined, {
+            signal: controller.signal,
+            onProgress: event => setStages(previous => applyProgress(previous, event)),
+            onRetry: event => {
+              setStages([]);
+              setRetry(event);
+            },
+          });
+          sessionStorage.removeItem(storageKey);
+          return result;
+        } catch (error) {
+          if (error instanceof StreamDisconnectedError && reconnects < MAX_RECONNECTS) {
+            await waitFor(Math.min(RECONNECT_BASE_MS * 2 ** reconnects, RECONNECT_MAX_MS), controller.signal);
+            continue;
+          }
+          // Leaving the screen keeps the job to resume later
+          if (!isAbortError(error)) sessionStorage.removeItem(storageKey);
+          throw error;
+        }
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        jobRef.current = null;
+        setIsStreaming(false);
+      }
+    }
+  }, [storageKey]);
+
+  const cancel = useCallback(() => {
+    const job = jobRef.current;
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    jobRef.current = null;
+    setIsStreaming(false);
+    if (job) {
+      sessionStorage.removeItem(storageKey);
+      apiRequest("DELETE", `/api/jobs/${job.id}`).catch(error => console.error("Failed to cancel generation job:", error));
+    }
+  }, [storageKey]);
+
+  const run = useCallback(async <T,>(request: JobRequestInput, purpose: string = request.kind): Promise<T> => {
+    cancel();
+    setStages([]);
+    setIsStreaming(true);
+    let view: GenerationJobView;
+    try {
+      const response = await apiRequest("POST", "/api/jobs", request);
+      view = await response.json();
+    } catch (error) {
+      setIsStreaming(false);
+      throw error;
+    }
+    const job = { id: view.id, purpose };
+    sessionStorage.setItem(storageKey, JSON.stringify(job));
+    return await follow<T>(job);
+  }, [cancel, follow, storageKey]);
+
+  // The job left running when the screen was last open, if any
+  const pendingJob = useCallback(() => readPendingJob(key), [key]);
+
+  useEffect(() => {
+    const pending = readPendingJob(key);
+    if (pending) {
+      follow(pending).then(
+        result => handlersRef.current.onResult?.(pending.purpose, result),
+        error => {
+          if (!isAbortError(error)) handlersRef.current.onError?.(pending.purpose, error);
+        },
+      );
+    }
+    return () => controllerRef.current?.abort();
+  }, [key, follow]);
+
+  return { stages, retry, isStreaming, run, cancel, pendingJob };
+}
@@ -0,0 +1,59 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useInfiniteQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { RatingPeriodFilter } from "@shared/ratingPeriods";
+import type { WinUsageFilter } from "@shared/lineage";
+import type { SearchPage, SearchType } from "@shared/search";
+
+export interface LibrarySearchFilters {
+  q: string;
+  category: string; // "all" for any
+  tags: string[];
+  ratingPeriod: RatingPeriodFilter;
+  usage?: WinUsageFilter;
+  completed?: boolean;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// One tab of the Library backed by GET /api/search. The query text is debounced
+// and the previous results stay on screen while the next ones load. Invalidate
+// ["/api/search"] after changing wins or statements.
+export function useLibrarySearch<T>(type: SearchType, filters: LibrarySearchFilters) {
+  const [q, setQ] = useState(filters.q.trim());
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setQ(filters.q.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [filters.q]);
+
+  const query = useInfiniteQuery({
+    queryKey: ["/api/search", type, { ...filters, q }],
+    queryFn: async ({ pageParam }): Promise<SearchPage<T>> => {
+      const params = new URLSearchParams({ type, ratingPeriod: filters.ratingPeriod });
+      if (q) params.set("q", q);
+      if (filters.category !== "all") params.set("category", filters.category);
+      if (filters.usage && filters.usage !== "all") params.set("usage", filters.usage);
+      if (filters.completed !== undefined) params.set("completed", String(filters.completed));
+      filters.tags.forEach(tag => params.append("tags", tag));
+      if (pageParam) params.set("cursor", pageParam);
+      const response = await apiRequest("GET", `/api/search?${params}`);
+      return response.json();
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    placeholderData: keepPreviousData,
+    // Other screens only invalidate their own queries, so re-check on every visit
+    staleTime: 0,
+    retry: false,
+  });
+
+  return {
+    hits: query.data?.pages.flatMap(page => page.hits) ?? [],
+    total: query.data?.pages[0]?.total ?? 0,
+    isLoading: query.isLoading,
+    hasNextPage: query.hasNextPage,
+    isFetchingNextPage: query.isFetchingNextPage,
+    fetchNextPage: query.fetchNextPage,
+  };
+}
@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { RatingPeriod } from "@shared/schema";
+import { findCurrentPeriod, type RatingPeriodFilter } from "@shared/ratingPeriods";
+
+const STORAGE_KEY = "ratingPeriodFilter";
+
+// The member's rating periods plus the switcher selection, which is remembered
+// across screens and visits. Without a saved choice the current period is
+// selected, or every non-archived period when today isn't inside one.
+export function useRatingPeriods() {
+  const { data: periods = [], isLoading } = useQuery<RatingPeriod[]>({
+    queryKey: ["/api/rating-periods"],
+    retry: false,
+  });
+
+  const [filter, setFilterState] = useState<RatingPeriodFilter | null>(() => localStorage.getItem(STORAGE_KEY));
+
+  // Drop a saved period that has since been deleted
+  useEffect(() => {
+    if (isLoading || !filter || filter === 'active' || filter === 'all') return;
+    if (!periods.some(period => period.id === filter)) {
+      localStorage.removeItem(STORAGE_KEY);
+      setFilterState(null);
+    }
+  }, [filter, periods, isLoading]);
+
+  const setFilter = (value: RatingPeriodFilter) => {
+    localStorage.setItem(STORAGE_KEY, value);
+    setFilterState(value);
+  };
+
+  return {
+    periods,
+    isLoading,
+    filter: filter ?? findCurrentPeriod(periods)?.id ?? 'active',
+    setFilter,
+  };
+}
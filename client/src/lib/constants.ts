@@ -42,7 +42,7 @@ export const CATEGORY_TIPS = {
   'Personal Development': "Tip: Focus on personal growth, training, or skill development."
 };
 
-export const MAX_STATEMENT_LENGTH = 350;
+export { MAX_STATEMENT_LENGTH } from "@shared/statementLint";
 
 // Result templates by category
 export const RESULT_TEMPLATES = {
@@ -1,4 +1,8 @@
 import type { Win, PerformanceCategory } from "@shared/schema";
+import { getWinDate } from "@shared/winDates";
+
+// Every metric buckets a win by its accomplishment date (occurredOn), not by
+// when it was entered; multi-week efforts count toward the week they started.
 
 // Get ISO week number for a date
 export function getWeekNumber(date: Date): number {
@@ -41,8 +45,8 @@ export function calculateWeeklyTrend(wins: Win[]): { week: string; count: number
     const weekDate = new Date(currentDate.getTime() - (i * 7 * 24 * 60 * 60 * 1000));
     const weekNumber = getWeekNumber(weekDate);
     const weekWins = wins.filter(win => {
-      if (!win.createdAt) return false;
-      const winDate = new Date(win.createdAt);
+      const winDate = getWinDate(win);
+      if (!winDate) return false;
       return getWeekNumber(winDate) === weekNumber && winDate.getFullYear() === weekDate.getFullYear();
     });
     
@@ -60,10 +64,10 @@ export function calculateSimpleStreak(wins: Win[]): number {
   if (wins.length === 0) return 0;
   
   // Sort wins by date descending
-  const validWins = wins.filter(win => win.createdAt);
+  const validWins = wins.filter(win => getWinDate(win));
   const sortedWins = validWins.sort((a, b) => {
-    const dateA = new Date(a.createdAt!).getTime();
-    const dateB = new Date(b.createdAt!).getTime();
+    const dateA = getWinDate(a)!.getTime();
+    const dateB = getWinDate(b)!.getTime();
     return dateB - dateA;
   });
   
@@ -76,8 +80,8 @@ export function calculateSimpleStreak(wins: Win[]): number {
   // Group wins by week
   const weeklyWins = new Map<string, Win[]>();
   sortedWins.forEach(win => {
-    if (!win.createdAt) return;
-    const winDate = new Date(win.createdAt);
+    const winDate = getWinDate(win);
+    if (!winDate) return;
     const weekKey = `${winDate.getFullYear()}-${getWeekNumber(winDate)}`;
     if (!weeklyWins.has(weekKey)) {
       weeklyWins.set(weekKey, []);
@@ -112,8 +116,8 @@ export function calculateSimpleStreak(wins: Win[]): number {
 // Filter wins by date range
 export function filterWinsByDateRange(wins: Win[], startDate: Date, endDate: Date): Win[] {
   return wins.filter(win => {
-    if (!win.createdAt) return false;
-    const winDate = new Date(win.createdAt);
+    const winDate = getWinDate(win);
+    if (!winDate) return false;
     return winDate >= startDate && winDate <= endDate;
   });
 }
@@ -125,8 +129,8 @@ export function getWinsThisWeek(wins: Win[]): Win[] {
   const currentYear = currentDate.getFullYear();
   
   return wins.filter(win => {
-    if (!win.createdAt) return false;
-    const winDate = new Date(win.createdAt);
+    const winDate = getWinDate(win);
+    if (!winDate) return false;
     return getWeekNumber(winDate) === currentWeek && winDate.getFullYear() === currentYear;
   });
 }
@@ -138,8 +142,8 @@ export function getWinsThisMonth(wins: Win[]): Win[] {
   const currentYear = currentDate.getFullYear();
   
   return wins.filter(win => {
-    if (!win.createdAt) return false;
-    const winDate = new Date(win.createdAt);
+    const winDate = getWinDate(win);
+    if (!winDate) return false;
     return winDate.getMonth() === currentMonth && winDate.getFullYear() === currentYear;
   });
 }
\ No newline at end of file
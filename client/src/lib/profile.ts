@@ -1,72 +1,10 @@
-import { differenceInDays, addYears, parseISO, format } from 'date-fns';
-import type { UserProfile, Rank, DueDateStatus } from '@shared/types';
+import { differenceInDays } from 'date-fns';
+import type { UserProfile, Rank } from '@shared/types';
+import { RANK_NAMES } from '@shared/ranks';
 
 // Get rank name with full title
 export function getRankName(rank: Rank): string {
-  const rankNames: Record<Rank, string> = {
-    'E-1': 'Airman Basic',
-    'E-2': 'Airman',
-    'E-3': 'Airman First Class',
-    'E-4': 'Senior Airman',
-    'E-5': 'Staff Sergeant',
-    'E-6': 'Technical Sergeant',
-    'E-7': 'Master Sergeant',
-    'E-8': 'Senior Master Sergeant',
-    'E-9': 'Chief Master Sergeant',
-  };
-  return rankNames[rank] || rank;
-}
-
-// Calculate EPB due date based on rank defaults or custom date
-export function calculateDueDate(profile: UserProfile): Date {
-  if (!profile.useRankDefaultDue && profile.customDueDate) {
-    return parseISO(profile.customDueDate);
-  }
-  
-  // Default EPB due dates based on rank (simplified example)
-  // In reality, this would be more complex based on promotion cycles
-  const currentYear = new Date().getFullYear();
-  const rankDueDates: Record<Rank, Date> = {
-    'E-1': new Date(currentYear + 1, 2, 31), // March 31
-    'E-2': new Date(currentYear + 1, 2, 31), // March 31
-    'E-3': new Date(currentYear + 1, 2, 31), // March 31
-    'E-4': new Date(currentYear + 1, 2, 31), // March 31
-    'E-5': new Date(currentYear + 1, 1, 28), // February 28
-    'E-6': new Date(currentYear + 1, 1, 28), // February 28
-    'E-7': new Date(currentYear + 1, 0, 31), // January 31
-    'E-8': new Date(currentYear + 1, 0, 31), // January 31
-    'E-9': new Date(currentYear + 1, 0, 31), // January 31
-  };
-  
-  return rankDueDates[profile.rank] || new Date(currentYear + 1, 2, 31);
-}
-
-// Get days until due date
-export function getDaysUntilDue(profile: UserProfile): number {
-  const dueDate = calculateDueDate(profile);
-  const today = new Date();
-  return differenceInDays(dueDate, today);
-}
-
-// Get due date status for color coding
-export function getDueDateStatus(daysLeft: number): DueDateStatus {
-  if (daysLeft < 30) return 'urgent';
-  if (daysLeft < 90) return 'caution';
-  return 'neutral';
-}
-
-// Calculate progress percentage to due date (0-100%)
-export function getDueDateProgress(profile: UserProfile): number {
-  const dueDate = calculateDueDate(profile);
-  const today = new Date();
-  
-  // Calculate from one year ago to due date for 100% scale
-  const yearAgo = addYears(dueDate, -1);
-  const totalDays = differenceInDays(dueDate, yearAgo);
-  const daysPassed = differenceInDays(today, yearAgo);
-  
-  const progress = Math.max(0, Math.min(100, (daysPassed / totalDays) * 100));
-  return Math.round(progress);
+  return RANK_NAMES[rank] || rank;
 }
 
 // Calculate user level based on XP
@@ -88,12 +26,6 @@ export function getLevelProgress(totalXP: number, currentLevel: number): number
   return Math.min(100, (currentLevelXP / 100) * 100);
 }
 
-// Format due date for display
-export function formatDueDate(profile: UserProfile): string {
-  const dueDate = calculateDueDate(profile);
-  return format(dueDate, 'MMM dd, yyyy');
-}
-
 // Calculate weekly goal progress
 export function getWeeklyGoalProgress(winsThisWeek: number, weeklyGoal: number): number {
   return Math.min(100, (winsThisWeek / weeklyGoal) * 100);
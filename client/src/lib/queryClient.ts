@@ -1,4 +1,5 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import type { GenerationProgressEvent, JobRetryEvent } from "@shared/generationStream";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -23,6 +24,97 @@ export async function apiRequest(
   return res;
 }
 
+// The event stream ended, or the network failed, before a result or error
+// arrived; the work may still be running on the server
+export class StreamDisconnectedError extends Error {}
+
+// True for the rejection of a request whose signal was aborted
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+// Reads a Server-Sent Events response from one of the /stream generation
+// endpoints or /api/jobs/:id/events, passing progress on as it arrives.
+// Resolves with the result event; rejects on an error event, or with
+// StreamDisconnectedError if the connection drops first. Aborting signal
+// closes the connection, which cancels a /stream generation on the server but
+// leaves a job running.
+export async function streamRequest<T>(
+  method: string,
+  url: string,
+  data?: unknown,
+  options: {
+    signal?: AbortSignal;
+    onProgress?: (event: GenerationProgressEvent) => void;
+    onRetry?: (event: JobRetryEvent) => void;
+  } = {},
+): Promise<T> {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method,
+      headers: data ? { "Content-Type": "application/json", Accept: "text/event-stream" } : { Accept: "text/event-stream" },
+      body: data ? JSON.stringify(data) : undefined,
+      credentials: "include",
+      signal: options.signal,
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new StreamDisconnectedError((error as Error).message);
+  }
+
+  await throwIfResNotOk(res);
+  if (!res.body) throw new Error("Streaming is not supported by this browser");
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    let chunk: ReadableStreamReadResult<Uint8Array>;
+    try {
+      chunk = await reader.read();
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new StreamDisconnectedError((error as Error).message);
+    }
+    if (chunk.done) break;
+    buffer += decoder.decode(chunk.value, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) >= 0) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = "message";
+      const dataLines: string[] = [];
+      for (const line of block.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) dataLines.push(line.slice(5).trimStart());
+      }
+      if (dataLines.length === 0) continue;
+      const payload = JSON.parse(dataLines.join("\n"));
+
+      if (event === "progress") options.onProgress?.(payload);
+      else if (event === "retry") options.onRetry?.(payload);
+      else if (event === "result") return payload as T;
+      else if (event === "error") throw new Error(payload.message);
+    }
+  }
+
+  throw new StreamDisconnectedError("The connection closed before generation finished");
+}
+
+// Server-provided message from an error thrown by apiRequest ("400: {"message":"..."}")
+export function getApiErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+: /, '');
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -9,9 +9,10 @@ import LibraryScreen from "../components/LibraryScreen";
 import ExportScreen from "../components/ExportScreen";
 import AccountScreen from "../components/AccountScreen";
 import RefinementScreen from "../components/RefinementScreen";
+import ImportScreen from "../components/ImportScreen";
 import { Shield } from "lucide-react";
 
-type Screen = 'wins' | 'statements' | 'library' | 'export' | 'account' | 'refinement';
+type Screen = 'wins' | 'statements' | 'library' | 'export' | 'account' | 'refinement' | 'import';
 
 export default function Home() {
   const { isAuthenticated, isLoading } = useAuth();
@@ -23,7 +24,7 @@ export default function Home() {
   useEffect(() => {
     const handleHashChange = () => {
       const hash = window.location.hash.replace('#', '');
-      if (['wins', 'statements', 'library', 'export', 'account'].includes(hash)) {
+      if (['wins', 'statements', 'library', 'export', 'account', 'import'].includes(hash)) {
         setActiveScreen(hash as Screen);
       }
     };
@@ -75,7 +76,7 @@ export default function Home() {
   const renderScreen = () => {
     switch (activeScreen) {
       case 'wins':
-        return <WinsScreen />;
+        return <WinsScreen onOpenImport={() => setActiveScreen('import')} />;
       case 'statements':
         return <StatementsScreen onStartRefinement={handleStartRefinement} />;
       case 'library':
@@ -91,8 +92,10 @@ export default function Home() {
             onComplete={handleCompleteRefinement}
           />
         );
+      case 'import':
+        return <ImportScreen onDone={() => setActiveScreen('wins')} />;
       default:
-        return <WinsScreen />;
+        return <WinsScreen onOpenImport={() => setActiveScreen('import')} />;
     }
   };
 
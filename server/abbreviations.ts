@@ -0,0 +1,17 @@
+import { z } from "zod";
+import { GLOBAL_ABBREVIATIONS, mergeDictionary, type AbbreviationEntry } from "@shared/abbreviations";
+import { MAX_STATEMENT_LENGTH } from "@shared/statementLint";
+import { storage } from "./storage";
+
+const MAX_TEXT_LENGTH = 5000;
+
+// Body of the compress/expand/acronyms endpoints
+export const abbreviationTextSchema = z.object({
+  text: z.string().max(MAX_TEXT_LENGTH, `Text can be at most ${MAX_TEXT_LENGTH} characters`),
+  targetLength: z.number().int().min(1).max(MAX_TEXT_LENGTH).default(MAX_STATEMENT_LENGTH),
+});
+
+// Global list with the member's own entries taking precedence
+export async function getUserDictionary(userId: string): Promise<AbbreviationEntry[]> {
+  return mergeDictionary(GLOBAL_ABBREVIATIONS, await storage.getAbbreviationsByUserId(userId));
+}
@@ -0,0 +1,95 @@
+import { accountBackupSchema, BACKUP_FORMAT, BACKUP_VERSION, type AccountBackup, type AccountBackupArchive } from "@shared/backup";
+import { storage } from "./storage";
+
+// Raised when an uploaded archive can't be restored as-is
+export class BackupFormatError extends Error {}
+
+export async function buildAccountBackup(userId: string): Promise<AccountBackupArchive> {
+  const [user, wins, statements, refinementSessions, statementVersions, ratingPeriods, winTags, statementTags, abbreviations] = await Promise.all([
+    storage.getUser(userId),
+    storage.getWinsByUserId(userId),
+    storage.getStatementsByUserId(userId),
+    storage.getRefinementSessionsByUserId(userId),
+    storage.getStatementVersionsByUserId(userId),
+    storage.getRatingPeriodsByUserId(userId),
+    storage.getWinTagNames(userId),
+    storage.getStatementTagNames(userId),
+    storage.getAbbreviationsByUserId(userId),
+  ]);
+
+  const statementIds = new Set(statements.map(statement => statement.id));
+
+  // Identity fields (email, names, avatar) belong to the login provider and are
+  // deliberately left out so an archive can be restored into a different account
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date(),
+    profile: {
+      username: user?.username,
+      rank: user?.rank,
+      afsc: user?.afsc,
+      shred: user?.shred,
+      skillLevel: user?.skillLevel,
+      totalXP: user?.totalXP,
+      level: user?.level,
+      currentStreak: user?.currentStreak,
+      maxStreak: user?.maxStreak,
+      badges: user?.badges,
+      weeklyGoal: user?.weeklyGoal,
+      yearlyGoals: user?.yearlyGoals,
+      useRankDefaultDue: user?.useRankDefaultDue,
+      customDueDate: user?.customDueDate,
+      dailyReminderEnabled: user?.dailyReminderEnabled,
+      dailyReminderTime: user?.dailyReminderTime,
+      dailyReminderDays: user?.dailyReminderDays,
+    },
+    // Period assignments are derived from dates and recomputed on restore
+    wins: wins.map(({ userId: _userId, ratingPeriodId: _period, deletedAt: _deleted, ...win }) => ({
+      ...win,
+      tags: winTags.get(win.id) ?? [],
+    })),
+    statements: statements.map(({ userId: _userId, ratingPeriodId: _period, deletedAt: _deleted, ...statement }) => ({
+      ...statement,
+      audience: statement.audience as AccountBackup['statements'][number]['audience'],
+      tags: statementTags.get(statement.id) ?? [],
+    })),
+    // The Trash is not backed up, so neither is the history of trashed statements
+    refinementSessions: refinementSessions
+      .filter(session => statementIds.has(session.statementId))
+      .map(({ userId: _userId, ...session }) => session),
+    statementVersions: statementVersions
+      .filter(version => statementIds.has(version.statementId))
+      .map(({ userId: _userId, ...version }) => ({
+        ...version,
+        source: version.source as AccountBackup['statementVersions'][number]['source'],
+      })),
+    ratingPeriods: ratingPeriods.map(({ userId: _userId, ...period }) => ({
+      ...period,
+      status: period.status as AccountBackup['ratingPeriods'][number]['status'],
+    })),
+    abbreviations: abbreviations.map(({ term, abbreviation, kind, createdAt }) => ({
+      term,
+      abbreviation,
+      kind: kind as AccountBackup['abbreviations'][number]['kind'],
+      createdAt,
+    })),
+  };
+}
+
+export function parseAccountBackup(raw: unknown): AccountBackup {
+  const header = raw as { format?: unknown; version?: unknown } | null;
+  if (!header || typeof header !== 'object' || header.format !== BACKUP_FORMAT) {
+    throw new BackupFormatError('This file is not an AF Performance Tracker backup');
+  }
+  if (typeof header.version !== 'number' || header.version > BACKUP_VERSION) {
+    throw new BackupFormatError(`Backup version ${String(header.version)} is not supported by this version of the app`);
+  }
+
+  const parsed = accountBackupSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new BackupFormatError(`Backup is damaged: ${issue.path.join('.')}: ${issue.message}`);
+  }
+  return parsed.data;
+}
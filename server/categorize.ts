@@ -0,0 +1,48 @@
+import { isPerformanceCategory, suggestCategoryByKeywords, type CategorySuggestion, type WinCategorySuggestion, type WinText } from "@shared/categorize";
+import type { Win } from "@shared/schema";
+import { llmProvider } from "./llm";
+import { classifyWinCategory } from "./openai";
+
+// Wins classified at once when reviewing the Library
+const RECATEGORIZE_CONCURRENCY = 4;
+
+function clampConfidence(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.round(Math.min(1, Math.max(0, value)) * 100) / 100 : 0;
+}
+
+// LLM suggestion when a provider is configured, keyword scoring offline or when
+// the model fails or answers with something that isn't a performance area
+export async function suggestCategory(win: WinText): Promise<CategorySuggestion> {
+  if (llmProvider.name === 'offline' || !`${win.action}${win.impact}${win.result}`.trim()) {
+    return suggestCategoryByKeywords(win);
+  }
+
+  try {
+    const answer = await classifyWinCategory(win);
+    if (!isPerformanceCategory(answer.category)) return suggestCategoryByKeywords(win);
+    return {
+      category: answer.category,
+      confidence: clampConfidence(answer.confidence),
+      alternative: isPerformanceCategory(answer.alternative) && answer.alternative !== answer.category
+        ? { category: answer.alternative, confidence: clampConfidence(answer.alternativeConfidence) }
+        : null,
+      source: 'llm',
+    };
+  } catch (error) {
+    console.error("Category suggestion failed, using keywords:", error);
+    return suggestCategoryByKeywords(win);
+  }
+}
+
+export async function suggestCategories(wins: Win[]): Promise<WinCategorySuggestion[]> {
+  const suggestions: WinCategorySuggestion[] = [];
+  for (let i = 0; i < wins.length; i += RECATEGORIZE_CONCURRENCY) {
+    const batch = wins.slice(i, i + RECATEGORIZE_CONCURRENCY);
+    suggestions.push(...await Promise.all(batch.map(async win => ({
+      winId: win.id,
+      current: win.category,
+      suggestion: await suggestCategory(win),
+    }))));
+  }
+  return suggestions;
+}
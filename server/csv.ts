@@ -0,0 +1,137 @@
+import type { Win, Statement } from "@shared/schema";
+import type { Tagged } from "@shared/tags";
+
+// RFC 4180 CSV writer and reader used by export and bulk import
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+export interface CsvOptions {
+  // Prefix the output with a UTF-8 byte order mark so Excel detects the encoding
+  bom?: boolean;
+}
+
+const UTF8_BOM = '\uFEFF';
+const LINE_BREAK = '\r\n';
+
+// Quote a field only when it contains a delimiter, quote or line break; embedded
+// quotes are doubled
+export function escapeCsvField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(header: string[], rows: CsvValue[][], options: CsvOptions = {}): string {
+  const lines = [header, ...rows].map(row => row.map(escapeCsvField).join(','));
+  return (options.bom ? UTF8_BOM : '') + lines.join(LINE_BREAK) + LINE_BREAK;
+}
+
+export const EXPORT_CSV_HEADER = [
+  'Type',
+  'ID',
+  'Category',
+  'Action',
+  'Impact',
+  'Result',
+  'Statement',
+  'Status',
+  'AI Score',
+  'Source Win IDs',
+  'Date',
+  'End Date',
+  'Tags',
+];
+
+function isoDate(value: Date | string | null): string {
+  return value ? new Date(value).toISOString() : '';
+}
+
+// One row per entry followed by one row per statement. Columns that don't apply
+// to a row type are left empty so the sheet can be filtered by Type. Entries are
+// dated by their accomplishment date (YYYY-MM-DD), statements by creation time.
+export function buildExportCsv(wins: Tagged<Win>[], statements: Tagged<Statement>[], options: CsvOptions = {}): string {
+  const rows: CsvValue[][] = [
+    ...wins.map(win => [
+      'Entry',
+      win.id,
+      win.category,
+      win.action,
+      win.impact,
+      win.result,
+      '',
+      '',
+      '',
+      '',
+      win.occurredOn,
+      win.endedOn,
+      win.tags.join(';'),
+    ]),
+    ...statements.map(statement => [
+      'Statement',
+      statement.id,
+      statement.category,
+      '',
+      '',
+      '',
+      statement.content,
+      statement.isCompleted ? 'Completed' : 'Draft',
+      statement.aiScore,
+      (statement.sourceWinIds || []).join(';'),
+      isoDate(statement.createdAt),
+      '',
+      statement.tags.join(';'),
+    ]),
+  ];
+
+  return toCsv(EXPORT_CSV_HEADER, rows, options);
+}
+
+// RFC 4180 reader: quoted fields may contain commas, doubled quotes and line
+// breaks. Accepts CRLF or LF line endings and a leading BOM; blank lines are dropped.
+export function parseCsv(text: string): string[][] {
+  const input = text.startsWith(UTF8_BOM) ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field');
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
@@ -0,0 +1,153 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  Footer,
+  HeadingLevel,
+  LevelFormat,
+  Packer,
+  PageNumber,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from "docx";
+import type { ReportDocument, ReportEntry, ReportStatement } from "./reports";
+import { formatEntryDates, formatReportDate } from "./reports";
+
+const STATEMENT_NUMBERING = "statements";
+const MUTED = "555555";
+const LABEL_SHADING = "EDEDED";
+
+function statementParagraphs(statement: ReportStatement, numberingInstance: number | null): Paragraph[] {
+  const meta = [
+    statement.category,
+    statement.isCompleted ? 'Completed' : 'Draft',
+    statement.aiScore !== null ? `AI score ${statement.aiScore}/10` : null,
+    formatReportDate(statement.date),
+  ].filter(Boolean).join('  |  ');
+
+  return [
+    new Paragraph({
+      children: [new TextRun({ text: statement.content, size: 22 })],
+      ...(numberingInstance !== null
+        ? { numbering: { reference: STATEMENT_NUMBERING, level: 0, instance: numberingInstance } }
+        : {}),
+      spacing: { after: 40 },
+    }),
+    new Paragraph({
+      children: [new TextRun({ text: meta, size: 16, color: MUTED })],
+      indent: numberingInstance !== null ? { left: 720 } : undefined,
+      spacing: { after: 160 },
+    }),
+  ];
+}
+
+// One two-column table per entry: shaded label cell, editable text cell
+function entryTable(entry: ReportEntry): (Paragraph | Table)[] {
+  const row = (label: string, value: string) => new TableRow({
+    children: [
+      new TableCell({
+        width: { size: 18, type: WidthType.PERCENTAGE },
+        shading: { type: ShadingType.CLEAR, color: "auto", fill: LABEL_SHADING },
+        children: [new Paragraph({ children: [new TextRun({ text: label, bold: true, size: 20 })] })],
+      }),
+      new TableCell({
+        width: { size: 82, type: WidthType.PERCENTAGE },
+        children: [new Paragraph({ children: [new TextRun({ text: value, size: 20 })] })],
+      }),
+    ],
+  });
+
+  return [
+    new Paragraph({
+      children: [new TextRun({ text: `Entry  |  ${entry.category}  |  ${formatEntryDates(entry)}`, bold: true, size: 16, color: MUTED })],
+      spacing: { before: 120, after: 60 },
+      keepNext: true,
+    }),
+    new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: [
+        row('Action', entry.action),
+        row('Impact', entry.impact),
+        row('Result', entry.result),
+      ],
+    }),
+    new Paragraph({ children: [], spacing: { after: 120 } }),
+  ];
+}
+
+export function renderReportDocx(report: ReportDocument): Promise<Buffer> {
+  const children: (Paragraph | Table)[] = [
+    new Paragraph({ text: report.title, heading: HeadingLevel.TITLE }),
+  ];
+
+  if (report.member) {
+    children.push(new Paragraph({ children: [new TextRun({ text: report.member, size: 24 })] }));
+  }
+  children.push(new Paragraph({
+    children: [new TextRun({ text: `Generated: ${formatReportDate(report.generatedAt)}`, size: 18, color: MUTED })],
+    border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: "999999", space: 4 } },
+    spacing: { after: 240 },
+  }));
+
+  if (report.sections.length === 0) {
+    children.push(new Paragraph({
+      children: [new TextRun({ text: 'No entries or statements match the selected filters.', italics: true, color: MUTED })],
+    }));
+  }
+
+  // Each section gets its own numbering instance so statement numbers restart at 1
+  report.sections.forEach((section, sectionIndex) => {
+    children.push(new Paragraph({ text: section.heading, heading: HeadingLevel.HEADING_1, keepNext: true }));
+
+    for (const block of section.blocks) {
+      if (block.type === 'statement') {
+        children.push(...statementParagraphs(block, section.numberStatements ? sectionIndex + 1 : null));
+      } else if (block.type === 'entry') {
+        children.push(...entryTable(block));
+      } else {
+        children.push(new Paragraph({
+          children: [new TextRun({ text: block.text, italics: true, color: MUTED, size: 20 })],
+          spacing: { after: 120 },
+        }));
+      }
+    }
+  });
+
+  const doc = new Document({
+    title: report.title,
+    creator: report.member || 'AF Performance Tracker',
+    numbering: {
+      config: [{
+        reference: STATEMENT_NUMBERING,
+        levels: [{
+          level: 0,
+          format: LevelFormat.DECIMAL,
+          text: "%1.",
+          alignment: AlignmentType.START,
+          style: { paragraph: { indent: { left: 720, hanging: 360 } } },
+        }],
+      }],
+    },
+    sections: [{
+      footers: {
+        default: new Footer({
+          children: [new Paragraph({
+            alignment: AlignmentType.RIGHT,
+            children: [
+              new TextRun({ text: report.member ? `${report.member}    ` : '', size: 16, color: MUTED }),
+              new TextRun({ children: ["Page ", PageNumber.CURRENT, " of ", PageNumber.TOTAL_PAGES], size: 16, color: MUTED }),
+            ],
+          })],
+        }),
+      },
+      children,
+    }],
+  });
+
+  return Packer.toBuffer(doc);
+}
@@ -0,0 +1,116 @@
+import type { DueDateStatus, ProfileDueDates } from "@shared/types";
+import { isIsoDate, parseIsoDate, toIsoDate } from "@shared/winDates";
+
+// Static close-out dates (SCODs). Evaluations close out on the same calendar day
+// every year for everyone in a rank tier, so the table only stores month and
+// day. Keep in step with AFI 36-2406 when AFPC moves a tier.
+
+interface CloseOutDate {
+  tier: string;
+  month: number; // 1-12
+  day: number;
+}
+
+const ENLISTED_SCODS: Record<string, CloseOutDate> = {
+  'E-1': { tier: 'AB-SrA', month: 3, day: 31 },
+  'E-2': { tier: 'AB-SrA', month: 3, day: 31 },
+  'E-3': { tier: 'AB-SrA', month: 3, day: 31 },
+  'E-4': { tier: 'AB-SrA', month: 3, day: 31 },
+  'E-5': { tier: 'SSgt', month: 1, day: 31 },
+  'E-6': { tier: 'TSgt', month: 11, day: 30 },
+  'E-7': { tier: 'MSgt', month: 9, day: 30 },
+  'E-8': { tier: 'SMSgt', month: 7, day: 31 },
+  'E-9': { tier: 'CMSgt', month: 5, day: 31 },
+};
+
+// Officers and civilians aren't selectable ranks yet, but profiles carried over
+// from other tools can hold them
+const OVERRIDE_SCODS: Record<string, CloseOutDate> = {
+  'O-1': { tier: 'Lt', month: 4, day: 30 },
+  'O-2': { tier: 'Lt', month: 4, day: 30 },
+  'O-3': { tier: 'Capt', month: 1, day: 31 },
+  'O-4': { tier: 'Maj', month: 5, day: 31 },
+  'O-5': { tier: 'Lt Col', month: 3, day: 31 },
+  'O-6': { tier: 'Col', month: 8, day: 31 },
+  civilian: { tier: 'Civilian', month: 3, day: 31 },
+};
+
+const DEFAULT_SCOD: CloseOutDate = { tier: 'Default', month: 3, day: 31 };
+
+const URGENT_DAYS = 30;
+const CAUTION_DAYS = 90;
+
+interface DueDateProfile {
+  rank?: string | null;
+  useRankDefaultDue?: boolean | null;
+  customDueDate?: string | null;
+}
+
+function lookupCloseOutDate(rank?: string | null): CloseOutDate | undefined {
+  if (!rank) return undefined;
+  const key = rank.trim().toUpperCase();
+  if (ENLISTED_SCODS[key]) return ENLISTED_SCODS[key];
+  if (OVERRIDE_SCODS[key]) return OVERRIDE_SCODS[key];
+  // Civilian pay plans (GS-12, WG-10, ...) share the appraisal cycle
+  if (/^(GS|WG|WL|WS|NH|NT)-?\d+$/.test(key) || key === 'CIVILIAN') return OVERRIDE_SCODS.civilian;
+  return undefined;
+}
+
+function daysBetween(from: Date, to: Date): number {
+  const utc = (date: Date) => Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+  return Math.round((utc(to) - utc(from)) / 86_400_000);
+}
+
+function addYears(date: Date, years: number): Date {
+  return new Date(date.getFullYear() + years, date.getMonth(), date.getDate());
+}
+
+// The first occurrence of month/day on or after today
+function nextOccurrence({ month, day }: CloseOutDate, today: Date): Date {
+  const candidate = new Date(today.getFullYear(), month - 1, day);
+  return daysBetween(today, candidate) < 0 ? addYears(candidate, 1) : candidate;
+}
+
+function getDueDateStatus(daysRemaining: number): DueDateStatus {
+  if (daysRemaining < URGENT_DAYS) return 'urgent';
+  if (daysRemaining < CAUTION_DAYS) return 'caution';
+  return 'neutral';
+}
+
+export function computeDueDates(profile: DueDateProfile, now: Date = new Date()): ProfileDueDates {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  let source: ProfileDueDates['source'];
+  let tier: string;
+  let currentScod: Date;
+
+  const custom = profile.customDueDate?.slice(0, 10);
+  if (!profile.useRankDefaultDue && custom && isIsoDate(custom)) {
+    // A custom date recurs yearly once it has passed
+    source = 'custom';
+    tier = 'Custom';
+    currentScod = parseIsoDate(custom);
+    while (daysBetween(today, currentScod) < 0) {
+      currentScod = addYears(currentScod, 1);
+    }
+  } else {
+    const closeOut = lookupCloseOutDate(profile.rank);
+    source = closeOut ? 'rank' : 'default';
+    tier = (closeOut ?? DEFAULT_SCOD).tier;
+    currentScod = nextOccurrence(closeOut ?? DEFAULT_SCOD, today);
+  }
+
+  const daysRemaining = daysBetween(today, currentScod);
+  const cycleLength = daysBetween(addYears(currentScod, -1), currentScod);
+  const progress = Math.round(Math.max(0, Math.min(100, ((cycleLength - daysRemaining) / cycleLength) * 100)));
+
+  return {
+    source,
+    tier,
+    currentScod: toIsoDate(currentScod),
+    nextScod: toIsoDate(addYears(currentScod, 1)),
+    daysRemaining,
+    status: getDueDateStatus(daysRemaining),
+    progress,
+  };
+}
@@ -0,0 +1,174 @@
+import { generationAudiences, type GenerationAudience, type Statement, type Win } from "@shared/schema";
+import { normalizeTagNames, type Tagged } from "@shared/tags";
+import { buildGenerationContext, type GenerationContext } from "@shared/generationContext";
+import {
+  enhancedRegenerateStatement,
+  generateAIFeedback,
+  generateAskBackQuestions,
+  generateFirstDraft,
+  generateSeparateDrafts,
+  type GenerationStreamOptions,
+} from "./openai";
+import { getUserDictionary } from "./abbreviations";
+import { storage } from "./storage";
+import { withStatementTags } from "./tags";
+
+export type GenerationMode = 'combine' | 'separate';
+
+export class GenerationRequestError extends Error {}
+
+export interface GenerationRequest {
+  winIds: string[];
+  mode: GenerationMode;
+  audience: GenerationAudience;
+}
+
+// Body of POST /api/statements/generate and its /stream variant
+export function parseGenerationRequest(body: any): GenerationRequest {
+  const { winIds, mode = 'combine', audience = 'epb' } = body ?? {};
+  if (!Array.isArray(winIds)) {
+    throw new GenerationRequestError("No valid wins provided");
+  }
+  if (mode !== 'combine' && mode !== 'separate') {
+    throw new GenerationRequestError('mode must be "combine" or "separate"');
+  }
+  if (!generationAudiences.includes(audience)) {
+    throw new GenerationRequestError(`audience must be one of ${generationAudiences.join(', ')}`);
+  }
+  return { winIds, mode, audience };
+}
+
+// Model output saved before anything is written. A job passes one so that a
+// retry after a failed write reuses the output rather than calling the model
+// again (and, for a regeneration, rewriting text it already rewrote).
+export interface GenerationCheckpoint<T> {
+  saved?: T;
+  save(output: T): Promise<void>;
+}
+
+async function withCheckpoint<T>(checkpoint: GenerationCheckpoint<T> | undefined, generate: () => Promise<T>, stream?: GenerationStreamOptions): Promise<T> {
+  if (checkpoint?.saved !== undefined) return checkpoint.saved;
+  const output = await generate();
+  // A cancelled stream saves nothing
+  stream?.signal?.throwIfAborted();
+  await checkpoint?.save(output);
+  return output;
+}
+
+export interface DraftOutput {
+  content: string;
+  sourceWinIds: string[];
+}
+
+// The member's grade, career field and skill level from their profile, with
+// the audience the statement is written for (a statement's stored audience,
+// falling back to the EPB)
+export async function getGenerationContext(userId: string, audience?: string | null): Promise<GenerationContext> {
+  const known = generationAudiences.find(candidate => candidate === audience);
+  return buildGenerationContext(await storage.getUser(userId), known);
+}
+
+// Drafts statements from the given wins and saves each with its first version,
+// a refinement session and the tags of its source wins. "combine" writes one
+// statement from every win; "separate" writes one per win, carrying that win's
+// category. Each statement remembers its audience for the refinement prompts.
+export async function createDraftStatements(userId: string, wins: Win[], mode: GenerationMode, audience: GenerationAudience = 'epb', stream?: GenerationStreamOptions, checkpoint?: GenerationCheckpoint<DraftOutput[]>): Promise<Tagged<Statement>[]> {
+  const drafts = await withCheckpoint(checkpoint, async (): Promise<DraftOutput[]> => {
+    const context = await getGenerationContext(userId, audience);
+    return mode === 'separate'
+      ? (await generateSeparateDrafts(wins, context, stream)).map((content, index) => ({ content, sourceWinIds: [wins[index].id] }))
+      : [{ content: await generateFirstDraft(wins, context, stream), sourceWinIds: wins.map(win => win.id) }];
+  }, stream);
+
+  const winTagNames = await storage.getWinTagNames(userId, wins.map(win => win.id));
+  const createdIds = await storage.saveDraftStatements(userId, drafts.map(draft => {
+    // A saved draft whose wins have since been deleted falls back to them all
+    const found = wins.filter(win => draft.sourceWinIds.includes(win.id));
+    const sources = found.length > 0 ? found : wins;
+    return {
+      statement: {
+        userId,
+        content: draft.content,
+        category: sources[0].category,
+        sourceWinIds: sources.map(win => win.id),
+        audience,
+        isCompleted: false,
+      },
+      // The statement carries every tag of the wins it was written from
+      tags: normalizeTagNames(sources.flatMap(win => winTagNames.get(win.id) ?? [])),
+    };
+  }));
+
+  await storage.assignRatingPeriods(userId);
+  const created = await Promise.all(createdIds.map(id => storage.getStatementForUser(id, userId)));
+  return await withStatementTags(userId, created.filter((statement): statement is Statement => !!statement));
+}
+
+// Scores a statement and records the feedback on its refinement session
+export async function createStatementFeedback(userId: string, statement: Statement, stream?: GenerationStreamOptions, checkpoint?: GenerationCheckpoint<any>): Promise<any> {
+  const feedback = await withCheckpoint(checkpoint, async () =>
+    generateAIFeedback(statement.content, await getGenerationContext(userId, statement.audience), stream), stream);
+
+  const session = await storage.getRefinementSessionForUser(statement.id, userId);
+  if (session) {
+    await storage.updateRefinementSession(session.id, {
+      aiFeeds: feedback,
+      currentStep: 2,
+    });
+  }
+
+  return feedback;
+}
+
+// Follow-up questions for the statement, kept on its refinement session so a
+// returning member sees the same ones
+export async function createAskBackQuestions(userId: string, statement: Statement, stream?: GenerationStreamOptions, checkpoint?: GenerationCheckpoint<any>): Promise<any> {
+  const askBacks = await withCheckpoint(checkpoint, async () =>
+    generateAskBackQuestions(statement.content, await getGenerationContext(userId, statement.audience), stream), stream);
+
+  const session = await storage.getRefinementSessionForUser(statement.id, userId);
+  if (session) {
+    await storage.updateRefinementSession(session.id, { askBackQuestions: askBacks });
+  }
+
+  return askBacks;
+}
+
+type EnhancedRegeneration = Awaited<ReturnType<typeof enhancedRegenerateStatement>>;
+
+// Enhanced two-stage regeneration with the ask-back answers, checked against
+// the source wins. Saves the result as the statement's content, records both
+// stages as versions and moves the refinement session on, in one transaction.
+export async function regenerateStatementForUser(userId: string, statement: Statement, askBackAnswers: Record<string, string>, stream?: GenerationStreamOptions, checkpoint?: GenerationCheckpoint<EnhancedRegeneration>) {
+  const enhancedResult = await withCheckpoint(checkpoint, async () => {
+    const sourceWins = await storage.getWinsForUserByIds(statement.sourceWinIds ?? [], userId, { includeTrashed: true });
+    const context = await getGenerationContext(userId, statement.audience);
+    return await enhancedRegenerateStatement(statement.content, askBackAnswers, sourceWins, await getUserDictionary(userId), context, stream);
+  }, stream);
+
+  await storage.saveRegenerationForUser(statement.id, userId, {
+    stage1Content: enhancedResult.stage1Result,
+    stage1Score: typeof enhancedResult.aiFeedback?.score === 'number' ? Math.round(enhancedResult.aiFeedback.score) : null,
+    finalContent: enhancedResult.finalResult,
+    session: {
+      askBackAnswers,
+      enhancedSteps: {
+        stage1Result: enhancedResult.stage1Result,
+        aiFeedback: enhancedResult.aiFeedback,
+        finalResult: enhancedResult.finalResult,
+        factCheck: enhancedResult.factCheck
+      },
+      currentStep: 4,
+    },
+  });
+
+  return {
+    content: enhancedResult.finalResult,
+    factCheck: enhancedResult.factCheck,
+    intermediateSteps: {
+      stage1Result: enhancedResult.stage1Result,
+      aiFeedback: enhancedResult.aiFeedback,
+      finalResult: enhancedResult.finalResult
+    }
+  };
+}
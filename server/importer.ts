@@ -0,0 +1,247 @@
+import { insertWinSchema, performanceCategories, type InsertWin, type Win } from "@shared/schema";
+import type {
+  ImportColumnMapping,
+  ImportField,
+  ImportFormat,
+  ImportPreview,
+  ImportRowPreview,
+} from "@shared/types";
+import { toIsoDate, validateWinDateRange } from "@shared/winDates";
+import { parseCsv } from "./csv";
+
+// Bulk import of wins from spreadsheets (CSV) or JSON arrays. The same analysis
+// backs both the preview and the commit, so what the user approved is exactly
+// what gets written.
+
+export const MAX_IMPORT_ROWS = 1000;
+
+const IMPORT_FIELDS: ImportField[] = ['category', 'action', 'impact', 'result', 'date', 'endDate'];
+
+// Header names recognised when no explicit mapping is supplied (compared lowercased,
+// punctuation stripped)
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  category: ['category', 'performancearea', 'majorperformancearea', 'mpa', 'area'],
+  action: ['action', 'actions', 'accomplishment', 'whatyoudid'],
+  impact: ['impact', 'impacts', 'effect'],
+  result: ['result', 'results', 'outcome'],
+  date: ['date', 'startdate', 'occurredon', 'when', 'createdat', 'dateofaccomplishment'],
+  endDate: ['enddate', 'endedon', 'through', 'until'],
+};
+
+// Raised for payloads that can't be read at all, as opposed to per-row problems
+export class ImportFormatError extends Error {}
+
+export interface ImportAnalysis {
+  preview: ImportPreview;
+  // Valid rows ready for insertion, keyed by their preview row number
+  inserts: Map<number, InsertWin>;
+}
+
+interface ImportRecords {
+  columns: string[];
+  records: Record<string, string>[];
+}
+
+function normalizeHeader(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function stringifyCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function readCsvRecords(content: string): ImportRecords {
+  let rows: string[][];
+  try {
+    rows = parseCsv(content);
+  } catch (error) {
+    throw new ImportFormatError(`Invalid CSV: ${(error as Error).message}`);
+  }
+  if (rows.length === 0) {
+    throw new ImportFormatError('The file is empty');
+  }
+
+  const columns = rows[0].map(column => column.trim());
+  const records = rows.slice(1).map(row => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      record[column] = row[index] ?? '';
+    });
+    return record;
+  });
+  return { columns, records };
+}
+
+// Accepts a bare array of objects or an object with a `wins` array (e.g. a
+// previous JSON export)
+function readJsonRecords(content: string): ImportRecords {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new ImportFormatError('Invalid JSON');
+  }
+
+  const items = Array.isArray(parsed) ? parsed : (parsed as any)?.wins;
+  if (!Array.isArray(items)) {
+    throw new ImportFormatError('JSON must be an array of wins or an object with a "wins" array');
+  }
+
+  const columns: string[] = [];
+  const records = items.map((item, index) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      throw new ImportFormatError(`Item ${index + 1} is not an object`);
+    }
+    const record: Record<string, string> = {};
+    for (const [key, value] of Object.entries(item)) {
+      if (!columns.includes(key)) columns.push(key);
+      record[key] = stringifyCell(value);
+    }
+    return record;
+  });
+  return { columns, records };
+}
+
+export function detectColumnMapping(columns: string[]): ImportColumnMapping {
+  const mapping: ImportColumnMapping = {};
+  for (const field of IMPORT_FIELDS) {
+    const match = columns.find(column => COLUMN_ALIASES[field].includes(normalizeHeader(column)));
+    if (match) mapping[field] = match;
+  }
+  return mapping;
+}
+
+function matchCategory(value: string): string | undefined {
+  const normalized = value.trim().toLowerCase();
+  return performanceCategories.find(category => category.toLowerCase() === normalized);
+}
+
+// Accepts "YYYY-MM-DD" as-is and anything Date can read (e.g. "3/14/2024",
+// "14 Mar 2024"); returns a "YYYY-MM-DD" calendar date
+function parseImportDate(value: string): string | null {
+  const text = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : toIsoDate(date);
+}
+
+// Case- and whitespace-insensitive identity of an AIR entry
+function duplicateKey(entry: { category: string; action: string; impact: string; result: string }): string {
+  return [entry.category, entry.action, entry.impact, entry.result]
+    .map(part => part.trim().replace(/\s+/g, ' ').toLowerCase())
+    .join('\u0000');
+}
+
+export function analyzeImport(
+  userId: string,
+  format: ImportFormat,
+  content: string,
+  existingWins: Win[],
+  requestedMapping?: ImportColumnMapping,
+): ImportAnalysis {
+  if (typeof content !== 'string' || content.trim() === '') {
+    throw new ImportFormatError('Nothing to import');
+  }
+
+  const { columns, records } = format === 'JSON' ? readJsonRecords(content) : readCsvRecords(content);
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new ImportFormatError(`Imports are limited to ${MAX_IMPORT_ROWS} rows; this file has ${records.length}`);
+  }
+
+  // Explicit mappings may only point at columns that exist in the file
+  const mapping: ImportColumnMapping = requestedMapping
+    ? Object.fromEntries(Object.entries(requestedMapping).filter(([, column]) => column && columns.includes(column)))
+    : detectColumnMapping(columns);
+
+  const seen = new Map<string, string>();
+  for (const win of existingWins) {
+    seen.set(duplicateKey(win), win.id);
+  }
+
+  const rows: ImportRowPreview[] = [];
+  const inserts = new Map<number, InsertWin>();
+
+  records.forEach((record, index) => {
+    const row = index + 1;
+    const values = Object.fromEntries(
+      IMPORT_FIELDS.map(field => [field, mapping[field] ? (record[mapping[field]!] ?? '').trim() : ''])
+    ) as Record<ImportField, string>;
+    const errors: string[] = [];
+
+    for (const field of ['category', 'action', 'impact', 'result'] as const) {
+      if (!mapping[field]) errors.push(`No column mapped to ${field}`);
+      else if (!values[field]) errors.push(`${field[0].toUpperCase()}${field.slice(1)} is required`);
+    }
+
+    const category = values.category ? matchCategory(values.category) : undefined;
+    if (values.category && !category) {
+      errors.push(`Unknown category "${values.category}"`);
+    }
+
+    let occurredOn: string | null = null;
+    let endedOn: string | null = null;
+    if (values.date) {
+      occurredOn = parseImportDate(values.date);
+      if (!occurredOn) errors.push(`Unrecognised date "${values.date}"`);
+    }
+    if (values.endDate) {
+      endedOn = parseImportDate(values.endDate);
+      if (!endedOn) errors.push(`Unrecognised end date "${values.endDate}"`);
+    }
+    if (endedOn && !values.date) {
+      errors.push('End date requires a start date');
+    }
+    const rangeError = validateWinDateRange(occurredOn, endedOn);
+    if (rangeError) errors.push(rangeError);
+
+    const parsed = insertWinSchema.safeParse({
+      userId,
+      category: category ?? values.category,
+      action: values.action,
+      impact: values.impact,
+      result: values.result,
+      ...(occurredOn ? { occurredOn } : {}),
+      ...(endedOn ? { endedOn } : {}),
+    });
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        const message = `${issue.path.join('.')}: ${issue.message}`;
+        if (!errors.includes(message)) errors.push(message);
+      }
+    }
+
+    if (errors.length > 0 || !parsed.success) {
+      rows.push({ row, status: 'invalid', values, errors });
+      return;
+    }
+
+    const key = duplicateKey(parsed.data);
+    const duplicateOf = seen.get(key);
+    if (duplicateOf) {
+      rows.push({ row, status: 'duplicate', values, errors, duplicateOf });
+    } else {
+      seen.set(key, `row ${row}`);
+      rows.push({ row, status: 'valid', values, errors });
+    }
+    inserts.set(row, parsed.data);
+  });
+
+  const count = (status: ImportRowPreview['status']) => rows.filter(r => r.status === status).length;
+
+  return {
+    preview: {
+      columns,
+      mapping,
+      rows,
+      summary: {
+        total: rows.length,
+        valid: count('valid'),
+        invalid: count('invalid'),
+        duplicate: count('duplicate'),
+      },
+    },
+    inserts,
+  };
+}
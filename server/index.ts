@@ -1,9 +1,12 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { scheduleTrashPurge } from "./trash";
+import { startJobWorker } from "./jobs";
 
 const app = express();
-app.use(express.json());
+// Raised from the 100kb default so spreadsheet imports and account restores fit in one request
+app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -38,6 +41,8 @@ app.use((req, res, next) => {
 
 (async () => {
   const server = await registerRoutes(app);
+  scheduleTrashPurge();
+  startJobWorker();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -0,0 +1,284 @@
+import OpenAI from "openai";
+import type { GenerationJob, GenerationJobKind, GenerationJobStatus } from "@shared/schema";
+import type { GenerationProgressEvent, GenerationStreamEventName, JobRetryEvent } from "@shared/generationStream";
+import { jobRequestSchema, type GenerationJobView, type JobRequest, type JobStageProgress } from "@shared/jobs";
+import {
+  createAskBackQuestions,
+  createDraftStatements,
+  createStatementFeedback,
+  regenerateStatementForUser,
+  type GenerationCheckpoint,
+} from "./generation";
+import type { GenerationStreamOptions } from "./openai";
+import { storage } from "./storage";
+
+const POLL_INTERVAL_MS = 1000;
+const MAX_CONCURRENT_JOBS = 2;
+// Backoff after a failed attempt: 2s, 4s, 8s... capped at a minute, with up to
+// a quarter added at random so retries from a provider outage spread out
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 60_000;
+// A running job saves its progress at least this often, even between stages
+const JOB_HEARTBEAT_MS = 30 * 1000;
+// A running job with no heartbeat for this long belongs to a worker that went away
+const STALE_JOB_MS = 5 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+const FINISHED_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const FAILURE_MESSAGES: Record<GenerationJobKind, string> = {
+  generate: "Failed to generate statement",
+  feedback: "Failed to generate feedback",
+  askbacks: "Failed to generate ask-backs",
+  regenerate: "Failed to regenerate statement",
+};
+
+// The job's input no longer holds (its statement or wins are gone); retrying
+// would not help
+export class JobInputError extends Error {}
+
+export function isFinishedJobStatus(status: string): boolean {
+  return status === "succeeded" || status === "failed" || status === "cancelled";
+}
+
+export function toJobView(job: GenerationJob): GenerationJobView {
+  return {
+    id: job.id,
+    kind: job.kind as GenerationJobKind,
+    status: job.status as GenerationJobStatus,
+    statementId: job.statementId,
+    progress: (job.progress as JobStageProgress[] | null) ?? [],
+    result: job.result ?? null,
+    error: job.error,
+    attempts: job.attempts,
+    createdAt: job.createdAt?.toISOString() ?? null,
+    completedAt: job.completedAt?.toISOString() ?? null,
+  };
+}
+
+// Only provider errors are worth another attempt: rate limits, timeouts,
+// server errors and failed connections. Anything else (a bad response, a
+// database error, a cancellation) fails the job. Errors from server/openai.ts
+// carry the provider's error as their cause.
+export function isRetryableError(error: unknown): boolean {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if (current instanceof OpenAI.APIConnectionError) return true;
+    if (current instanceof OpenAI.APIError) {
+      const status = current.status;
+      return typeof status === "number" && (status >= 500 || status === 408 || status === 429);
+    }
+  }
+  return false;
+}
+
+export function retryDelayMs(attempts: number): number {
+  const delay = Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+  return delay + Math.floor(Math.random() * delay / 4);
+}
+
+// Live events for jobs running in this process, for /api/jobs/:id/events.
+// Stage progress is also saved on the job; token text is only relayed here.
+type JobListener = (event: GenerationStreamEventName, data: unknown) => void;
+const listeners = new Map<string, Set<JobListener>>();
+const runningJobs = new Map<string, AbortController>();
+
+export function subscribeToJob(id: string, listener: JobListener): () => void {
+  const jobListeners = listeners.get(id) ?? new Set<JobListener>();
+  jobListeners.add(listener);
+  listeners.set(id, jobListeners);
+  return () => {
+    jobListeners.delete(listener);
+    if (jobListeners.size === 0) listeners.delete(id);
+  };
+}
+
+function publish(id: string, event: GenerationStreamEventName, data: unknown) {
+  listeners.get(id)?.forEach(listener => listener(event, data));
+}
+
+function recordStage(progress: JobStageProgress[], event: GenerationProgressEvent): JobStageProgress[] {
+  if (event.type !== "stage") return progress;
+  const next: JobStageProgress = { stage: event.stage, status: event.status, ...(event.text ? { text: event.text } : {}) };
+  const existing = progress.findIndex(stage => stage.stage === event.stage);
+  return existing === -1 ? [...progress, next] : progress.map((stage, index) => index === existing ? next : stage);
+}
+
+// Queues a job for a request whose statement or wins the caller has already
+// checked belong to userId
+export async function enqueueGenerationJob(userId: string, request: JobRequest): Promise<GenerationJob> {
+  const job = await storage.createGenerationJob({
+    userId,
+    statementId: "statementId" in request ? request.statementId : null,
+    kind: request.kind,
+    input: request,
+  });
+  void pollQueue();
+  return job;
+}
+
+// Marks the job cancelled and stops it if this process is running it; a job
+// running elsewhere stops at its next progress update
+export async function cancelGenerationJob(id: string, userId: string): Promise<GenerationJob | undefined> {
+  const job = await storage.cancelGenerationJobForUser(id, userId);
+  if (job) {
+    runningJobs.get(id)?.abort();
+    publish(id, "error", { message: "Generation cancelled" });
+  }
+  return job;
+}
+
+async function runJob(job: GenerationJob, stream: GenerationStreamOptions, checkpoint: GenerationCheckpoint<any>): Promise<unknown> {
+  const parsed = jobRequestSchema.safeParse(job.input);
+  if (!parsed.success) throw new JobInputError("Invalid job request");
+  const request = parsed.data;
+
+  if (request.kind === "generate") {
+    const wins = await storage.getWinsForUserByIds(request.winIds, job.userId);
+    if (wins.length === 0) throw new JobInputError("No valid wins provided");
+    return { statements: await createDraftStatements(job.userId, wins, request.mode, request.audience, stream, checkpoint) };
+  }
+
+  const statement = await storage.getStatementForUser(request.statementId, job.userId);
+  if (!statement) throw new JobInputError("Statement not found");
+
+  switch (request.kind) {
+    case "feedback":
+      return await createStatementFeedback(job.userId, statement, stream, checkpoint);
+    case "askbacks":
+      return await createAskBackQuestions(job.userId, statement, stream, checkpoint);
+    case "regenerate":
+      return await regenerateStatementForUser(job.userId, statement, request.askBackAnswers, stream, checkpoint);
+  }
+}
+
+async function executeJob(job: GenerationJob): Promise<void> {
+  // Claimed again after another worker judged it stale; the run here finishes it
+  if (runningJobs.has(job.id)) return;
+  const controller = new AbortController();
+  runningJobs.set(job.id, controller);
+
+  // Stage changes and heartbeats are saved in order; a save that finds the job
+  // no longer running means it was cancelled. The first clears the last
+  // attempt's stages.
+  let progress: JobStageProgress[] = [];
+  let saving: Promise<GenerationJob | undefined> = Promise.resolve(undefined);
+  const save = () => {
+    const snapshot = progress;
+    saving = saving
+      .then(() => storage.updateRunningGenerationJob(job.id, { progress: snapshot }))
+      .then(updated => {
+        if (!updated) controller.abort();
+        return updated;
+      })
+      .catch(error => {
+        console.error(`Error saving progress of generation job ${job.id}:`, error);
+        return undefined;
+      });
+  };
+
+  save();
+  const heartbeat = setInterval(save, JOB_HEARTBEAT_MS);
+
+  // An earlier attempt's model output is reused, so a retry only redoes the
+  // writes, which are all-or-nothing
+  const checkpoint: GenerationCheckpoint<unknown> = {
+    saved: job.output ?? undefined,
+    save: async output => {
+      if (!(await storage.updateRunningGenerationJob(job.id, { output }))) {
+        controller.abort();
+        controller.signal.throwIfAborted();
+      }
+    },
+  };
+
+  try {
+    const result = await runJob(job, {
+      signal: controller.signal,
+      onProgress: event => {
+        publish(job.id, "progress", event);
+        if (event.type === "stage") {
+          progress = recordStage(progress, event);
+          save();
+        }
+      },
+    }, checkpoint);
+    await saving;
+    const finished = await storage.updateRunningGenerationJob(job.id, {
+      status: "succeeded",
+      progress,
+      result,
+      error: null,
+      completedAt: new Date(),
+    });
+    if (finished) publish(job.id, "result", result);
+  } catch (error) {
+    await saving;
+    if (controller.signal.aborted) {
+      console.log(`Generation job ${job.id} cancelled`);
+      return;
+    }
+
+    const message = error instanceof JobInputError ? error.message : FAILURE_MESSAGES[job.kind as GenerationJobKind];
+    if (job.attempts < job.maxAttempts && isRetryableError(error)) {
+      console.error(`Generation job ${job.id} attempt ${job.attempts} failed, retrying:`, error);
+      const runAfter = new Date(Date.now() + retryDelayMs(job.attempts));
+      const requeued = await storage.updateRunningGenerationJob(job.id, { status: "queued", runAfter, error: message });
+      if (requeued) {
+        const retry: JobRetryEvent = { attempts: job.attempts, maxAttempts: job.maxAttempts, runAfter: runAfter.toISOString() };
+        publish(job.id, "retry", retry);
+      }
+      return;
+    }
+
+    console.error(`Generation job ${job.id} failed:`, error);
+    const failed = await storage.updateRunningGenerationJob(job.id, {
+      status: "failed",
+      error: message,
+      completedAt: new Date(),
+    });
+    if (failed) publish(job.id, "error", { message });
+  } finally {
+    clearInterval(heartbeat);
+    runningJobs.delete(job.id);
+  }
+}
+
+let workerStarted = false;
+let polling = false;
+
+// Claims due jobs until the worker is busy or the queue is empty
+async function pollQueue(): Promise<void> {
+  if (!workerStarted || polling) return;
+  polling = true;
+  try {
+    while (runningJobs.size < MAX_CONCURRENT_JOBS) {
+      const job = await storage.claimNextGenerationJob();
+      if (!job) break;
+      executeJob(job)
+        .catch(error => console.error(`Error running generation job ${job.id}:`, error))
+        .finally(() => void pollQueue());
+    }
+  } catch (error) {
+    console.error("Error polling generation jobs:", error);
+  } finally {
+    polling = false;
+  }
+}
+
+async function sweepJobs(now: Date = new Date()): Promise<void> {
+  const requeued = await storage.requeueStaleGenerationJobs(new Date(now.getTime() - STALE_JOB_MS), Array.from(runningJobs.keys()));
+  if (requeued > 0) {
+    console.log(`Requeued ${requeued} stalled generation job(s)`);
+  }
+  await storage.deleteFinishedGenerationJobs(new Date(now.getTime() - FINISHED_JOB_RETENTION_MS));
+}
+
+// Polls the queue every second and sweeps stalled and old jobs every minute;
+// the timers don't hold the process open
+export function startJobWorker(): void {
+  workerStarted = true;
+  const sweep = () => sweepJobs().catch(error => console.error("Error sweeping generation jobs:", error));
+  sweep();
+  void pollQueue();
+  setInterval(() => void pollQueue(), POLL_INTERVAL_MS).unref();
+  setInterval(sweep, SWEEP_INTERVAL_MS).unref();
+}
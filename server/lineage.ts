@@ -0,0 +1,33 @@
+import type { Statement } from "@shared/schema";
+import type { LineageSource, StatementLineage, WinLineage } from "@shared/lineage";
+import { storage } from "./storage";
+
+export async function buildWinLineage(userId: string, winId: string): Promise<WinLineage> {
+  const derived = await storage.getStatementsReferencingWin(winId, userId, { includeTrashed: true });
+  return {
+    winId,
+    statements: derived.map(({ id, content, category, isCompleted, createdAt, deletedAt }) => ({
+      id, content, category, isCompleted, createdAt, deletedAt,
+    })),
+  };
+}
+
+export async function buildStatementLineage(userId: string, statement: Statement): Promise<StatementLineage> {
+  const sourceWinIds = Array.from(new Set(statement.sourceWinIds ?? []));
+  const found = new Map(
+    (await storage.getWinsForUserByIds(sourceWinIds, userId, { includeTrashed: true })).map(win => [win.id, win])
+  );
+
+  const sources = sourceWinIds.map((winId): LineageSource => {
+    const win = found.get(winId);
+    if (!win) return { winId, status: "missing", win: null };
+    const { id, category, action, occurredOn, endedOn, deletedAt } = win;
+    return {
+      winId,
+      status: deletedAt ? "trashed" : "active",
+      win: { id, category, action, occurredOn, endedOn, deletedAt },
+    };
+  });
+
+  return { statementId: statement.id, sources };
+}
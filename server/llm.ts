@@ -0,0 +1,328 @@
+import OpenAI from "openai";
+
+// Options shared by every provider. jsonSchema/jsonName request structured output.
+// With onToken the output is streamed and each piece of text is passed on as it
+// arrives; the full text is still returned. Aborting signal cancels the call.
+export interface LLMRequest {
+  prompt: string;
+  instructions: string;
+  maxOutputTokens: number;
+  temperature?: number;
+  jsonSchema?: any;
+  jsonName?: string;
+  signal?: AbortSignal;
+  onToken?: (text: string) => void;
+}
+
+export type LLMProviderName = 'openai' | 'local' | 'offline';
+
+// Each call gives up well inside the job worker's stale threshold
+// (server/jobs.ts), so a hung request fails and the queue retries the job
+// instead of the job looking abandoned while it is still running
+const REQUEST_TIMEOUT_MS = 90_000;
+const CLIENT_MAX_RETRIES = 1;
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  generate(request: LLMRequest): Promise<string>;
+}
+
+// OpenAI Responses API (gpt-5 reasoning models)
+export class OpenAIResponsesProvider implements LLMProvider {
+  name = 'openai' as const;
+  private client: OpenAI;
+
+  constructor(public model: string, apiKey: string) {
+    this.client = new OpenAI({ apiKey, timeout: REQUEST_TIMEOUT_MS, maxRetries: CLIENT_MAX_RETRIES });
+  }
+
+  async generate(request: LLMRequest): Promise<string> {
+    const requestPayload: any = {
+      model: this.model,
+      instructions: request.instructions,            // system/developer guidance
+      input: [
+        { role: "user", content: [{ type: "input_text", text: request.prompt }] }
+      ],
+      reasoning: { effort: "minimal" },               // keep thinking cheap so output tokens remain
+      max_output_tokens: request.maxOutputTokens     // budget for final answer
+      // ❌ Do NOT send temperature/top_p for reasoning models
+    };
+
+    // Add JSON schema if requested
+    if (request.jsonSchema) {
+      requestPayload.text = {
+        verbosity: "medium",
+        format: {
+          type: "json_schema",
+          name: request.jsonName || "Result",
+          schema: request.jsonSchema,
+          strict: true
+        }
+      };
+    } else {
+      // Plain text format
+      requestPayload.text = {
+        verbosity: "medium",
+        format: { type: "text" }
+      };
+    }
+
+    if (request.onToken) {
+      const stream = await this.client.responses.create({ ...requestPayload, stream: true } as OpenAI.Responses.ResponseCreateParamsStreaming, { signal: request.signal });
+      let streamed = '';
+      for await (const event of stream) {
+        if (event.type === 'response.output_text.delta') {
+          streamed += event.delta;
+          request.onToken(event.delta);
+        }
+      }
+      return streamed;
+    }
+
+    const resp = await this.client.responses.create(requestPayload, { signal: request.signal });
+
+    // Robust extraction following OpenAI cookbook
+    let text = '';
+
+    if (Array.isArray(resp.output)) {
+      for (const item of resp.output) {
+        // messages carry user-visible text
+        if ((item as any).content) {
+          for (const c of (item as any).content) {
+            if (typeof c?.text === "string") text += c.text;
+          }
+        }
+      }
+    }
+
+    // Fallback to output_text when present
+    if (!text && typeof (resp as any).output_text === "string") {
+      text = (resp as any).output_text;
+    }
+
+    if (!text?.trim()) {
+      console.error('Empty output from GPT-5, full response:', JSON.stringify(resp, null, 2));
+      console.error('Usage:', resp.usage);
+    }
+
+    return text;
+  }
+}
+
+// OpenAI-compatible Chat Completions endpoint (vLLM, llama.cpp, Ollama, etc. on the local network)
+export class OpenAICompatibleProvider implements LLMProvider {
+  name = 'local' as const;
+  private client: OpenAI;
+
+  constructor(public model: string, baseURL: string, apiKey: string) {
+    this.client = new OpenAI({ baseURL, apiKey, timeout: REQUEST_TIMEOUT_MS, maxRetries: CLIENT_MAX_RETRIES });
+  }
+
+  async generate(request: LLMRequest): Promise<string> {
+    const requestPayload: any = {
+      model: this.model,
+      messages: [
+        { role: "system", content: request.instructions },
+        { role: "user", content: request.prompt },
+      ],
+      max_tokens: request.maxOutputTokens,
+    };
+
+    if (request.temperature !== undefined) {
+      requestPayload.temperature = request.temperature;
+    }
+
+    if (request.jsonSchema) {
+      requestPayload.response_format = {
+        type: "json_schema",
+        json_schema: {
+          name: request.jsonName || "Result",
+          schema: request.jsonSchema,
+          strict: true,
+        },
+      };
+    }
+
+    if (request.onToken) {
+      const stream = await this.client.chat.completions.create({ ...requestPayload, stream: true } as OpenAI.Chat.ChatCompletionCreateParamsStreaming, { signal: request.signal });
+      let streamed = '';
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          streamed += delta;
+          request.onToken(delta);
+        }
+      }
+      return streamed;
+    }
+
+    const completion = await this.client.chat.completions.create(requestPayload, { signal: request.signal });
+    return completion.choices[0]?.message?.content || '';
+  }
+}
+
+// Deterministic provider for air-gapped machines and tests. Never touches the network;
+// returns the same schema-valid output for the same request.
+export class OfflineProvider implements LLMProvider {
+  name = 'offline' as const;
+  model = 'offline';
+
+  async generate(request: LLMRequest): Promise<string> {
+    request.signal?.throwIfAborted();
+
+    let text: string;
+    if (request.jsonSchema) {
+      const fixture = request.jsonName ? offlineFixtures[request.jsonName] : undefined;
+      const value = fixture ? fixture(request.prompt) : sampleFromSchema(request.jsonSchema, request.jsonName || "Result");
+      text = JSON.stringify(value);
+    } else {
+      text = offlineStatement(request.prompt);
+    }
+
+    // Streamed a word at a time
+    if (request.onToken) {
+      for (const piece of text.match(/\S+\s*/g) ?? []) request.onToken(piece);
+    }
+    return text;
+  }
+}
+
+const MAX_OFFLINE_STATEMENT_LENGTH = 350;
+
+function truncateStatement(text: string): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length <= MAX_OFFLINE_STATEMENT_LENGTH) return clean;
+  return clean.slice(0, MAX_OFFLINE_STATEMENT_LENGTH - 1).replace(/\s+\S*$/, '') + '.';
+}
+
+function stripLeadingEllipsis(text: string): string {
+  return text.trim().replace(/^…/, '');
+}
+
+// Build a plausible statement from whatever the prompt carries: AIR fields first,
+// then the quoted statement being refined, then a fixed placeholder.
+function offlineStatement(prompt: string): string {
+  const actions = Array.from(prompt.matchAll(/^Action: (.+)$/gm)).map(m => m[1]);
+  const impacts = Array.from(prompt.matchAll(/^Impact: (.+)$/gm)).map(m => m[1]);
+  const results = Array.from(prompt.matchAll(/^Result: (.+)$/gm)).map(m => m[1]);
+
+  if (actions.length > 0) {
+    const parts = actions.map((action, index) =>
+      [action, impacts[index], results[index]]
+        .filter(Boolean)
+        .map(part => stripLeadingEllipsis(part!))
+        .join('; ')
+    );
+    return truncateStatement(`- ${parts.join('; ')}`);
+  }
+
+  const quoted = prompt.match(/"([^"]{10,})"/);
+  if (quoted) {
+    return truncateStatement(quoted[1]);
+  }
+
+  return "- Led team through mission-critical task; improved unit readiness--enabled mission success";
+}
+
+// Canned structured responses keyed by the jsonName callers pass to gpt5Text
+const offlineFixtures: Record<string, (prompt: string) => unknown> = {
+  Feedback: (prompt) => {
+    const statement = prompt.match(/Statement to analyze: "([\s\S]*)"/)?.[1] ?? '';
+    const hasQuantitativeData = /\d/.test(statement);
+    return {
+      score: (hasQuantitativeData ? 7 : 5) + (statement.length <= MAX_OFFLINE_STATEMENT_LENGTH ? 1 : 0),
+      strengths: ["Opens with a clear action", "Uses professional military language"],
+      improvements: hasQuantitativeData
+        ? ["Tie the result to a wing- or mission-level outcome"]
+        : ["Add a quantifiable metric (time, dollars, people or percentage)", "Tie the result to a wing- or mission-level outcome"],
+    };
+  },
+  SeparateStatements: (prompt) => ({
+    statements: prompt.split(/^Entry (\d+):$/m).slice(1).flatMap((part, index, parts) =>
+      index % 2 === 0 ? [{ entry: Number(part), statement: offlineStatement(parts[index + 1]) }] : []
+    ),
+  }),
+  AskBackQuestions: () => ({
+    questions: [
+      {
+        id: "quantitative",
+        category: "quantitative",
+        question: "How many people, hours, dollars or items did this effort affect?",
+        example: "Led 6-person team through 120-hour inventory that accounted for 1,400 assets valued at $3.2M.",
+      },
+      {
+        id: "leadership",
+        category: "leadership",
+        question: "Who did you lead, train or coordinate with to get this done?",
+        example: "Mentored 4 Airmen and coordinated with 3 squadrons to close out 22 open discrepancies.",
+      },
+      {
+        id: "strategic",
+        category: "strategic",
+        question: "Which exercise, deployment or wing priority did this support?",
+        example: "Enabled 48 sorties during RED FLAG 24-2 that certified the wing for AEF deployment.",
+      },
+    ],
+  }),
+};
+
+// Generic fallback: produce the smallest value that satisfies a JSON schema
+function sampleFromSchema(schema: any, key: string): unknown {
+  if (!schema || typeof schema !== 'object') return null;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      for (const [prop, propSchema] of Object.entries(schema.properties || {})) {
+        result[prop] = sampleFromSchema(propSchema, prop);
+      }
+      return result;
+    }
+    case 'array': {
+      const count = schema.minItems ?? 1;
+      return Array.from({ length: count }, () => sampleFromSchema(schema.items, key));
+    }
+    case 'string':
+      return `offline ${key}`;
+    case 'number':
+    case 'integer':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return false;
+    default:
+      return null;
+  }
+}
+
+// Select the provider from configuration:
+//   LLM_PROVIDER=openai  (default) OpenAI Responses API, OPENAI_API_KEY, LLM_MODEL (default gpt-5)
+//   LLM_PROVIDER=local   OpenAI-compatible endpoint at LLM_BASE_URL, LLM_MODEL, optional LLM_API_KEY
+//   LLM_PROVIDER=offline deterministic canned output, no network
+export function createLLMProvider(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const providerName = (env.LLM_PROVIDER || 'openai').toLowerCase();
+
+  switch (providerName) {
+    case 'openai':
+      return new OpenAIResponsesProvider(
+        env.LLM_MODEL || 'gpt-5',
+        env.OPENAI_API_KEY || env.OPENAI_KEY || "sk-placeholder"
+      );
+    case 'local':
+      if (!env.LLM_BASE_URL) {
+        throw new Error("LLM_BASE_URL must be set when LLM_PROVIDER=local");
+      }
+      if (!env.LLM_MODEL) {
+        throw new Error("LLM_MODEL must be set when LLM_PROVIDER=local");
+      }
+      return new OpenAICompatibleProvider(env.LLM_MODEL, env.LLM_BASE_URL, env.LLM_API_KEY || "not-needed");
+    case 'offline':
+      return new OfflineProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${providerName}" (expected openai, local or offline)`);
+  }
+}
+
+export const llmProvider = createLLMProvider();
@@ -1,120 +1,153 @@
-import OpenAI from "openai";
-import type { Win } from "@shared/schema";
-
-// the newest OpenAI model is "gpt-4o" which was released August 7, 2025. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_KEY || "sk-placeholder"
-});
-
-// GPT-5 helper function using Responses API correctly
-async function gpt5Text(userPrompt: string, opts?: { max?: number; temperature?: number; jsonSchema?: any; jsonName?: string; instructions?: string }) {
-  const systemPrompt = opts?.instructions || "You are a helpful assistant.";
-  const maxOutputTokens = opts?.max || 512;
-
-  const requestPayload: any = {
-    model: 'gpt-5',
-    instructions: systemPrompt,                     // system/developer guidance
-    input: [
-      { role: "user", content: [{ type: "input_text", text: userPrompt }] }
-    ],
-    reasoning: { effort: "minimal" },               // keep thinking cheap so output tokens remain
-    max_output_tokens: maxOutputTokens             // budget for final answer
-    // ❌ Do NOT send temperature/top_p for reasoning models
-  };
-
-  // Add JSON schema if requested
-  if (opts?.jsonSchema) {
-    requestPayload.text = {
-      verbosity: "medium",
-      format: {
-        type: "json_schema",
-        name: opts.jsonName || "Result",
-        schema: opts.jsonSchema,
-        strict: true
-      }
-    };
-  } else {
-    // Plain text format
-    requestPayload.text = { 
-      verbosity: "medium", 
-      format: { type: "text" } 
-    };
-  }
-
-  const resp = await openai.responses.create(requestPayload);
-  
-  // Robust extraction following OpenAI cookbook
-  let text = '';
-  
-  if (Array.isArray(resp.output)) {
-    for (const item of resp.output) {
-      // messages carry user-visible text
-      if ((item as any).content) {
-        for (const c of (item as any).content) {
-          if (typeof c?.text === "string") text += c.text;
-        }
-      }
-    }
-  }
-  
-  // Fallback to output_text when present
-  if (!text && typeof (resp as any).output_text === "string") {
-    text = (resp as any).output_text;
-  }
+import { performanceCategories, type Win } from "@shared/schema";
+import type { WinText } from "@shared/categorize";
+import { followsAirStructure, hasQuantitativeData, lintStatement } from "@shared/statementLint";
+import { tightenToWidth } from "@shared/formWidth";
+import type { AbbreviationEntry } from "@shared/abbreviations";
+import { checkFacts, isBlockingFactIssue, type FactCheckReport, type FactIssue } from "@shared/factCheck";
+import type { GenerationContext } from "@shared/generationContext";
+import type { GenerationProgressEvent, GenerationStage } from "@shared/generationStream";
+import { llmProvider } from "./llm";
+
+// Single entry point for every model call; the configured LLMProvider (see server/llm.ts)
+// decides whether this goes to GPT-5, a local OpenAI-compatible endpoint, or the offline stub.
+// A generation context puts the member's grade, career field and audience in front of the prompt.
+async function gpt5Text(userPrompt: string, opts?: { max?: number; temperature?: number; jsonSchema?: any; jsonName?: string; instructions?: string; context?: GenerationContext; signal?: AbortSignal; onToken?: (text: string) => void }) {
+  const instructions = opts?.instructions || "You are a helpful assistant.";
+  const text = await llmProvider.generate({
+    prompt: opts?.context ? `${opts.context.brief}\n\n${userPrompt}` : userPrompt,
+    instructions: opts?.context ? `${instructions} ${opts.context.guidance}` : instructions,
+    maxOutputTokens: opts?.max || 512,
+    temperature: opts?.temperature,
+    jsonSchema: opts?.jsonSchema,
+    jsonName: opts?.jsonName,
+    signal: opts?.signal,
+    onToken: opts?.onToken,
+  });
 
   if (!text?.trim()) {
-    console.error('Empty output from GPT-5, full response:', JSON.stringify(resp, null, 2));
-    console.error('Usage:', resp.usage);
-    throw new Error('Empty output from GPT-5');
+    throw new Error(`Empty output from ${llmProvider.name} provider (${llmProvider.model})`);
   }
   
   return text.trim();
 }
 
-export async function generateFirstDraft(wins: Win[], mode: 'combine' | 'separate'): Promise<string> {
-  const winsText = wins.map(win => 
-    `Action: ${win.action}\nImpact: ${win.impact}\nResult: ${win.result}\nCategory: ${win.category}`
-  ).join('\n\n');
+// Streaming callers (the /stream endpoints) are told as each stage starts and
+// finishes and get the text of plain-text stages as it is written. Aborting
+// signal cancels the model call in flight.
+export interface GenerationStreamOptions {
+  signal?: AbortSignal;
+  onProgress?: (event: GenerationProgressEvent) => void;
+}
 
-  const prompt = mode === 'combine' 
-    ? `Transform the following Air Force performance entries into ONE comprehensive performance statement following the ACTION--IMPACT--RESULT format. The statement must be under 350 characters, use professional military language, and maintain all specific numbers and operation names. Combine related achievements intelligently while preserving quantitative data.
+function tokenListener(stream: GenerationStreamOptions | undefined, stage: GenerationStage) {
+  return stream?.onProgress ? (text: string) => stream.onProgress!({ type: 'token', stage, text }) : undefined;
+}
 
-Performance Entries:
-${winsText}
+const FIRST_DRAFT_INSTRUCTIONS = "You are an expert Air Force performance statement writer. You specialize in transforming raw performance data into professional military narrative statements that follow Air University standards. Always maintain ACTION--IMPACT--RESULT structure and stay under 350 characters.";
+
+function formatWin(win: Win): string {
+  return `Action: ${win.action}\nImpact: ${win.impact}\nResult: ${win.result}\nCategory: ${win.category}`;
+}
 
-Generate a single polished performance statement that captures the essence of all entries:`
+// One statement combining every win
+export async function generateFirstDraft(wins: Win[], context?: GenerationContext, stream?: GenerationStreamOptions): Promise<string> {
+  const winsText = wins.map(formatWin).join('\n\n');
 
-    : `Transform the following Air Force performance entries into SEPARATE performance statements following the ACTION--IMPACT--RESULT format. Each statement must be under 350 characters, use professional military language, and maintain all specific numbers and operation names.
+  const prompt = `Transform the following Air Force performance entries into ONE comprehensive performance statement following the ACTION--IMPACT--RESULT format. The statement must be under 350 characters, use professional military language, and maintain all specific numbers and operation names. Combine related achievements intelligently while preserving quantitative data.
 
 Performance Entries:
 ${winsText}
 
-Generate individual polished performance statements:`;
+Generate a single polished performance statement that captures the essence of all entries:`;
 
   try {
-    console.log("Generating first draft for wins:", wins.length, "mode:", mode);
-    const instructions = "You are an expert Air Force performance statement writer. You specialize in transforming raw performance data into professional military narrative statements that follow Air University standards. Always maintain ACTION--IMPACT--RESULT structure and stay under 350 characters.";
-    
-    const content = await gpt5Text(prompt, { max: 512, instructions });
+    console.log("Generating first draft for wins:", wins.length);
+    stream?.onProgress?.({ type: 'stage', stage: 'draft', status: 'started' });
+    const content = await gpt5Text(prompt, {
+      max: 512,
+      instructions: FIRST_DRAFT_INSTRUCTIONS,
+      context,
+      signal: stream?.signal,
+      onToken: tokenListener(stream, 'draft'),
+    });
     console.log("Generated content:", content);
+    stream?.onProgress?.({ type: 'stage', stage: 'draft', status: 'done', text: content });
     return content;
   } catch (error) {
     console.error("Error generating first draft:", error);
     console.error("Full error details:", JSON.stringify(error, null, 2));
-    throw new Error(`Failed to generate statement: ${(error as Error).message}`);
+    throw new Error(`Failed to generate statement: ${(error as Error).message}`, { cause: error });
+  }
+}
+
+// One statement per win, in the order given. Entries are numbered in the prompt
+// and the model answers with structured output keyed by that number; any entry
+// it skips is drafted on its own.
+// Structured output, so progress is reported per stage without tokens.
+export async function generateSeparateDrafts(wins: Win[], context?: GenerationContext, stream?: GenerationStreamOptions): Promise<string[]> {
+  const winsText = wins.map((win, index) => `Entry ${index + 1}:\n${formatWin(win)}`).join('\n\n');
+
+  const prompt = `Transform EACH of the following Air Force performance entries into its own performance statement following the ACTION--IMPACT--RESULT format. Each statement must be under 350 characters, use professional military language, and maintain all specific numbers and operation names. Do not merge entries or carry details from one entry into another.
+
+Performance Entries:
+${winsText}
+
+Return one statement per entry, identified by its entry number.`;
+
+  const separateSchema = {
+    type: "object",
+    properties: {
+      statements: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            entry: { type: "integer" },
+            statement: { type: "string" },
+          },
+          required: ["entry", "statement"],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["statements"],
+    additionalProperties: false,
+  };
+
+  try {
+    console.log("Generating separate drafts for wins:", wins.length);
+    stream?.onProgress?.({ type: 'stage', stage: 'draft', status: 'started' });
+    const content = await gpt5Text(prompt, {
+      max: Math.max(512, 256 * wins.length),
+      jsonSchema: separateSchema,
+      jsonName: "SeparateStatements",
+      instructions: FIRST_DRAFT_INSTRUCTIONS,
+      context,
+      signal: stream?.signal,
+    });
+    const parsed: { statements: { entry: number; statement: string }[] } = JSON.parse(content);
+
+    const drafts = wins.map((_win, index) =>
+      parsed.statements.find(item => item.entry === index + 1 && item.statement?.trim())?.statement.trim()
+    );
+    const statements = await Promise.all(drafts.map((draft, index) => draft ?? generateFirstDraft([wins[index]], context, { signal: stream?.signal })));
+    stream?.onProgress?.({ type: 'stage', stage: 'draft', status: 'done' });
+    return statements;
+  } catch (error) {
+    console.error("Error generating separate drafts:", error);
+    throw new Error(`Failed to generate statements: ${(error as Error).message}`, { cause: error });
   }
 }
 
-export async function generateAIFeedback(statement: string): Promise<any> {
+// The model scores the statement and lists strengths and improvements; length,
+// metrics and structure are measured by the shared linter instead of asked for
+export async function generateAIFeedback(statement: string, context?: GenerationContext, stream?: GenerationStreamOptions): Promise<any> {
   const prompt = `Analyze this Air Force performance statement and provide detailed feedback. Score it from 0-10 and identify strengths and areas for improvement. Respond with JSON in this format:
 
 {
   "score": number,
   "strengths": ["strength1", "strength2"],
-  "improvements": ["improvement1", "improvement2"],
-  "characterCount": number,
-  "hasQuantitativeData": boolean,
-  "followsAirStructure": boolean
+  "improvements": ["improvement1", "improvement2"]
 }
 
 Statement to analyze: "${statement}"`;
@@ -127,24 +160,29 @@ Statement to analyze: "${statement}"`;
       properties: {
         score: { type: "number" },
         strengths: { type: "array", items: { type: "string" } },
-        improvements: { type: "array", items: { type: "string" } },
-        characterCount: { type: "number" },
-        hasQuantitativeData: { type: "boolean" },
-        followsAirStructure: { type: "boolean" }
+        improvements: { type: "array", items: { type: "string" } }
       },
-      required: ["score", "strengths", "improvements", "characterCount", "hasQuantitativeData", "followsAirStructure"],
+      required: ["score", "strengths", "improvements"],
       additionalProperties: false
     };
     
-    const content = await gpt5Text(prompt, { max: 512, jsonSchema: feedbackSchema, jsonName: "Feedback", instructions });
-    return JSON.parse(content);
+    stream?.onProgress?.({ type: 'stage', stage: 'feedback', status: 'started' });
+    const content = await gpt5Text(prompt, { max: 512, jsonSchema: feedbackSchema, jsonName: "Feedback", instructions, context, signal: stream?.signal });
+    stream?.onProgress?.({ type: 'stage', stage: 'feedback', status: 'done' });
+    return {
+      ...JSON.parse(content),
+      characterCount: statement.length,
+      hasQuantitativeData: hasQuantitativeData(statement),
+      followsAirStructure: followsAirStructure(statement),
+      lint: lintStatement(statement),
+    };
   } catch (error) {
     console.error("Error generating AI feedback:", error);
-    throw new Error(`Failed to generate feedback: ${(error as Error).message}`);
+    throw new Error(`Failed to generate feedback: ${(error as Error).message}`, { cause: error });
   }
 }
 
-export async function generateAskBackQuestions(statement: string): Promise<any> {
+export async function generateAskBackQuestions(statement: string, context?: GenerationContext, stream?: GenerationStreamOptions): Promise<any> {
   try {
     const prompt = `You are a USAF performance SME. Generate exactly 3 targeted follow‑up questions to strengthen an ACTION–IMPACT–RESULT statement. CRITICAL RULES: NEVER use these banned words in questions: evidence, source, sourcing, validate, validation, proof, documentation, cite, citation, verify, verification, audit trail, supporting data, data source. Do NOT question metrics legitimacy or ask how metrics were measured. Focus ONLY on: missing action specifics, causal gaps, scope/timeline, or content clarity issues. Categories are fixed: quantitative, leadership, strategic.
 
@@ -209,11 +247,13 @@ NOW, using the same schema and rules, generate questions for this statement:
       additionalProperties: false
     };
     
-    const content = await gpt5Text(prompt, { max: 512, jsonSchema: questionsSchema, jsonName: "AskBackQuestions", instructions });
+    stream?.onProgress?.({ type: 'stage', stage: 'questions', status: 'started' });
+    const content = await gpt5Text(prompt, { max: 512, jsonSchema: questionsSchema, jsonName: "AskBackQuestions", instructions, context, signal: stream?.signal });
+    stream?.onProgress?.({ type: 'stage', stage: 'questions', status: 'done' });
     return JSON.parse(content);
   } catch (error) {
     console.error("Error generating ask-back questions:", error);
-    throw new Error(`Failed to generate ask-back questions: ${(error as Error).message}`);
+    throw new Error(`Failed to generate ask-back questions: ${(error as Error).message}`, { cause: error });
   }
 }
 
@@ -251,15 +291,56 @@ Generate the improved statement:`;
     return content || originalStatement;
   } catch (error) {
     console.error("Error regenerating statement:", error);
-    throw new Error(`Failed to regenerate statement: ${(error as Error).message}`);
+    throw new Error(`Failed to regenerate statement: ${(error as Error).message}`, { cause: error });
   }
 }
 
 // Enhanced two-stage regeneration with AI feedback loop
-export async function enhancedRegenerateStatement(originalStatement: string, askBackAnswers: Record<string, string>): Promise<{
+// Rewrites get one more attempt when they drop or invent figures, or invent names
+const MAX_FACT_RETRIES = 1;
+
+function factCorrection(issues: FactIssue[]): string {
+  return `
+
+Your previous attempt changed the facts. Fix these and change nothing else:
+${issues.map(issue => `- ${issue.type === 'dropped' ? `Keep ${issue.fact.text} exactly as given` : `Remove ${issue.fact.text}; it is not in the member's inputs`}`).join('\n')}`;
+}
+
+// Runs a rewrite and checks it against the member's inputs, retrying with the
+// problems spelled out. Returns whichever attempt had the fewest blocking issues.
+async function generatePreservingFacts(
+  sources: string[],
+  generate: (correction: string) => Promise<string>,
+  onRetry?: () => void,
+): Promise<{ text: string; factCheck: FactCheckReport }> {
+  let text = await generate('');
+  let issues = checkFacts(sources, text);
+  let retries = 0;
+
+  while (issues.some(isBlockingFactIssue) && retries < MAX_FACT_RETRIES) {
+    retries++;
+    console.log(`Rewrite changed facts, retrying (${retries}/${MAX_FACT_RETRIES})...`);
+    onRetry?.();
+    const retryText = await generate(factCorrection(issues.filter(isBlockingFactIssue)));
+    const retryIssues = checkFacts(sources, retryText);
+    if (retryText.trim() && retryIssues.filter(isBlockingFactIssue).length <= issues.filter(isBlockingFactIssue).length) {
+      text = retryText;
+      issues = retryIssues;
+    }
+  }
+
+  return { text, factCheck: { issues, retries } };
+}
+
+// sourceWins are the wins the statement was built from; together with the
+// answers and the draft they are the facts the rewrite has to keep. The final
+// result is abbreviated from the given dictionary if it overflows the form,
+// except for decorations, which are not written on the form.
+export async function enhancedRegenerateStatement(originalStatement: string, askBackAnswers: Record<string, string>, sourceWins: Win[] = [], abbreviations?: AbbreviationEntry[], context?: GenerationContext, stream?: GenerationStreamOptions): Promise<{
   stage1Result: string;
   aiFeedback: any;
   finalResult: string;
+  factCheck: FactCheckReport;
 }> {
   const answersText = Object.entries(askBackAnswers)
     .filter(([_, answer]) => answer.trim())
@@ -276,6 +357,11 @@ export async function enhancedRegenerateStatement(originalStatement: string, ask
       return `Q (${label}): ${answer}`;
     })
     .join('\n\n');
+  const factSources = [
+    ...sourceWins.flatMap(win => [win.action, win.impact, win.result]),
+    ...Object.values(askBackAnswers),
+    originalStatement,
+  ];
 
   try {
     console.log("Stage 1: Generating statement with user answers...");
@@ -292,7 +378,20 @@ Generate the improved statement with ALL user-provided details incorporated:`;
 
     const stage1Instructions = "You are an expert Air Force performance statement writer. Incorporate ALL user-provided details while maintaining professional military language and ACTION--IMPACT--RESULT structure. Preserve ALL facts, numbers, mission names, and scope exactly as provided by the user.";
     
-    const stage1Result = await gpt5Text(stage1Prompt, { max: 512, instructions: stage1Instructions });
+    stream?.onProgress?.({ type: 'stage', stage: 'stage1', status: 'started' });
+    const stage1 = await generatePreservingFacts(
+      factSources,
+      correction => gpt5Text(stage1Prompt + correction, {
+        max: 512,
+        instructions: stage1Instructions,
+        context,
+        signal: stream?.signal,
+        onToken: tokenListener(stream, 'stage1'),
+      }),
+      () => stream?.onProgress?.({ type: 'stage', stage: 'stage1', status: 'retrying' }),
+    );
+    const stage1Result = stage1.text;
+    stream?.onProgress?.({ type: 'stage', stage: 'stage1', status: 'done', text: stage1Result });
     
     console.log("Stage 2: Running AI feedback analysis...");
     
@@ -309,7 +408,7 @@ Provide feedback focusing on:
 
 NEVER suggest changing user-provided facts, numbers, or specific details.`;
 
-    const aiFeedback = await generateAIFeedback(stage1Result);
+    const aiFeedback = await generateAIFeedback(stage1Result, context, stream);
     
     console.log("Stage 3: Polishing with AI feedback...");
     
@@ -331,22 +430,92 @@ Generate the final polished statement:`;
 
     const stage3Instructions = "You are an expert Air Force performance statement writer specializing in final polish. Preserve ALL user facts while improving style and enforcing the 350-character limit. Never change specific details, numbers, or mission information.";
     
-    const finalResult = await gpt5Text(stage3Prompt, { max: 512, instructions: stage3Instructions });
+    stream?.onProgress?.({ type: 'stage', stage: 'final', status: 'started' });
+    const stage3 = await generatePreservingFacts(
+      factSources,
+      correction => gpt5Text(stage3Prompt + correction, {
+        max: 512,
+        instructions: stage3Instructions,
+        context,
+        signal: stream?.signal,
+        onToken: tokenListener(stream, 'final'),
+      }),
+      () => stream?.onProgress?.({ type: 'stage', stage: 'final', status: 'retrying' }),
+    );
+    // The form limits rendered width, not characters. The report describes the
+    // text that is returned, so tightening is dropped if it breaks a fact.
+    let finalResult = stage3.text || stage1Result;
+    let issues = stage3.text ? stage3.factCheck.issues : stage1.factCheck.issues;
+    if (context?.audience !== 'decoration') {
+      const fitted = tightenToWidth(finalResult, { abbreviations });
+      const fittedIssues = checkFacts(factSources, fitted.text);
+      if (fittedIssues.filter(isBlockingFactIssue).length > issues.filter(isBlockingFactIssue).length) {
+        console.log(`Kept the untightened statement: tightening changed a fact (${fitted.changes.join(', ')})`);
+      } else {
+        if (fitted.changes.length > 0) console.log(`Tightened to fit the form: ${fitted.changes.join(', ')}`);
+        finalResult = fitted.text;
+        issues = fittedIssues;
+      }
+    }
+    stream?.onProgress?.({ type: 'stage', stage: 'final', status: 'done', text: finalResult });
     
     console.log("Enhanced regeneration completed successfully");
     
     return {
       stage1Result,
       aiFeedback,
-      finalResult: finalResult || stage1Result
+      finalResult,
+      factCheck: {
+        issues,
+        retries: stage1.factCheck.retries + stage3.factCheck.retries,
+      },
     };
     
   } catch (error) {
     console.error("Error in enhanced regeneration:", error);
-    throw new Error(`Failed to enhance statement: ${(error as Error).message}`);
+    throw new Error(`Failed to enhance statement: ${(error as Error).message}`, { cause: error });
   }
 }
 
+// Picks the performance area a win belongs in, with a runner-up. Callers
+// validate the answer; see server/categorize.ts.
+export async function classifyWinCategory(win: WinText): Promise<{
+  category: string;
+  confidence: number;
+  alternative: string;
+  alternativeConfidence: number;
+}> {
+  const prompt = `Classify this Air Force performance entry into one of the EPB Major Performance Areas: ${performanceCategories.join(', ')}.
+
+- Mission Execution: doing the job and executing the mission (operations, maintenance, deployments, exercises)
+- Leading People: leading, training, mentoring or taking care of Airmen
+- Improving Unit: changing processes, programs or tools so the unit works better
+- Managing Resources: stewardship of money, equipment, time and manpower
+- Personal Development: education, certifications, PME and self-improvement
+
+Give your best choice and a second choice, each with a confidence from 0 to 1.
+
+Action: ${win.action}
+Impact: ${win.impact}
+Result: ${win.result}`;
+
+  const categorySchema = {
+    type: "object",
+    properties: {
+      category: { type: "string", enum: [...performanceCategories] },
+      confidence: { type: "number" },
+      alternative: { type: "string", enum: [...performanceCategories] },
+      alternativeConfidence: { type: "number" }
+    },
+    required: ["category", "confidence", "alternative", "alternativeConfidence"],
+    additionalProperties: false
+  };
+
+  const instructions = "You are an Air Force performance evaluation expert who files accomplishments under the correct Major Performance Area.";
+  const content = await gpt5Text(prompt, { max: 256, jsonSchema: categorySchema, jsonName: "CategorySuggestion", instructions });
+  return JSON.parse(content);
+}
+
 // Test function to verify GPT-5 connectivity
 export async function testGPT5Connection(): Promise<string> {
   try {
@@ -0,0 +1,86 @@
+import type { RequestHandler, Response } from "express";
+import type { RatingPeriod, Statement, Win } from "@shared/schema";
+import { storage } from "./storage";
+
+// Route guards that load a record scoped to the signed-in user and stash it on
+// res.locals. Another user's ID gets the same 404 as an ID that does not exist,
+// so the API never confirms that someone else's record is there.
+
+export function requireOwnedWin(param: string = "id"): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const userId = (req.user as any).claims.sub;
+      const win = await storage.getWinForUser(req.params[param], userId);
+
+      if (!win) {
+        return res.status(404).json({ message: "Win not found" });
+      }
+
+      res.locals.win = win;
+      next();
+    } catch (error) {
+      console.error("Error loading win:", error);
+      res.status(500).json({ message: "Failed to load win" });
+    }
+  };
+}
+
+export function requireOwnedStatement(param: string = "id"): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const userId = (req.user as any).claims.sub;
+      const statement = await storage.getStatementForUser(req.params[param], userId);
+
+      if (!statement) {
+        return res.status(404).json({ message: "Statement not found" });
+      }
+
+      res.locals.statement = statement;
+      next();
+    } catch (error) {
+      console.error("Error loading statement:", error);
+      res.status(500).json({ message: "Failed to load statement" });
+    }
+  };
+}
+
+export function requireOwnedRatingPeriod(param: string = "id"): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const userId = (req.user as any).claims.sub;
+      const period = await storage.getRatingPeriodForUser(req.params[param], userId);
+
+      if (!period) {
+        return res.status(404).json({ message: "Rating period not found" });
+      }
+
+      res.locals.ratingPeriod = period;
+      next();
+    } catch (error) {
+      console.error("Error loading rating period:", error);
+      res.status(500).json({ message: "Failed to load rating period" });
+    }
+  };
+}
+
+export function ownedWin(res: Response): Win {
+  return res.locals.win as Win;
+}
+
+export function ownedStatement(res: Response): Statement {
+  return res.locals.statement as Statement;
+}
+
+export function ownedRatingPeriod(res: Response): RatingPeriod {
+  return res.locals.ratingPeriod as RatingPeriod;
+}
+
+// A statement's source win IDs, checked against the user's wins (trashed ones
+// included, since a statement keeps sources deleted after it was written) and
+// without repeats; undefined when any ID is missing or someone else's
+export async function ownedSourceWinIds(ids: unknown[], userId: string): Promise<string[] | undefined> {
+  if (!ids.every((id): id is string => typeof id === "string")) return undefined;
+  const unique = Array.from(new Set(ids));
+  const found = await storage.getWinsForUserByIds(unique, userId, { includeTrashed: true });
+  return found.length === unique.length ? found.map(win => win.id) : undefined;
+}
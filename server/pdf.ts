@@ -0,0 +1,128 @@
+import PDFDocument from "pdfkit";
+import type { ReportDocument, ReportEntry, ReportStatement } from "./reports";
+import { formatEntryDates, formatReportDate } from "./reports";
+
+const MARGIN = 54;
+const MUTED = '#555555';
+const RULE = '#999999';
+
+type PDFDoc = InstanceType<typeof PDFDocument>;
+
+// Start a new page when fewer than `needed` points remain, so headings and
+// short blocks are never stranded at the bottom of a page
+function ensureSpace(doc: PDFDoc, needed: number) {
+  if (doc.y + needed > doc.page.height - doc.page.margins.bottom) {
+    doc.addPage();
+  }
+}
+
+function drawRule(doc: PDFDoc) {
+  const y = doc.y;
+  doc.moveTo(MARGIN, y).lineTo(doc.page.width - MARGIN, y).lineWidth(0.5).strokeColor(RULE).stroke();
+  doc.moveDown(0.5);
+}
+
+function drawStatement(doc: PDFDoc, statement: ReportStatement, number: number | null) {
+  ensureSpace(doc, 50);
+  const text = number !== null ? `${number}. ${statement.content}` : statement.content;
+  doc.font('Helvetica').fontSize(11).fillColor('black').text(text, { align: 'left' });
+
+  const meta = [
+    statement.category,
+    statement.isCompleted ? 'Completed' : 'Draft',
+    statement.aiScore !== null ? `AI score ${statement.aiScore}/10` : null,
+    formatReportDate(statement.date),
+  ].filter(Boolean).join('  |  ');
+  doc.font('Helvetica').fontSize(8).fillColor(MUTED).text(meta);
+  doc.moveDown(0.6);
+}
+
+function drawEntry(doc: PDFDoc, entry: ReportEntry) {
+  ensureSpace(doc, 70);
+  doc.font('Helvetica-Bold').fontSize(8).fillColor(MUTED)
+    .text(`ENTRY  |  ${entry.category}  |  ${formatEntryDates(entry)}`);
+
+  for (const [label, value] of [['Action', entry.action], ['Impact', entry.impact], ['Result', entry.result]] as const) {
+    doc.font('Helvetica-Bold').fontSize(10).fillColor('black').text(`${label}: `, { continued: true });
+    doc.font('Helvetica').text(value);
+  }
+  doc.moveDown(0.6);
+}
+
+function drawFooters(doc: PDFDoc, report: ReportDocument) {
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    // Writing inside the bottom margin would otherwise trigger an automatic page break
+    const bottom = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    const y = doc.page.height - MARGIN / 2 - 8;
+    doc.font('Helvetica').fontSize(8).fillColor(MUTED);
+    if (report.member) {
+      doc.text(report.member, MARGIN, y, { lineBreak: false });
+    }
+    doc.text(`Page ${i - range.start + 1} of ${range.count}`, MARGIN, y, {
+      width: doc.page.width - MARGIN * 2,
+      align: 'right',
+      lineBreak: false,
+    });
+    doc.page.margins.bottom = bottom;
+  }
+}
+
+export function renderReportPdf(report: ReportDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'LETTER',
+      margin: MARGIN,
+      bufferPages: true,
+      info: {
+        Title: report.title,
+        Author: report.member || 'AF Performance Tracker',
+        Creator: 'AF Performance Tracker',
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    // Document header
+    doc.font('Helvetica-Bold').fontSize(16).fillColor('black').text(report.title.toUpperCase());
+    if (report.member) {
+      doc.font('Helvetica').fontSize(11).text(report.member);
+    }
+    doc.font('Helvetica').fontSize(9).fillColor(MUTED).text(`Generated: ${formatReportDate(report.generatedAt)}`);
+    doc.moveDown(0.5);
+    drawRule(doc);
+
+    if (report.sections.length === 0) {
+      doc.font('Helvetica-Oblique').fontSize(11).fillColor(MUTED)
+        .text('No entries or statements match the selected filters.');
+    }
+
+    for (const section of report.sections) {
+      ensureSpace(doc, 80);
+      doc.moveDown(0.5);
+      doc.font('Helvetica-Bold').fontSize(13).fillColor('black').text(section.heading.toUpperCase());
+      drawRule(doc);
+
+      let statementNumber = 0;
+      for (const block of section.blocks) {
+        if (block.type === 'statement') {
+          statementNumber++;
+          drawStatement(doc, block, section.numberStatements ? statementNumber : null);
+        } else if (block.type === 'entry') {
+          drawEntry(doc, block);
+        } else {
+          doc.font('Helvetica-Oblique').fontSize(10).fillColor(MUTED).text(block.text);
+          doc.moveDown(0.5);
+        }
+      }
+    }
+
+    drawFooters(doc, report);
+    doc.end();
+  });
+}
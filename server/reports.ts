@@ -0,0 +1,182 @@
+import type { User, Win, Statement } from "@shared/schema";
+import type { ExportView, Rank } from "@shared/types";
+import { performanceCategories } from "@shared/schema";
+import { RANK_ABBREVIATIONS } from "@shared/ranks";
+import { getWinDate, parseIsoDate } from "@shared/winDates";
+
+// Format-neutral report model. Each ExportView is laid out once here and every
+// file renderer (PDF, DOCX) draws the same sections.
+
+export interface ReportEntry {
+  type: 'entry';
+  category: string;
+  action: string;
+  impact: string;
+  result: string;
+  date: Date;
+  // Last day of a multi-week effort
+  endDate: Date | null;
+}
+
+export interface ReportStatement {
+  type: 'statement';
+  category: string;
+  content: string;
+  isCompleted: boolean;
+  aiScore: number | null;
+  date: Date;
+}
+
+export interface ReportNote {
+  type: 'note';
+  text: string;
+}
+
+export type ReportBlock = ReportEntry | ReportStatement | ReportNote;
+
+export interface ReportSection {
+  heading: string;
+  // Statements inside a section are numbered when this is set
+  numberStatements?: boolean;
+  blocks: ReportBlock[];
+}
+
+export interface ReportDocument {
+  title: string;
+  member: string;
+  generatedAt: Date;
+  sections: ReportSection[];
+}
+
+const VIEW_TITLES: Record<ExportView, string> = {
+  'Full Report': 'Full Report',
+  'Category-only': 'Category Summary',
+  'Timeline': 'Timeline',
+  'Statements Only': 'Performance Statements',
+};
+
+// "SSgt Jane Doe, 2A5X1" with sensible fallbacks for incomplete profiles
+export function describeMember(user: User | undefined): string {
+  if (!user) return '';
+  const rank = user.rank ? RANK_ABBREVIATIONS[user.rank as Rank] || user.rank : '';
+  const fullName = [user.firstName, user.lastName].filter(Boolean).join(' ') || user.username || user.email || '';
+  const name = [rank, fullName].filter(Boolean).join(' ');
+  return [name, user.afsc].filter(Boolean).join(', ');
+}
+
+function toEntry(win: Win): ReportEntry {
+  return {
+    type: 'entry',
+    category: win.category,
+    action: win.action,
+    impact: win.impact,
+    result: win.result,
+    date: getWinDate(win) ?? new Date(),
+    endDate: win.endedOn ? parseIsoDate(win.endedOn) : null,
+  };
+}
+
+function toStatement(statement: Statement): ReportStatement {
+  return {
+    type: 'statement',
+    category: statement.category,
+    content: statement.content,
+    isCompleted: !!statement.isCompleted,
+    aiScore: statement.aiScore,
+    date: new Date(statement.createdAt ?? Date.now()),
+  };
+}
+
+// Known performance areas first in their canonical order, then anything else
+function orderedCategories(wins: Win[], statements: Statement[]): string[] {
+  const present = new Set([...wins.map(w => w.category), ...statements.map(s => s.category)]);
+  const known = performanceCategories.filter(category => present.has(category));
+  const other = Array.from(present).filter(category => !(performanceCategories as readonly string[]).includes(category)).sort();
+  return [...known, ...other];
+}
+
+function buildFullReport(wins: Win[], statements: Statement[]): ReportSection[] {
+  return orderedCategories(wins, statements).map(category => ({
+    heading: category,
+    numberStatements: true,
+    blocks: [
+      ...statements.filter(s => s.category === category).map(toStatement),
+      ...wins.filter(w => w.category === category).map(toEntry),
+    ],
+  }));
+}
+
+function buildCategoryReport(wins: Win[], statements: Statement[]): ReportSection[] {
+  return orderedCategories(wins, statements).map(category => {
+    const categoryWins = wins.filter(w => w.category === category);
+    const categoryStatements = statements.filter(s => s.category === category);
+    return {
+      heading: category,
+      blocks: [
+        { type: 'note', text: `Entries: ${categoryWins.length}    Statements: ${categoryStatements.length}` },
+        ...categoryStatements.map(toStatement),
+      ],
+    };
+  });
+}
+
+function buildTimelineReport(wins: Win[], statements: Statement[]): ReportSection[] {
+  const items: (ReportEntry | ReportStatement)[] = [...wins.map(toEntry), ...statements.map(toStatement)]
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
+
+  const sections: ReportSection[] = [];
+  for (const item of items) {
+    const monthYear = item.date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+    let section = sections[sections.length - 1];
+    if (!section || section.heading !== monthYear) {
+      section = { heading: monthYear, blocks: [] };
+      sections.push(section);
+    }
+    section.blocks.push(item);
+  }
+  return sections;
+}
+
+function buildStatementsReport(statements: Statement[]): ReportSection[] {
+  return orderedCategories([], statements).map(category => ({
+    heading: category,
+    numberStatements: true,
+    blocks: statements.filter(s => s.category === category).map(toStatement),
+  }));
+}
+
+export function buildReport(view: ExportView, wins: Win[], statements: Statement[], user: User | undefined): ReportDocument {
+  let sections: ReportSection[];
+  switch (view) {
+    case 'Category-only':
+      sections = buildCategoryReport(wins, statements);
+      break;
+    case 'Timeline':
+      sections = buildTimelineReport(wins, statements);
+      break;
+    case 'Statements Only':
+      sections = buildStatementsReport(statements);
+      break;
+    case 'Full Report':
+    default:
+      sections = buildFullReport(wins, statements);
+      break;
+  }
+
+  return {
+    title: `Air Force Performance Tracker - ${VIEW_TITLES[view] || VIEW_TITLES['Full Report']}`,
+    member: describeMember(user),
+    generatedAt: new Date(),
+    sections,
+  };
+}
+
+export function formatReportDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { day: '2-digit', month: 'short', year: 'numeric' });
+}
+
+export function formatEntryDates(entry: ReportEntry): string {
+  return entry.endDate
+    ? `${formatReportDate(entry.date)} – ${formatReportDate(entry.endDate)}`
+    : formatReportDate(entry.date);
+}
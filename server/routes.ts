@@ -2,21 +2,69 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth, isAuthenticated } from "./replitAuth";
-import { insertWinSchema, insertStatementSchema, updateUserProfileSchema, performanceCategories } from "@shared/schema";
-import { generateFirstDraft, generateAIFeedback, generateAskBackQuestions, regenerateStatement, enhancedRegenerateStatement, testGPT5Connection } from "./openai";
+import { insertWinSchema, updateWinSchema, insertStatementSchema, updateStatementSchema, updateUserProfileSchema, insertRatingPeriodSchema, updateRatingPeriodSchema, insertAbbreviationSchema, performanceCategories } from "@shared/schema";
+import { requireOwnedWin, requireOwnedStatement, requireOwnedRatingPeriod, ownedWin, ownedStatement, ownedRatingPeriod, ownedSourceWinIds } from "./ownership";
+import { parseIsoDate, validateWinDateRange, winOverlapsRange } from "@shared/winDates";
+import { findOverlappingPeriod, matchesPeriodFilter, validateRatingPeriodRange } from "@shared/ratingPeriods";
+import { matchesTagFilter, tagListSchema } from "@shared/tags";
+import type { TrashContents, WinReference } from "@shared/trash";
+import { withWinTags, withStatementTags } from "./tags";
+import { computeDueDates } from "./dueDates";
+import { buildReport } from "./reports";
+import { renderReportPdf } from "./pdf";
+import { renderReportDocx } from "./docx";
+import { buildExportCsv } from "./csv";
+import { analyzeImport, ImportFormatError } from "./importer";
+import { buildAccountBackup, parseAccountBackup, BackupFormatError } from "./backup";
+import { parseSearchParams, searchStatements, searchWins, SearchParamsError } from "./search";
+import { getTrashRetentionDays } from "./trash";
+import { buildStatementLineage, buildWinLineage } from "./lineage";
+import {
+  createAskBackQuestions,
+  createDraftStatements,
+  createStatementFeedback,
+  GenerationRequestError,
+  parseGenerationRequest,
+  regenerateStatementForUser,
+} from "./generation";
+import { streamGeneration, streamJobEvents } from "./sse";
+import { cancelGenerationJob, enqueueGenerationJob, toJobView } from "./jobs";
+import { askBackAnswersSchema, jobRequestSchema } from "@shared/jobs";
+import { suggestCategories, suggestCategory } from "./categorize";
+import { categoryUpdatesSchema, recategorizeRequestSchema, winTextSchema } from "@shared/categorize";
+import { abbreviationTextSchema, getUserDictionary } from "./abbreviations";
+import { compressStatement, expandStatement, GLOBAL_ABBREVIATIONS, listUndefinedAcronyms, type AbbreviationDictionary } from "@shared/abbreviations";
+import { regenerateStatement, testGPT5Connection } from "./openai";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
   
-  // Startup migration: Add enhanced_steps column if it doesn't exist
+  // Startup migration: Add enhanced_steps column if it doesn't exist, and
+  // backfill accomplishment dates for wins logged before occurred_on existed
   try {
     const { pool } = await import("./db");
     await pool.query(`
       ALTER TABLE refinement_sessions 
       ADD COLUMN IF NOT EXISTS enhanced_steps jsonb;
     `);
-    console.log("✅ Database schema migration completed: enhanced_steps column ensured");
+    await pool.query(`
+      ALTER TABLE wins ADD COLUMN IF NOT EXISTS occurred_on date;
+      ALTER TABLE wins ADD COLUMN IF NOT EXISTS ended_on date;
+      UPDATE wins SET occurred_on = created_at::date WHERE occurred_on IS NULL;
+      ALTER TABLE wins ALTER COLUMN occurred_on SET DEFAULT CURRENT_DATE;
+      ALTER TABLE wins ALTER COLUMN occurred_on SET NOT NULL;
+    `);
+    // Statements written before version history existed get their content as
+    // the first version, so the original text survives their first edit
+    await pool.query(`
+      INSERT INTO statement_versions (statement_id, user_id, content, source, created_at)
+      SELECT s.id, s.user_id, s.content, 'original', coalesce(s.created_at, now())
+      FROM statements s
+      WHERE s.content <> ''
+        AND NOT EXISTS (SELECT 1 FROM statement_versions v WHERE v.statement_id = s.id);
+    `);
+    console.log("✅ Database schema migration completed: enhanced_steps and win date columns ensured, statement history backfilled");
   } catch (error) {
     console.error("⚠️ Database migration warning:", error);
     // Don't fail startup - the column might already exist
@@ -62,6 +110,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // EPB close-out dates derived from the profile's rank (or custom due date)
+  app.get('/api/profile/due-dates', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (!user) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+
+      res.json(computeDueDates(user));
+    } catch (error) {
+      console.error("Error computing due dates:", error);
+      res.status(500).json({ message: "Failed to compute due dates" });
+    }
+  });
+
   app.put('/api/profile', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -80,7 +145,289 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Account backup: everything the member has entered, as a versioned JSON archive
+  app.get('/api/account/backup', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const backup = await buildAccountBackup(userId);
+      const date = new Date().toISOString().split('T')[0];
+
+      res.setHeader('Content-Type', 'application/json');
+      res.setHeader('Content-Disposition', `attachment; filename="af-performance-backup-${date}.json"`);
+      res.send(JSON.stringify(backup, null, 2));
+    } catch (error) {
+      console.error("Error building backup:", error);
+      res.status(500).json({ message: "Failed to build backup" });
+    }
+  });
+
+  // Restores only into an account with no wins, statements or rating periods, so
+  // an archive can never be merged into (or duplicated over) existing data
+  app.post('/api/account/restore', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const backup = parseAccountBackup(req.body);
+
+      const [existingWins, existingStatements, existingPeriods] = await Promise.all([
+        storage.getWinsByUserId(userId),
+        storage.getStatementsByUserId(userId),
+        storage.getRatingPeriodsByUserId(userId),
+      ]);
+      if (existingWins.length > 0 || existingStatements.length > 0 || existingPeriods.length > 0) {
+        return res.status(409).json({ message: "Backups can only be restored into an account with no wins, statements or rating periods" });
+      }
+
+      const summary = await storage.restoreAccount(userId, backup);
+      res.json(summary);
+    } catch (error) {
+      if (error instanceof BackupFormatError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error restoring backup:", error);
+      res.status(500).json({ message: "Failed to restore backup" });
+    }
+  });
+
+  // Rating period (EPB cycle) routes. Wins belong to the period containing their
+  // accomplishment date and statements follow their newest source win, so every
+  // change to the periods re-runs the assignment.
+  app.get('/api/rating-periods', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const periods = await storage.getRatingPeriodsByUserId(userId);
+      res.json(periods);
+    } catch (error) {
+      console.error("Error fetching rating periods:", error);
+      res.status(500).json({ message: "Failed to fetch rating periods" });
+    }
+  });
+
+  app.post('/api/rating-periods', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validatedData = insertRatingPeriodSchema.parse({
+        ...req.body,
+        userId,
+      });
+
+      const rangeError = validateRatingPeriodRange(validatedData);
+      if (rangeError) {
+        return res.status(400).json({ message: rangeError });
+      }
+      const periods = await storage.getRatingPeriodsByUserId(userId);
+      const overlapping = findOverlappingPeriod(periods, validatedData);
+      if (overlapping) {
+        return res.status(409).json({ message: `Overlaps the "${overlapping.name}" rating period` });
+      }
+
+      const period = await storage.createRatingPeriod(validatedData);
+      await storage.assignRatingPeriods(userId);
+      res.json(period);
+    } catch (error) {
+      console.error("Error creating rating period:", error);
+      res.status(400).json({ message: "Failed to create rating period" });
+    }
+  });
+
+  app.put('/api/rating-periods/:id', isAuthenticated, requireOwnedRatingPeriod(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { id } = req.params;
+      const updates = updateRatingPeriodSchema.parse(req.body);
+
+      // Validate the period as it will be saved, not just the fields being changed
+      const current = ownedRatingPeriod(res);
+      const merged = { ...current, ...updates };
+      const rangeError = validateRatingPeriodRange(merged);
+      if (rangeError) {
+        return res.status(400).json({ message: rangeError });
+      }
+      if (updates.status === 'archived' && current.status === 'open') {
+        return res.status(400).json({ message: "Close the rating period before archiving it" });
+      }
+      const periods = await storage.getRatingPeriodsByUserId(userId);
+      const overlapping = findOverlappingPeriod(periods, merged, id);
+      if (overlapping) {
+        return res.status(409).json({ message: `Overlaps the "${overlapping.name}" rating period` });
+      }
+
+      const period = await storage.updateRatingPeriodForUser(id, userId, updates);
+      if (updates.startDate !== undefined || updates.closeOutDate !== undefined) {
+        await storage.assignRatingPeriods(userId);
+      }
+      res.json(period);
+    } catch (error) {
+      console.error("Error updating rating period:", error);
+      res.status(400).json({ message: "Failed to update rating period" });
+    }
+  });
+
+  // Wins and statements in a deleted period are kept and fall back to unassigned
+  app.delete('/api/rating-periods/:id', isAuthenticated, requireOwnedRatingPeriod(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { id } = req.params;
+      await storage.deleteRatingPeriodForUser(id, userId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting rating period:", error);
+      res.status(500).json({ message: "Failed to delete rating period" });
+    }
+  });
+
+  // Tags used across the member's wins and statements, for autocomplete and filters
+  app.get('/api/tags', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const tags = await storage.getTagsByUserId(userId);
+      res.json(tags);
+    } catch (error) {
+      console.error("Error fetching tags:", error);
+      res.status(500).json({ message: "Failed to fetch tags" });
+    }
+  });
+
+  // Abbreviation dictionary
+  app.get('/api/abbreviations', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const dictionary: AbbreviationDictionary = {
+        global: GLOBAL_ABBREVIATIONS,
+        custom: await storage.getAbbreviationsByUserId(userId),
+      };
+      res.json(dictionary);
+    } catch (error) {
+      console.error("Error fetching abbreviations:", error);
+      res.status(500).json({ message: "Failed to fetch abbreviations" });
+    }
+  });
+
+  app.post('/api/abbreviations', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validatedData = insertAbbreviationSchema.parse({
+        ...req.body,
+        userId,
+      });
+
+      const entry = await storage.createAbbreviation(validatedData);
+      if (!entry) {
+        return res.status(409).json({ message: `"${validatedData.term}" is already in your dictionary` });
+      }
+      res.json(entry);
+    } catch (error) {
+      console.error("Error creating abbreviation:", error);
+      res.status(400).json({ message: "Failed to create abbreviation" });
+    }
+  });
+
+  app.delete('/api/abbreviations/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const deleted = await storage.deleteAbbreviationForUser(req.params.id, userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Abbreviation not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting abbreviation:", error);
+      res.status(500).json({ message: "Failed to delete abbreviation" });
+    }
+  });
+
+  // Swap terms for short forms until the text is at most targetLength characters
+  app.post('/api/abbreviations/compress', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { text, targetLength } = abbreviationTextSchema.parse(req.body);
+      res.json(compressStatement(text, await getUserDictionary(userId), targetLength));
+    } catch (error) {
+      console.error("Error compressing statement:", error);
+      res.status(400).json({ message: "Failed to compress statement" });
+    }
+  });
+
+  app.post('/api/abbreviations/expand', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { text } = abbreviationTextSchema.parse(req.body);
+      res.json(expandStatement(text, await getUserDictionary(userId)));
+    } catch (error) {
+      console.error("Error expanding statement:", error);
+      res.status(400).json({ message: "Failed to expand statement" });
+    }
+  });
+
+  // Acronyms used without being spelled out, with the dictionary's expansion
+  app.post('/api/abbreviations/undefined', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { text } = abbreviationTextSchema.parse(req.body);
+      res.json({ acronyms: listUndefinedAcronyms(text, await getUserDictionary(userId)) });
+    } catch (error) {
+      console.error("Error listing undefined acronyms:", error);
+      res.status(400).json({ message: "Failed to check acronyms" });
+    }
+  });
+
+  // Ranked full-text search over the Library with filters and cursor pagination
+  app.get('/api/search', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const params = parseSearchParams(req.query);
+      const page = params.type === 'statements'
+        ? await searchStatements(userId, params)
+        : await searchWins(userId, params);
+      res.json(page);
+    } catch (error) {
+      if (error instanceof SearchParamsError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error searching library:", error);
+      res.status(500).json({ message: "Failed to search library" });
+    }
+  });
+
   // Win routes
+  // Suggested performance area for an entry being written
+  app.post('/api/wins/categorize', isAuthenticated, async (req: any, res) => {
+    try {
+      const win = winTextSchema.parse(req.body);
+      res.json(await suggestCategory(win));
+    } catch (error) {
+      console.error("Error suggesting category:", error);
+      res.status(400).json({ message: "Failed to suggest a category" });
+    }
+  });
+
+  // Suggestions for saved entries, for the Library's bulk review
+  app.post('/api/wins/recategorize', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { winIds } = recategorizeRequestSchema.parse(req.body);
+      const wins = await storage.getWinsForUserByIds(winIds, userId);
+      res.json({ suggestions: await suggestCategories(wins) });
+    } catch (error) {
+      console.error("Error recategorizing wins:", error);
+      res.status(400).json({ message: "Failed to suggest categories" });
+    }
+  });
+
+  app.post('/api/wins/categories', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { updates } = categoryUpdatesSchema.parse(req.body);
+      let updated = 0;
+      for (const { id, category } of updates) {
+        if (await storage.updateWinForUser(id, userId, { category })) updated++;
+      }
+      res.json({ updated });
+    } catch (error) {
+      console.error("Error updating categories:", error);
+      res.status(400).json({ message: "Failed to update categories" });
+    }
+  });
+
   app.post('/api/wins', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -88,9 +435,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         userId,
       });
+
+      const tags = tagListSchema.optional().parse(req.body.tags);
+
+      const dateError = validateWinDateRange(validatedData.occurredOn, validatedData.endedOn);
+      if (dateError) {
+        return res.status(400).json({ message: dateError });
+      }
       
       const win = await storage.createWin(validatedData);
-      res.json(win);
+      if (tags?.length) {
+        await storage.setWinTagsForUser(win.id, userId, tags);
+      }
+      await storage.assignRatingPeriods(userId);
+      const [created] = await withWinTags(userId, [(await storage.getWinForUser(win.id, userId))!]);
+      res.json(created);
     } catch (error) {
       console.error("Error creating win:", error);
       res.status(400).json({ message: "Failed to create win" });
@@ -101,19 +460,85 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const wins = await storage.getWinsByUserId(userId);
-      res.json(wins);
+      res.json(await withWinTags(userId, wins));
     } catch (error) {
       console.error("Error fetching wins:", error);
       res.status(500).json({ message: "Failed to fetch wins" });
     }
   });
 
-  app.put('/api/wins/:id', isAuthenticated, async (req: any, res) => {
+  // Bulk import: the preview validates without writing; the commit re-runs the
+  // same analysis and inserts the accepted rows in a single transaction
+  app.post('/api/wins/import/preview', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
+      const { format, content, mapping } = req.body;
+      if (format !== 'CSV' && format !== 'JSON') {
+        return res.status(400).json({ message: "Format must be CSV or JSON" });
+      }
+
+      const existingWins = await storage.getWinsByUserId(userId);
+      const { preview } = analyzeImport(userId, format, content, existingWins, mapping);
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof ImportFormatError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error previewing import:", error);
+      res.status(500).json({ message: "Failed to preview import" });
+    }
+  });
+
+  app.post('/api/wins/import', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { format, content, mapping, includeDuplicates } = req.body;
+      if (format !== 'CSV' && format !== 'JSON') {
+        return res.status(400).json({ message: "Format must be CSV or JSON" });
+      }
+
+      const existingWins = await storage.getWinsByUserId(userId);
+      const { preview, inserts } = analyzeImport(userId, format, content, existingWins, mapping);
+      const accepted = preview.rows
+        .filter(row => row.status === 'valid' || (includeDuplicates && row.status === 'duplicate'))
+        .map(row => inserts.get(row.row)!);
+
+      const created = await storage.createWinsBulk(accepted);
+      await storage.assignRatingPeriods(userId);
+      res.json({ imported: created.length, skipped: preview.summary.total - created.length });
+    } catch (error) {
+      if (error instanceof ImportFormatError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error importing wins:", error);
+      res.status(500).json({ message: "Failed to import wins" });
+    }
+  });
+
+  app.put('/api/wins/:id', isAuthenticated, requireOwnedWin(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
       const { id } = req.params;
-      const updates = req.body;
+      const updates = updateWinSchema.parse(req.body);
+      const tags = tagListSchema.optional().parse(req.body.tags);
+
+      // Check the range the win will end up with, not just the fields being changed
+      const current = ownedWin(res);
+      const dateError = validateWinDateRange(
+        updates.occurredOn ?? current.occurredOn,
+        updates.endedOn !== undefined ? updates.endedOn : current.endedOn,
+      );
+      if (dateError) {
+        return res.status(400).json({ message: dateError });
+      }
       
-      const win = await storage.updateWin(id, updates);
+      await storage.updateWinForUser(id, userId, updates);
+      if (tags) {
+        await storage.setWinTagsForUser(id, userId, tags);
+      }
+      // A new date can move the win (and statements built from it) to another period
+      await storage.assignRatingPeriods(userId);
+      const [win] = await withWinTags(userId, [(await storage.getWinForUser(id, userId))!]);
       res.json(win);
     } catch (error) {
       console.error("Error updating win:", error);
@@ -121,10 +546,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/wins/:id', isAuthenticated, async (req: any, res) => {
+  // Statements derived from the win, including any in the Trash
+  app.get('/api/wins/:id/lineage', isAuthenticated, requireOwnedWin(), async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
+      const lineage = await buildWinLineage(userId, req.params.id);
+      res.json(lineage);
+    } catch (error) {
+      console.error("Error fetching win lineage:", error);
+      res.status(500).json({ message: "Failed to fetch win lineage" });
+    }
+  });
+
+  // Moves the win to the Trash. A win that statements were built from needs
+  // ?force=true, so the client can warn before the evidence goes missing.
+  app.delete('/api/wins/:id', isAuthenticated, requireOwnedWin(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
       const { id } = req.params;
-      await storage.deleteWin(id);
+
+      if (req.query.force !== 'true') {
+        const referencing = await storage.getStatementsReferencingWin(id, userId);
+        if (referencing.length > 0) {
+          const statements: WinReference[] = referencing.map(({ id, content }) => ({ id, content }));
+          return res.status(409).json({
+            message: `This win is used by ${statements.length} statement${statements.length === 1 ? '' : 's'}`,
+            statements,
+          });
+        }
+      }
+
+      await storage.deleteWinForUser(id, userId);
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting win:", error);
@@ -133,46 +585,112 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Statement routes
+  // Drafts statements from wins: one combining them all ("combine", the default)
+  // or one per win ("separate"), written for an EPB (the default), award
+  // package or decoration. Responds with { statements } in win order.
   app.post('/api/statements/generate', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { winIds, mode } = req.body; // mode: 'combine' | 'separate'
+      const { winIds, mode, audience } = parseGenerationRequest(req.body);
       
-      // Get the wins to transform
-      const wins = [];
-      for (const winId of winIds) {
-        const win = await storage.getWinById(winId);
-        if (win) wins.push(win);
-      }
+      // Get the wins to transform (other users' IDs are silently dropped)
+      const wins = await storage.getWinsForUserByIds(winIds, userId);
       
       if (wins.length === 0) {
         return res.status(400).json({ message: "No valid wins provided" });
       }
       
-      // Generate first draft using AI
-      const generatedContent = await generateFirstDraft(wins, mode);
-      
-      // Create the statement
-      const statement = await storage.createStatement({
+      const statements = await createDraftStatements(userId, wins, mode, audience);
+      res.json({ statements });
+    } catch (error) {
+      if (error instanceof GenerationRequestError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error generating statement:", error);
+      res.status(500).json({ message: "Failed to generate statement" });
+    }
+  });
+
+  // Same as above as Server-Sent Events: draft progress and text as it is
+  // written, then { statements } (shared/generationStream.ts)
+  app.post('/api/statements/generate/stream', isAuthenticated, async (req: any, res) => {
+    const userId = req.user.claims.sub;
+    let request;
+    let wins;
+    try {
+      request = parseGenerationRequest(req.body);
+      wins = await storage.getWinsForUserByIds(request.winIds, userId);
+    } catch (error) {
+      if (error instanceof GenerationRequestError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error generating statement:", error);
+      return res.status(500).json({ message: "Failed to generate statement" });
+    }
+    if (wins.length === 0) {
+      return res.status(400).json({ message: "No valid wins provided" });
+    }
+
+    const { mode, audience } = request;
+    await streamGeneration(res, "Failed to generate statement", async stream => ({
+      statements: await createDraftStatements(userId, wins, mode, audience, stream),
+    }));
+  });
+
+  // Manually authored statements (LibraryScreen "Add Statement")
+  app.post('/api/statements', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { winId, ...body } = req.body;
+
+      let category = body.category;
+      let sourceWinIds = body.sourceWinIds;
+      let tags = tagListSchema.optional().parse(body.tags);
+
+      // Written against a specific win: inherit its category and tags and record
+      // the lineage
+      if (winId) {
+        const win = await storage.getWinForUser(winId, userId);
+        if (!win) {
+          return res.status(404).json({ message: "Win not found" });
+        }
+        category = category ?? win.category;
+        sourceWinIds = [win.id];
+        tags = tags ?? (await storage.getWinTagNames(userId, [win.id])).get(win.id);
+      } else if (Array.isArray(sourceWinIds)) {
+        sourceWinIds = await ownedSourceWinIds(sourceWinIds, userId);
+        if (!sourceWinIds) {
+          return res.status(400).json({ message: "Source wins not found" });
+        }
+      }
+
+      const validatedData = insertStatementSchema.parse({
+        ...body,
+        category,
+        sourceWinIds,
         userId,
-        content: generatedContent,
-        category: wins[0].category, // Use first win's category
-        sourceWinIds: winIds,
-        isCompleted: false,
       });
-      
-      // Create refinement session
-      await storage.createRefinementSession({
+
+      const statement = await storage.createStatement(validatedData);
+
+      await storage.createStatementVersion({
         statementId: statement.id,
         userId,
-        currentStep: 1,
-        isCompleted: false,
+        content: statement.content,
+        source: "manual",
+        aiScore: statement.aiScore,
       });
-      
-      res.json(statement);
+
+      if (tags?.length) {
+        await storage.setStatementTagsForUser(statement.id, userId, tags);
+      }
+
+      await storage.assignRatingPeriods(userId);
+      const [created] = await withStatementTags(userId, [(await storage.getStatementForUser(statement.id, userId))!]);
+      res.json(created);
     } catch (error) {
-      console.error("Error generating statement:", error);
-      res.status(500).json({ message: "Failed to generate statement" });
+      console.error("Error creating statement:", error);
+      res.status(400).json({ message: "Failed to create statement" });
     }
   });
 
@@ -180,22 +698,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const statements = await storage.getStatementsByUserId(userId);
-      res.json(statements);
+      res.json(await withStatementTags(userId, statements));
     } catch (error) {
       console.error("Error fetching statements:", error);
       res.status(500).json({ message: "Failed to fetch statements" });
     }
   });
 
-  app.get('/api/statements/:id', isAuthenticated, async (req: any, res) => {
+  app.get('/api/statements/:id', isAuthenticated, requireOwnedStatement(), async (req: any, res) => {
     try {
-      const { id } = req.params;
-      const statement = await storage.getStatementById(id);
-      
-      if (!statement) {
-        return res.status(404).json({ message: "Statement not found" });
-      }
-      
+      const [statement] = await withStatementTags(req.user.claims.sub, [ownedStatement(res)]);
       res.json(statement);
     } catch (error) {
       console.error("Error fetching statement:", error);
@@ -203,27 +715,210 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Refinement workflow routes
-  app.post('/api/refinement/:statementId/feedback', isAuthenticated, async (req: any, res) => {
+  app.put('/api/statements/:id', isAuthenticated, requireOwnedStatement(), async (req: any, res) => {
     try {
-      const { statementId } = req.params;
-      const statement = await storage.getStatementById(statementId);
-      
-      if (!statement) {
-        return res.status(404).json({ message: "Statement not found" });
+      const userId = req.user.claims.sub;
+      const { id } = req.params;
+
+      const validatedData = updateStatementSchema.parse(req.body);
+      const tags = tagListSchema.optional().parse(req.body.tags);
+      const previous = ownedStatement(res);
+
+      if (validatedData.sourceWinIds) {
+        const sourceWinIds = await ownedSourceWinIds(validatedData.sourceWinIds, userId);
+        if (!sourceWinIds) {
+          return res.status(400).json({ message: "Source wins not found" });
+        }
+        validatedData.sourceWinIds = sourceWinIds;
       }
-      
-      const feedback = await generateAIFeedback(statement.content);
-      
-      // Update refinement session
-      const session = await storage.getRefinementSessionByStatementId(statementId);
-      if (session) {
-        await storage.updateRefinementSession(session.id, {
-          aiFeeds: feedback,
-          currentStep: 2,
+
+      const statement = await storage.updateStatementForUser(id, userId, validatedData);
+
+      if (statement && validatedData.content !== undefined && validatedData.content !== previous.content) {
+        await storage.createStatementVersion({
+          statementId: id,
+          userId,
+          content: statement.content,
+          source: "manual_edit",
         });
       }
-      
+
+      if (tags) {
+        await storage.setStatementTagsForUser(id, userId, tags);
+      }
+
+      // New sources can move the statement into another rating period
+      const sourcesChanged = validatedData.sourceWinIds !== undefined
+        && JSON.stringify(validatedData.sourceWinIds) !== JSON.stringify(previous.sourceWinIds);
+      if (sourcesChanged) {
+        await storage.assignRatingPeriods(userId);
+      }
+
+      const current = sourcesChanged ? await storage.getStatementForUser(id, userId) : statement;
+      const [updated] = await withStatementTags(userId, [current!]);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating statement:", error);
+      res.status(400).json({ message: "Failed to update statement" });
+    }
+  });
+
+  app.delete('/api/statements/:id', isAuthenticated, requireOwnedStatement(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { id } = req.params;
+
+      await storage.deleteStatementForUser(id, userId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting statement:", error);
+      res.status(500).json({ message: "Failed to delete statement" });
+    }
+  });
+
+  // Trash: deleted wins and statements, recoverable until purged
+  app.get('/api/trash', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const [wins, statements] = await Promise.all([
+        storage.getTrashedWinsByUserId(userId),
+        storage.getTrashedStatementsByUserId(userId),
+      ]);
+      const trash: TrashContents = {
+        wins: await withWinTags(userId, wins),
+        statements: await withStatementTags(userId, statements),
+        retentionDays: getTrashRetentionDays(),
+      };
+      res.json(trash);
+    } catch (error) {
+      console.error("Error fetching trash:", error);
+      res.status(500).json({ message: "Failed to fetch trash" });
+    }
+  });
+
+  app.post('/api/trash/wins/:id/restore', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      if (!await storage.restoreWinForUser(req.params.id, userId)) {
+        return res.status(404).json({ message: "Win not found in Trash" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error restoring win:", error);
+      res.status(500).json({ message: "Failed to restore win" });
+    }
+  });
+
+  app.post('/api/trash/statements/:id/restore', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      if (!await storage.restoreStatementForUser(req.params.id, userId)) {
+        return res.status(404).json({ message: "Statement not found in Trash" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error restoring statement:", error);
+      res.status(500).json({ message: "Failed to restore statement" });
+    }
+  });
+
+  app.delete('/api/trash/wins/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      if (!await storage.purgeWinForUser(req.params.id, userId)) {
+        return res.status(404).json({ message: "Win not found in Trash" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error permanently deleting win:", error);
+      res.status(500).json({ message: "Failed to permanently delete win" });
+    }
+  });
+
+  app.delete('/api/trash/statements/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      if (!await storage.purgeStatementForUser(req.params.id, userId)) {
+        return res.status(404).json({ message: "Statement not found in Trash" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error permanently deleting statement:", error);
+      res.status(500).json({ message: "Failed to permanently delete statement" });
+    }
+  });
+
+  app.delete('/api/trash', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const emptied = await storage.emptyTrashForUser(userId);
+      res.json(emptied);
+    } catch (error) {
+      console.error("Error emptying trash:", error);
+      res.status(500).json({ message: "Failed to empty trash" });
+    }
+  });
+
+  // Source wins of the statement, resolving ones in the Trash or deleted for good
+  app.get('/api/statements/:id/lineage', isAuthenticated, requireOwnedStatement(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const lineage = await buildStatementLineage(userId, ownedStatement(res));
+      res.json(lineage);
+    } catch (error) {
+      console.error("Error fetching statement lineage:", error);
+      res.status(500).json({ message: "Failed to fetch statement lineage" });
+    }
+  });
+
+  // Statement version history
+  app.get('/api/statements/:id/versions', isAuthenticated, requireOwnedStatement(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { id } = req.params;
+      const versions = await storage.getStatementVersionsForUser(id, userId);
+      res.json(versions);
+    } catch (error) {
+      console.error("Error fetching statement versions:", error);
+      res.status(500).json({ message: "Failed to fetch statement versions" });
+    }
+  });
+
+  app.post('/api/statements/:id/versions/:versionId/restore', isAuthenticated, requireOwnedStatement(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { id, versionId } = req.params;
+
+      const version = await storage.getStatementVersionForUser(versionId, userId);
+      if (!version || version.statementId !== id) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+
+      const statement = await storage.updateStatementForUser(id, userId, {
+        content: version.content,
+        aiScore: version.aiScore,
+      });
+
+      await storage.createStatementVersion({
+        statementId: id,
+        userId,
+        content: version.content,
+        source: "restore",
+        aiScore: version.aiScore,
+      });
+
+      res.json(statement);
+    } catch (error) {
+      console.error("Error restoring statement version:", error);
+      res.status(500).json({ message: "Failed to restore statement version" });
+    }
+  });
+
+  // Refinement workflow routes
+  app.post('/api/refinement/:statementId/feedback', isAuthenticated, requireOwnedStatement('statementId'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const feedback = await createStatementFeedback(userId, ownedStatement(res));
       res.json(feedback);
     } catch (error) {
       console.error("Error generating feedback:", error);
@@ -231,82 +926,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/refinement/:statementId/askbacks', isAuthenticated, async (req: any, res) => {
+  app.post('/api/refinement/:statementId/feedback/stream', isAuthenticated, requireOwnedStatement('statementId'), async (req: any, res) => {
+    const userId = req.user.claims.sub;
+    const statement = ownedStatement(res);
+    await streamGeneration(res, "Failed to generate feedback", stream => createStatementFeedback(userId, statement, stream));
+  });
+
+  app.post('/api/refinement/:statementId/askbacks', isAuthenticated, requireOwnedStatement('statementId'), async (req: any, res) => {
     try {
-      const { statementId } = req.params;
-      const statement = await storage.getStatementById(statementId);
-      
-      if (!statement) {
-        return res.status(404).json({ message: "Statement not found" });
-      }
-      
-      const askBacks = await generateAskBackQuestions(statement.content);
-      
-      res.json(askBacks);
+      const userId = req.user.claims.sub;
+      res.json(await createAskBackQuestions(userId, ownedStatement(res)));
     } catch (error) {
       console.error("Error generating ask-backs:", error);
       res.status(500).json({ message: "Failed to generate ask-backs" });
     }
   });
 
-  app.post('/api/refinement/:statementId/regenerate', isAuthenticated, async (req: any, res) => {
+  app.post('/api/refinement/:statementId/regenerate', isAuthenticated, requireOwnedStatement('statementId'), async (req: any, res) => {
     try {
-      const { statementId } = req.params;
-      const { askBackAnswers } = req.body;
-      
-      const statement = await storage.getStatementById(statementId);
-      if (!statement) {
-        return res.status(404).json({ message: "Statement not found" });
-      }
-      
-      // Enhanced two-stage regeneration with AI feedback loop
-      const enhancedResult = await enhancedRegenerateStatement(statement.content, askBackAnswers);
-      
-      // Update statement with final result
-      await storage.updateStatement(statementId, {
-        content: enhancedResult.finalResult,
-      });
-      
-      // Update refinement session with all intermediate steps
-      const session = await storage.getRefinementSessionByStatementId(statementId);
-      if (session) {
-        await storage.updateRefinementSession(session.id, {
-          askBackAnswers,
-          enhancedSteps: {
-            stage1Result: enhancedResult.stage1Result,
-            aiFeedback: enhancedResult.aiFeedback,
-            finalResult: enhancedResult.finalResult
-          },
-          currentStep: 4,
-        });
+      const userId = req.user.claims.sub;
+      const parsed = askBackAnswersSchema.safeParse(req.body.askBackAnswers);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid ask-back answers" });
       }
-      
-      res.json({ 
-        content: enhancedResult.finalResult,
-        intermediateSteps: {
-          stage1Result: enhancedResult.stage1Result,
-          aiFeedback: enhancedResult.aiFeedback,
-          finalResult: enhancedResult.finalResult
-        }
-      });
+      res.json(await regenerateStatementForUser(userId, ownedStatement(res), parsed.data));
     } catch (error) {
       console.error("Error in enhanced regeneration:", error);
       res.status(500).json({ message: "Failed to regenerate statement" });
     }
   });
 
+  // Enhanced regeneration as Server-Sent Events: each stage (stage1, feedback,
+  // final) as it finishes with the rewrites' text as it is written, then the
+  // same result as above
+  app.post('/api/refinement/:statementId/regenerate/stream', isAuthenticated, requireOwnedStatement('statementId'), async (req: any, res) => {
+    const userId = req.user.claims.sub;
+    const parsed = askBackAnswersSchema.safeParse(req.body.askBackAnswers);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid ask-back answers" });
+    }
+    const statement = ownedStatement(res);
+    await streamGeneration(res, "Failed to regenerate statement", stream => regenerateStatementForUser(userId, statement, parsed.data, stream));
+  });
 
-  app.post('/api/refinement/:statementId/complete', isAuthenticated, async (req: any, res) => {
+  app.post('/api/refinement/:statementId/complete', isAuthenticated, requireOwnedStatement('statementId'), async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
       const { statementId } = req.params;
       
       // Mark statement as completed
-      await storage.updateStatement(statementId, {
+      await storage.updateStatementForUser(statementId, userId, {
         isCompleted: true,
       });
       
       // Mark refinement session as completed
-      const session = await storage.getRefinementSessionByStatementId(statementId);
+      const session = await storage.getRefinementSessionForUser(statementId, userId);
       if (session) {
         await storage.updateRefinementSession(session.id, {
           currentStep: 5,
@@ -321,130 +995,94 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Helper functions for export generation
-  function generateFullReport(wins: any[], statements: any[]) {
-    let content = `AIR FORCE PERFORMANCE TRACKER - FULL REPORT\n\n`;
-    content += `Generated: ${new Date().toLocaleDateString()}\n\n`;
-    
-    content += `PERFORMANCE ENTRIES (${wins.length}):\n`;
-    content += `${'='.repeat(50)}\n\n`;
-    
-    wins.forEach((win, index) => {
-      content += `${index + 1}. ${win.category}\n`;
-      content += `Action: ${win.action}\n`;
-      content += `Impact: ${win.impact}\n`;
-      content += `Result: ${win.result}\n`;
-      content += `Date: ${new Date(win.createdAt).toLocaleDateString()}\n\n`;
-    });
-    
-    content += `\nREFINED STATEMENTS (${statements.length}):\n`;
-    content += `${'='.repeat(50)}\n\n`;
-    
-    statements.forEach((statement, index) => {
-      content += `${index + 1}. ${statement.category}\n`;
-      content += `${statement.content}\n`;
-      content += `Status: ${statement.isCompleted ? 'Completed' : 'Draft'}\n`;
-      content += `Date: ${new Date(statement.createdAt).toLocaleDateString()}\n\n`;
-    });
-    
-    return content;
-  }
-
-  function generateCategoryReport(wins: any[], statements: any[]) {
-    let content = `AIR FORCE PERFORMANCE TRACKER - CATEGORY SUMMARY\n\n`;
-    content += `Generated: ${new Date().toLocaleDateString()}\n\n`;
-    
-    const categories = Array.from(new Set([...wins.map(w => w.category), ...statements.map(s => s.category)]));
-    
-    categories.forEach(category => {
-      content += `${category.toUpperCase()}\n`;
-      content += `${'='.repeat(category.length)}\n\n`;
-      
-      const categoryWins = wins.filter(w => w.category === category);
-      const categoryStatements = statements.filter(s => s.category === category);
-      
-      content += `Entries: ${categoryWins.length}\n`;
-      content += `Statements: ${categoryStatements.length}\n\n`;
-      
-      categoryStatements.forEach(statement => {
-        content += `• ${statement.content}\n`;
-      });
-      
-      content += `\n`;
-    });
-    
-    return content;
-  }
+  // Generation job routes (shared/jobs.ts): the same work as the refinement
+  // and generate routes, run by the background worker with retries
+  app.post('/api/jobs', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const request = jobRequestSchema.parse(req.body);
 
-  function generateTimelineReport(wins: any[], statements: any[]) {
-    let content = `AIR FORCE PERFORMANCE TRACKER - TIMELINE VIEW\n\n`;
-    content += `Generated: ${new Date().toLocaleDateString()}\n\n`;
-    
-    const allItems = [
-      ...wins.map(w => ({ ...w, type: 'entry', date: new Date(w.createdAt) })),
-      ...statements.map(s => ({ ...s, type: 'statement', date: new Date(s.createdAt) }))
-    ].sort((a, b) => b.date.getTime() - a.date.getTime());
-    
-    let currentMonth = '';
-    
-    allItems.forEach(item => {
-      const monthYear = item.date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
-      
-      if (monthYear !== currentMonth) {
-        currentMonth = monthYear;
-        content += `\n${monthYear}\n`;
-        content += `${'-'.repeat(monthYear.length)}\n\n`;
+      if (request.kind === 'generate') {
+        const wins = await storage.getWinsForUserByIds(request.winIds, userId);
+        if (wins.length === 0) {
+          return res.status(400).json({ message: "No valid wins provided" });
+        }
+      } else if (!(await storage.getStatementForUser(request.statementId, userId))) {
+        return res.status(404).json({ message: "Statement not found" });
       }
-      
-      if (item.type === 'entry') {
-        content += `${item.date.toLocaleDateString()} - ENTRY: ${item.category}\n`;
-        content += `  ${item.action} - ${item.impact} - ${item.result}\n\n`;
-      } else {
-        content += `${item.date.toLocaleDateString()} - STATEMENT: ${item.category}\n`;
-        content += `  ${item.content}\n\n`;
+
+      const job = await enqueueGenerationJob(userId, request);
+      res.status(202).location(`/api/jobs/${job.id}`).json(toJobView(job));
+    } catch (error) {
+      console.error("Error queueing generation job:", error);
+      res.status(400).json({ message: "Failed to queue generation job" });
+    }
+  });
+
+  app.get('/api/jobs/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const job = await storage.getGenerationJobForUser(req.params.id, userId);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
       }
-    });
-    
-    return content;
-  }
+      res.json(toJobView(job));
+    } catch (error) {
+      console.error("Error fetching generation job:", error);
+      res.status(500).json({ message: "Failed to fetch generation job" });
+    }
+  });
 
-  function generateStatementsReport(statements: any[]) {
-    let content = `AIR FORCE PERFORMANCE TRACKER - STATEMENTS ONLY\n\n`;
-    content += `Generated: ${new Date().toLocaleDateString()}\n\n`;
-    
-    statements.forEach((statement, index) => {
-      content += `${index + 1}. [${statement.category}] ${statement.content}\n\n`;
-    });
-    
-    return content;
-  }
+  app.get('/api/jobs/:id/events', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const job = await storage.getGenerationJobForUser(req.params.id, userId);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      streamJobEvents(res, job);
+    } catch (error) {
+      console.error("Error following generation job:", error);
+      res.status(500).json({ message: "Failed to follow generation job" });
+    }
+  });
 
-  function generateCSVContent(wins: any[], statements: any[]) {
-    let csv = 'Type,Category,Content,Date,Status\n';
-    
-    wins.forEach(win => {
-      const content = `"${win.action} - ${win.impact} - ${win.result}"`;
-      csv += `Entry,"${win.category}",${content},"${new Date(win.createdAt).toLocaleDateString()}","Active"\n`;
-    });
-    
-    statements.forEach(statement => {
-      const content = `"${statement.content}"`;
-      const status = statement.isCompleted ? 'Completed' : 'Draft';
-      csv += `Statement,"${statement.category}",${content},"${new Date(statement.createdAt).toLocaleDateString()}","${status}"\n`;
-    });
-    
-    return csv;
-  }
+  app.delete('/api/jobs/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const job = await cancelGenerationJob(req.params.id, userId);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found or already finished" });
+      }
+      res.json(toJobView(job));
+    } catch (error) {
+      console.error("Error cancelling generation job:", error);
+      res.status(500).json({ message: "Failed to cancel generation job" });
+    }
+  });
 
   // Export routes
   app.post('/api/export', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { format, view, categories, dateRange } = req.body;
+      const { format, view, categories, dateRange, ratingPeriod, tags, csvBom } = req.body;
 
       // Fetch user data based on filters
-      let wins = await storage.getWinsByUserId(userId);
-      let statements = await storage.getStatementsByUserId(userId);
+      let wins = await withWinTags(userId, await storage.getWinsByUserId(userId));
+      let statements = await withStatementTags(userId, await storage.getStatementsByUserId(userId));
+
+      // Apply rating period filter ('all', 'active' or a period ID)
+      if (ratingPeriod && ratingPeriod !== 'all') {
+        const periods = await storage.getRatingPeriodsByUserId(userId);
+        wins = wins.filter(win => matchesPeriodFilter(win, ratingPeriod, periods));
+        statements = statements.filter(statement => matchesPeriodFilter(statement, ratingPeriod, periods));
+      }
+
+      // Apply tag filter: anything carrying at least one of the selected tags
+      if (Array.isArray(tags) && tags.length > 0) {
+        wins = wins.filter(win => matchesTagFilter(win.tags, tags));
+        statements = statements.filter(statement => matchesTagFilter(statement.tags, tags));
+      }
 
       // Apply category filter
       if (categories && categories.length > 0) {
@@ -455,45 +1093,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Apply date filter
       if (dateRange) {
         const { start, end } = dateRange;
-        if (start) {
-          const startDate = new Date(start);
-          wins = wins.filter((win: any) => new Date(win.createdAt) >= startDate);
+        // Both bounds are calendar days ("YYYY-MM-DD") and inclusive
+        const startDate = start ? parseIsoDate(String(start).slice(0, 10)) : null;
+        const endDate = end ? parseIsoDate(String(end).slice(0, 10)) : null;
+        // Wins are matched on their accomplishment dates; a multi-week effort is
+        // included when any part of it falls inside the range
+        wins = wins.filter(win => winOverlapsRange(win, startDate, endDate));
+        if (startDate) {
           statements = statements.filter((statement: any) => new Date(statement.createdAt) >= startDate);
         }
-        if (end) {
-          const endDate = new Date(end);
-          wins = wins.filter((win: any) => new Date(win.createdAt) <= endDate);
-          statements = statements.filter((statement: any) => new Date(statement.createdAt) <= endDate);
+        if (endDate) {
+          const dayAfterEnd = new Date(endDate.getFullYear(), endDate.getMonth(), endDate.getDate() + 1);
+          statements = statements.filter((statement: any) => new Date(statement.createdAt) < dayAfterEnd);
         }
       }
 
-      // Generate content based on view
-      let exportContent = '';
-      if (view === 'Full Report') {
-        exportContent = generateFullReport(wins, statements);
-      } else if (view === 'Category-only') {
-        exportContent = generateCategoryReport(wins, statements);
-      } else if (view === 'Timeline') {
-        exportContent = generateTimelineReport(wins, statements);
-      } else if (view === 'Statements Only') {
-        exportContent = generateStatementsReport(statements);
-      }
-
       // Set headers based on format
       if (format === 'PDF') {
+        const user = await storage.getUser(userId);
+        const pdf = await renderReportPdf(buildReport(view, wins, statements, user));
         res.setHeader('Content-Type', 'application/pdf');
         res.setHeader('Content-Disposition', 'attachment; filename="af-performance.pdf"');
-        // For now, send as text (in real app, would generate actual PDF)
-        res.send(`PDF Export:\n\n${exportContent}`);
+        res.send(pdf);
       } else if (format === 'DOCX') {
+        const user = await storage.getUser(userId);
+        const docx = await renderReportDocx(buildReport(view, wins, statements, user));
         res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
         res.setHeader('Content-Disposition', 'attachment; filename="af-performance.docx"');
-        // For now, send as text (in real app, would generate actual DOCX)
-        res.send(`DOCX Export:\n\n${exportContent}`);
+        res.send(docx);
       } else if (format === 'CSV') {
-        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
         res.setHeader('Content-Disposition', 'attachment; filename="af-performance.csv"');
-        res.send(generateCSVContent(wins, statements));
+        res.send(buildExportCsv(wins, statements, { bom: !!csvBom }));
       } else {
         res.status(400).json({ message: "Invalid format" });
       }
@@ -504,14 +1135,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/export/statement/:id', isAuthenticated, async (req: any, res) => {
+  app.get('/api/export/statement/:id', isAuthenticated, requireOwnedStatement(), async (req: any, res) => {
     try {
       const { id } = req.params;
-      const statement = await storage.getStatementById(id);
-      
-      if (!statement) {
-        return res.status(404).json({ message: "Statement not found" });
-      }
+      const statement = ownedStatement(res);
       
       res.setHeader('Content-Type', 'text/plain');
       res.setHeader('Content-Disposition', `attachment; filename="statement-${id}.txt"`);
@@ -0,0 +1,308 @@
+import { and, desc, eq, isNull, sql, type SQL } from "drizzle-orm";
+import { statements, wins, type Statement, type Win } from "@shared/schema";
+import { isIsoDate } from "@shared/winDates";
+import { tagKey, type Tagged } from "@shared/tags";
+import type { RatingPeriodFilter } from "@shared/ratingPeriods";
+import { winUsageFilters, type WinUsageFilter, type WithUsage } from "@shared/lineage";
+import {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  searchTypes,
+  type SearchPage,
+  type SearchType,
+  type SnippetPart,
+} from "@shared/search";
+import { db } from "./db";
+import { withStatementTags, withWinTags } from "./tags";
+
+// Library search. Matching uses Postgres full-text search over the AIR fields
+// (wins) or the content (statements), with every query word treated as a
+// prefix so results update while the member is still typing. Pages are keyset
+// paginated on (rank, id) when searching and (date, id) otherwise, so inserts
+// between requests never shift or repeat rows.
+
+// Raised for query strings the endpoint can't act on
+export class SearchParamsError extends Error {}
+
+export interface SearchParams {
+  type: SearchType;
+  q: string;
+  category?: string;
+  // Inclusive "YYYY-MM-DD" bounds: accomplishment dates for wins, creation date
+  // for statements
+  from?: string;
+  to?: string;
+  // Wins only: whether any statement outside the Trash was built from the win
+  usage: WinUsageFilter;
+  // Statements only
+  completed?: boolean;
+  tags: string[];
+  ratingPeriod: RatingPeriodFilter;
+  cursor?: SearchCursor;
+  limit: number;
+}
+
+interface SearchCursor {
+  key: string;
+  id: string;
+}
+
+const MAX_QUERY_TERMS = 12;
+
+// ts_headline markers; control characters never appear in typed text
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// Must match the expression indexes declared on the tables
+const winDocument = sql`to_tsvector('english', ${wins.action} || ' ' || ${wins.impact} || ' ' || ${wins.result})`;
+const statementDocument = sql`to_tsvector('english', ${statements.content})`;
+
+function single(value: unknown): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  return typeof first === 'string' && first.trim() !== '' ? first.trim() : undefined;
+}
+
+function decodeCursor(value: string): SearchCursor {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof parsed?.key === 'string' && typeof parsed?.id === 'string') {
+      return { key: parsed.key, id: parsed.id };
+    }
+  } catch {
+    // fall through
+  }
+  throw new SearchParamsError('Invalid cursor');
+}
+
+const RANK_KEY_PATTERN = /^\d+(\.\d+)?(e-?\d+)?$/i;
+const TIMESTAMP_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(\.\d{1,6})?$/;
+
+// The key is cast to the sort column's type, so it has to fit the sort in use:
+// a rank when there is a query, else a win's date or a statement's timestamp.
+// A cursor from another query or a tampered one is rejected here rather than
+// failing in Postgres.
+function checkCursorKey(cursor: SearchCursor, type: SearchType, q: string): SearchCursor {
+  const { key } = cursor;
+  const valid = toPrefixQuery(q)
+    ? RANK_KEY_PATTERN.test(key) && Number.isFinite(Number(key))
+    : type === 'wins'
+      ? isIsoDate(key)
+      : TIMESTAMP_KEY_PATTERN.test(key) && !Number.isNaN(Date.parse(key.replace(' ', 'T')));
+  if (!valid) throw new SearchParamsError('Invalid cursor');
+  return cursor;
+}
+
+function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+}
+
+export function parseSearchParams(query: Record<string, unknown>): SearchParams {
+  const type = single(query.type) ?? 'wins';
+  if (!searchTypes.includes(type as SearchType)) {
+    throw new SearchParamsError('type must be "wins" or "statements"');
+  }
+
+  const from = single(query.from);
+  const to = single(query.to);
+  for (const [name, value] of [['from', from], ['to', to]] as const) {
+    if (value && !isIsoDate(value)) {
+      throw new SearchParamsError(`${name} must be a YYYY-MM-DD date`);
+    }
+  }
+
+  const completed = single(query.completed);
+  if (completed && completed !== 'true' && completed !== 'false') {
+    throw new SearchParamsError('completed must be "true" or "false"');
+  }
+
+  const usage = single(query.usage) ?? 'all';
+  if (!winUsageFilters.includes(usage as WinUsageFilter)) {
+    throw new SearchParamsError('usage must be "all", "used" or "unused"');
+  }
+
+  const rawLimit = single(query.limit);
+  const limit = rawLimit ? Number(rawLimit) : DEFAULT_SEARCH_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+    throw new SearchParamsError(`limit must be between 1 and ${MAX_SEARCH_LIMIT}`);
+  }
+
+  const rawTags = Array.isArray(query.tags) ? query.tags : query.tags ? [query.tags] : [];
+  const cursor = single(query.cursor);
+  const q = single(query.q) ?? '';
+
+  return {
+    type: type as SearchType,
+    q,
+    category: single(query.category),
+    from,
+    to,
+    usage: usage as WinUsageFilter,
+    completed: completed ? completed === 'true' : undefined,
+    tags: rawTags.filter((tag): tag is string => typeof tag === 'string' && tag.trim() !== ''),
+    ratingPeriod: single(query.ratingPeriod) ?? 'all',
+    cursor: cursor ? checkCursorKey(decodeCursor(cursor), type as SearchType, q) : undefined,
+    limit,
+  };
+}
+
+// "night maint" -> "night:* & maint:*"; punctuation is dropped so user input
+// can never produce tsquery syntax errors
+function toPrefixQuery(q: string): string | null {
+  const terms = q.split(/[^A-Za-z0-9\u00C0-\u024F]+/).filter(Boolean).slice(0, MAX_QUERY_TERMS);
+  return terms.length > 0 ? terms.map(term => `${term.toLowerCase()}:*`).join(' & ') : null;
+}
+
+export function parseHeadline(headline: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  let rest = headline;
+  while (rest.length > 0) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    if (start === -1) {
+      parts.push({ text: rest, highlight: false });
+      break;
+    }
+    if (start > 0) parts.push({ text: rest.slice(0, start), highlight: false });
+    const stop = rest.indexOf(HIGHLIGHT_STOP, start);
+    const end = stop === -1 ? rest.length : stop;
+    parts.push({ text: rest.slice(start + 1, end), highlight: true });
+    rest = stop === -1 ? '' : rest.slice(stop + 1);
+  }
+  return parts;
+}
+
+function tagCondition(joinTable: 'win_tags' | 'statement_tags', joinColumn: 'win_id' | 'statement_id', id: SQL | typeof wins.id | typeof statements.id, names: string[]): SQL | undefined {
+  if (names.length === 0) return undefined;
+  const keys = sql.join(names.map(name => sql`${tagKey(name)}`), sql`, `);
+  return sql`EXISTS (
+    SELECT 1 FROM ${sql.raw(joinTable)} link
+    JOIN tags ON tags.id = link.tag_id
+    WHERE link.${sql.raw(joinColumn)} = ${id} AND lower(tags.name) IN (${keys})
+  )`;
+}
+
+function periodCondition(column: typeof wins.ratingPeriodId | typeof statements.ratingPeriodId, filter: RatingPeriodFilter): SQL | undefined {
+  if (filter === 'all') return undefined;
+  if (filter === 'active') {
+    return sql`NOT EXISTS (SELECT 1 FROM rating_periods WHERE rating_periods.id = ${column} AND rating_periods.status = 'archived')`;
+  }
+  return eq(column, filter);
+}
+
+export async function searchWins(userId: string, params: SearchParams): Promise<SearchPage<WithUsage<Tagged<Win>>>> {
+  const prefixQuery = toPrefixQuery(params.q);
+  const tsQuery = sql`to_tsquery('english', ${prefixQuery})`;
+  const rank = sql`ts_rank_cd(${winDocument}, ${tsQuery})`;
+  const statementCount = sql<number>`(
+    SELECT count(*) FROM statements s
+    WHERE s.user_id = ${wins.userId} AND s.deleted_at IS NULL AND s.source_win_ids @> ARRAY[${wins.id}]::text[]
+  )::int`;
+
+  const filters = and(
+    eq(wins.userId, userId),
+    isNull(wins.deletedAt),
+    prefixQuery ? sql`${winDocument} @@ ${tsQuery}` : undefined,
+    params.category ? eq(wins.category, params.category) : undefined,
+    // Multi-day wins match when any part of their span is in range
+    params.from ? sql`coalesce(${wins.endedOn}, ${wins.occurredOn}) >= ${params.from}::date` : undefined,
+    params.to ? sql`${wins.occurredOn} <= ${params.to}::date` : undefined,
+    tagCondition('win_tags', 'win_id', wins.id, params.tags),
+    periodCondition(wins.ratingPeriodId, params.ratingPeriod),
+    params.usage === 'used' ? sql`${statementCount} > 0` : params.usage === 'unused' ? sql`${statementCount} = 0` : undefined,
+  );
+
+  const sortKey = prefixQuery ? sql<string>`${rank}::text` : sql<string>`${wins.occurredOn}::text`;
+  const cursorCondition = params.cursor
+    ? prefixQuery
+      ? sql`(${rank}, ${wins.id}) < (${params.cursor.key}::real, ${params.cursor.id})`
+      : sql`(${wins.occurredOn}, ${wins.id}) < (${params.cursor.key}::date, ${params.cursor.id})`
+    : undefined;
+
+  const [rows, [{ total }]] = await Promise.all([
+    db
+      .select({
+        win: wins,
+        statementCount,
+        sortKey,
+        rank: prefixQuery ? sql<number>`${rank}` : sql<null>`NULL`,
+        headline: prefixQuery
+          ? sql<string>`ts_headline('english', ${wins.action} || ' — ' || ${wins.impact} || ' — ' || ${wins.result}, ${tsQuery}, ${HEADLINE_OPTIONS})`
+          : sql<null>`NULL`,
+      })
+      .from(wins)
+      .where(and(filters, cursorCondition))
+      .orderBy(...(prefixQuery ? [desc(rank), desc(wins.id)] : [desc(wins.occurredOn), desc(wins.id)]))
+      .limit(params.limit + 1),
+    db.select({ total: sql<number>`count(*)::int` }).from(wins).where(filters),
+  ]);
+
+  const page = rows.slice(0, params.limit);
+  const items = await withWinTags(userId, page.map(row => row.win));
+  const last = page[page.length - 1];
+
+  return {
+    hits: page.map((row, index) => ({
+      item: { ...items[index], statementCount: row.statementCount },
+      snippet: row.headline ? parseHeadline(row.headline) : null,
+      rank: row.rank,
+    })),
+    total,
+    nextCursor: rows.length > params.limit ? encodeCursor({ key: last.sortKey, id: last.win.id }) : null,
+  };
+}
+
+export async function searchStatements(userId: string, params: SearchParams): Promise<SearchPage<Tagged<Statement>>> {
+  const prefixQuery = toPrefixQuery(params.q);
+  const tsQuery = sql`to_tsquery('english', ${prefixQuery})`;
+  const rank = sql`ts_rank_cd(${statementDocument}, ${tsQuery})`;
+
+  const filters = and(
+    eq(statements.userId, userId),
+    isNull(statements.deletedAt),
+    prefixQuery ? sql`${statementDocument} @@ ${tsQuery}` : undefined,
+    params.category ? eq(statements.category, params.category) : undefined,
+    params.from ? sql`${statements.createdAt}::date >= ${params.from}::date` : undefined,
+    params.to ? sql`${statements.createdAt}::date <= ${params.to}::date` : undefined,
+    params.completed !== undefined ? sql`coalesce(${statements.isCompleted}, false) = ${params.completed}` : undefined,
+    tagCondition('statement_tags', 'statement_id', statements.id, params.tags),
+    periodCondition(statements.ratingPeriodId, params.ratingPeriod),
+  );
+
+  const sortKey = prefixQuery ? sql<string>`${rank}::text` : sql<string>`${statements.createdAt}::text`;
+  const cursorCondition = params.cursor
+    ? prefixQuery
+      ? sql`(${rank}, ${statements.id}) < (${params.cursor.key}::real, ${params.cursor.id})`
+      : sql`(${statements.createdAt}, ${statements.id}) < (${params.cursor.key}::timestamp, ${params.cursor.id})`
+    : undefined;
+
+  const [rows, [{ total }]] = await Promise.all([
+    db
+      .select({
+        statement: statements,
+        sortKey,
+        rank: prefixQuery ? sql<number>`${rank}` : sql<null>`NULL`,
+        headline: prefixQuery
+          ? sql<string>`ts_headline('english', ${statements.content}, ${tsQuery}, ${HEADLINE_OPTIONS})`
+          : sql<null>`NULL`,
+      })
+      .from(statements)
+      .where(and(filters, cursorCondition))
+      .orderBy(...(prefixQuery ? [desc(rank), desc(statements.id)] : [desc(statements.createdAt), desc(statements.id)]))
+      .limit(params.limit + 1),
+    db.select({ total: sql<number>`count(*)::int` }).from(statements).where(filters),
+  ]);
+
+  const page = rows.slice(0, params.limit);
+  const items = await withStatementTags(userId, page.map(row => row.statement));
+  const last = page[page.length - 1];
+
+  return {
+    hits: page.map((row, index) => ({
+      item: items[index],
+      snippet: row.headline ? parseHeadline(row.headline) : null,
+      rank: row.rank,
+    })),
+    total,
+    nextCursor: rows.length > params.limit ? encodeCursor({ key: last.sortKey, id: last.statement.id }) : null,
+  };
+}
@@ -0,0 +1,128 @@
+import type { Response } from "express";
+import type { GenerationJob } from "@shared/schema";
+import type { GenerationProgressEvent, GenerationStreamEventName } from "@shared/generationStream";
+import type { JobStageProgress } from "@shared/jobs";
+import type { GenerationStreamOptions } from "./openai";
+import { subscribeToJob } from "./jobs";
+import { storage } from "./storage";
+
+// Comment lines keep proxies from closing a connection while a model call runs
+const HEARTBEAT_MS = 15_000;
+// How often a followed job is re-read, for jobs run by another process and
+// for a finish that happened before the subscription
+const JOB_POLL_MS = 2000;
+
+export function sendEvent(res: Response, event: GenerationStreamEventName, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Starts a Server-Sent Events response; call the returned function before
+// ending it to stop the heartbeat
+export function openEventStream(res: Response): () => void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_MS);
+  return () => clearInterval(heartbeat);
+}
+
+// Runs a generation as a Server-Sent Events response (see
+// shared/generationStream.ts). Validate the request before calling this; once
+// the stream is open every failure is reported as an error event. The client
+// closing the connection aborts the run.
+export async function streamGeneration(res: Response, errorMessage: string, run: (stream: GenerationStreamOptions) => Promise<unknown>): Promise<void> {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  const stopHeartbeat = openEventStream(res);
+
+  try {
+    const result = await run({
+      signal: controller.signal,
+      onProgress: event => sendEvent(res, 'progress', event),
+    });
+    sendEvent(res, 'result', result);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      console.log(`Generation cancelled by the client (${errorMessage})`);
+    } else {
+      console.error(`${errorMessage}:`, error);
+      sendEvent(res, 'error', { message: errorMessage });
+    }
+  } finally {
+    stopHeartbeat();
+    res.end();
+  }
+}
+
+// Follows a generation job as Server-Sent Events: the stages recorded so far,
+// live progress while it runs, then its result or error (straight away for a
+// finished job). Closing the connection leaves the job running, so the client
+// can reconnect to the same job.
+export function streamJobEvents(res: Response, job: GenerationJob): void {
+  const stopHeartbeat = openEventStream(res);
+  // Last status and text sent per stage, live or polled, so a poll only sends
+  // what changed
+  const sentStages = new Map<string, string>();
+  const stageKey = (stage: JobStageProgress) => `${stage.status}:${stage.text ?? ''}`;
+  let finished = false;
+  let poll: NodeJS.Timeout | undefined;
+
+  const finish = () => {
+    if (finished) return;
+    finished = true;
+    unsubscribe();
+    clearInterval(poll);
+    stopHeartbeat();
+    res.end();
+  };
+
+  const report = (current: GenerationJob) => {
+    for (const stage of (current.progress as JobStageProgress[] | null) ?? []) {
+      const key = stageKey(stage);
+      if (sentStages.get(stage.stage) === key) continue;
+      sentStages.set(stage.stage, key);
+      const event: GenerationProgressEvent = { type: 'stage', ...stage };
+      sendEvent(res, 'progress', event);
+    }
+    if (current.status === 'succeeded') {
+      sendEvent(res, 'result', current.result);
+      finish();
+    } else if (current.status === 'failed' || current.status === 'cancelled') {
+      sendEvent(res, 'error', { message: current.error ?? "Generation cancelled" });
+      finish();
+    }
+  };
+
+  const unsubscribe = subscribeToJob(job.id, (event, data) => {
+    const progress = data as GenerationProgressEvent;
+    if (event === 'progress' && progress.type === 'stage') {
+      sentStages.set(progress.stage, stageKey(progress));
+    } else if (event === 'retry') {
+      sentStages.clear();
+    }
+    sendEvent(res, event, data);
+    if (event === 'result' || event === 'error') finish();
+  });
+  res.on('close', finish);
+
+  report(job);
+  if (finished) return;
+  poll = setInterval(async () => {
+    try {
+      const current = await storage.getGenerationJob(job.id);
+      if (current) report(current);
+      else {
+        sendEvent(res, 'error', { message: "Job not found" });
+        finish();
+      }
+    } catch (error) {
+      console.error(`Error polling generation job ${job.id}:`, error);
+    }
+  }, JOB_POLL_MS);
+}
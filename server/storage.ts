@@ -3,20 +3,58 @@ import {
   wins,
   statements,
   refinementSessions,
+  statementVersions,
+  ratingPeriods,
+  tags,
+  winTags,
+  statementTags,
+  abbreviations,
+  generationJobs,
   type User,
   type UpsertUser,
   type Win,
   type InsertWin,
   type Statement,
   type InsertStatement,
+  type UpdateStatement,
+  type UpdateWin,
   type RefinementSession,
   type InsertRefinementSession,
+  type StatementVersion,
+  type InsertStatementVersion,
+  type RatingPeriod,
+  type InsertRatingPeriod,
+  type UpdateRatingPeriod,
   type UpdateUserProfile,
+  type Abbreviation,
+  type InsertAbbreviation,
+  type GenerationJob,
+  type InsertGenerationJob,
   updateUserProfileSchema,
 } from "@shared/schema";
 import type { UserProfile } from "@shared/types";
+import type { AccountBackup, RestoreSummary } from "@shared/backup";
+import { normalizeTagNames, tagKey, type TagSummary } from "@shared/tags";
+import { randomUUID } from "crypto";
 import { db } from "./db";
-import { eq, desc, and, inArray } from "drizzle-orm";
+import { eq, desc, and, inArray, isNull, isNotNull, lt, notInArray, sql } from "drizzle-orm";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// A drafted statement and the tags it inherits from its source wins
+export interface DraftStatementWrite {
+  statement: InsertStatement;
+  tags: string[];
+}
+
+// An enhanced regeneration: the final text becomes the statement's content and
+// both stages are recorded as versions
+export interface RegenerationWrite {
+  stage1Content: string;
+  stage1Score: number | null;
+  finalContent: string;
+  session: Partial<InsertRefinementSession>;
+}
 
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
@@ -28,23 +66,111 @@ export interface IStorage {
   updateUserProfile(id: string, profile: UpdateUserProfile): Promise<UserProfile>;
   
   // Win operations
+  // Every lookup and mutation by ID is scoped to the owning user; a row that
+  // belongs to someone else behaves exactly like one that does not exist.
+  // Deleting moves a win or statement to the Trash, and trashed rows are left
+  // out of every lookup below except the Trash operations.
   createWin(win: InsertWin): Promise<Win>;
+  // All-or-nothing insert used by bulk import
+  createWinsBulk(entries: InsertWin[]): Promise<Win[]>;
   getWinsByUserId(userId: string): Promise<Win[]>;
-  updateWin(id: string, updates: Partial<InsertWin>): Promise<Win>;
-  deleteWin(id: string): Promise<void>;
-  getWinById(id: string): Promise<Win | undefined>;
+  getWinForUser(id: string, userId: string): Promise<Win | undefined>;
+  // includeTrashed also returns wins in the Trash, e.g. to resolve old references
+  getWinsForUserByIds(ids: string[], userId: string, options?: { includeTrashed?: boolean }): Promise<Win[]>;
+  updateWinForUser(id: string, userId: string, updates: UpdateWin): Promise<Win | undefined>;
+  deleteWinForUser(id: string, userId: string): Promise<boolean>;
+  // Statements whose sourceWinIds include the win, outside the Trash unless
+  // includeTrashed is set
+  getStatementsReferencingWin(winId: string, userId: string, options?: { includeTrashed?: boolean }): Promise<Statement[]>;
   
   // Statement operations
   createStatement(statement: InsertStatement): Promise<Statement>;
   getStatementsByUserId(userId: string): Promise<Statement[]>;
-  updateStatement(id: string, updates: Partial<InsertStatement>): Promise<Statement>;
-  deleteStatement(id: string): Promise<void>;
-  getStatementById(id: string): Promise<Statement | undefined>;
+  getStatementForUser(id: string, userId: string): Promise<Statement | undefined>;
+  updateStatementForUser(id: string, userId: string, updates: UpdateStatement): Promise<Statement | undefined>;
+  deleteStatementForUser(id: string, userId: string): Promise<boolean>;
+
+  // Trash operations
+  getTrashedWinsByUserId(userId: string): Promise<Win[]>;
+  getTrashedStatementsByUserId(userId: string): Promise<Statement[]>;
+  restoreWinForUser(id: string, userId: string): Promise<boolean>;
+  restoreStatementForUser(id: string, userId: string): Promise<boolean>;
+  // Permanent deletes; only rows already in the Trash are affected
+  purgeWinForUser(id: string, userId: string): Promise<boolean>;
+  purgeStatementForUser(id: string, userId: string): Promise<boolean>;
+  emptyTrashForUser(userId: string): Promise<{ wins: number; statements: number }>;
+  // Permanently deletes everything trashed before the cutoff, for every user
+  purgeExpiredTrash(cutoff: Date): Promise<{ wins: number; statements: number }>;
+  
+  // Statement version history (append-only)
+  createStatementVersion(version: InsertStatementVersion): Promise<StatementVersion>;
+  getStatementVersionsByUserId(userId: string): Promise<StatementVersion[]>;
+  getStatementVersionsForUser(statementId: string, userId: string): Promise<StatementVersion[]>;
+  getStatementVersionForUser(id: string, userId: string): Promise<StatementVersion | undefined>;
   
   // Refinement session operations
   createRefinementSession(session: InsertRefinementSession): Promise<RefinementSession>;
-  getRefinementSessionByStatementId(statementId: string): Promise<RefinementSession | undefined>;
+  getRefinementSessionsByUserId(userId: string): Promise<RefinementSession[]>;
+  getRefinementSessionForUser(statementId: string, userId: string): Promise<RefinementSession | undefined>;
   updateRefinementSession(id: string, updates: Partial<InsertRefinementSession>): Promise<RefinementSession>;
+
+  // Generation results (server/generation.ts), each saved in one transaction so
+  // a failure part way leaves nothing behind for a retry to duplicate.
+  // Drafts get their first version and a refinement session; returns the new
+  // statement IDs.
+  saveDraftStatements(userId: string, drafts: DraftStatementWrite[]): Promise<string[]>;
+  saveRegenerationForUser(statementId: string, userId: string, regeneration: RegenerationWrite): Promise<void>;
+
+  // Generation job operations (the queue run by server/jobs.ts)
+  createGenerationJob(job: InsertGenerationJob): Promise<GenerationJob>;
+  getGenerationJob(id: string): Promise<GenerationJob | undefined>;
+  getGenerationJobForUser(id: string, userId: string): Promise<GenerationJob | undefined>;
+  // Marks the oldest due queued job running and counts the attempt; concurrent
+  // workers never claim the same job
+  claimNextGenerationJob(): Promise<GenerationJob | undefined>;
+  // Only applies while the job is still running, so a cancelled job stays
+  // cancelled; undefined when it no longer is
+  updateRunningGenerationJob(id: string, updates: Partial<InsertGenerationJob>): Promise<GenerationJob | undefined>;
+  // undefined when the job is not the user's or has already finished
+  cancelGenerationJobForUser(id: string, userId: string): Promise<GenerationJob | undefined>;
+  // Running jobs with no heartbeat (updatedAt) since updatedBefore belong to a
+  // worker that went away: queued again, or failed once out of attempts. The
+  // caller's own running jobs are skipped.
+  requeueStaleGenerationJobs(updatedBefore: Date, skipIds: string[]): Promise<number>;
+  deleteFinishedGenerationJobs(completedBefore: Date): Promise<number>;
+
+  // Rating period operations
+  getRatingPeriodsByUserId(userId: string): Promise<RatingPeriod[]>;
+  getRatingPeriodForUser(id: string, userId: string): Promise<RatingPeriod | undefined>;
+  createRatingPeriod(period: InsertRatingPeriod): Promise<RatingPeriod>;
+  updateRatingPeriodForUser(id: string, userId: string, updates: UpdateRatingPeriod): Promise<RatingPeriod | undefined>;
+  deleteRatingPeriodForUser(id: string, userId: string): Promise<boolean>;
+  // Recomputes ratingPeriodId for all of the user's wins (by occurredOn) and
+  // statements (by their source wins, else creation date). Call after any write
+  // that changes dates, source wins or periods.
+  assignRatingPeriods(userId: string): Promise<void>;
+
+  // Tag operations. Tags are created on first use and removed once nothing
+  // carries them, so the autocomplete list only offers labels still in use.
+  getTagsByUserId(userId: string): Promise<TagSummary[]>;
+  // Tag names keyed by win/statement ID; pass IDs to limit the lookup
+  getWinTagNames(userId: string, winIds?: string[]): Promise<Map<string, string[]>>;
+  getStatementTagNames(userId: string, statementIds?: string[]): Promise<Map<string, string[]>>;
+  // Replace the full tag list of a win/statement the caller has already verified
+  // belongs to userId
+  setWinTagsForUser(winId: string, userId: string, names: string[]): Promise<string[]>;
+  setStatementTagsForUser(statementId: string, userId: string, names: string[]): Promise<string[]>;
+
+  // Abbreviation dictionary: the member's own entries (the global list lives in
+  // shared/abbreviations.ts)
+  getAbbreviationsByUserId(userId: string): Promise<Abbreviation[]>;
+  // undefined when the member already has an entry for the term
+  createAbbreviation(entry: InsertAbbreviation): Promise<Abbreviation | undefined>;
+  deleteAbbreviationForUser(id: string, userId: string): Promise<boolean>;
+
+  // Account restore: writes a backup archive into the user's account in one
+  // transaction, issuing fresh IDs and rewriting every cross reference
+  restoreAccount(userId: string, backup: AccountBackup): Promise<RestoreSummary>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -159,30 +285,78 @@ export class DatabaseStorage implements IStorage {
     return newWin;
   }
 
+  async createWinsBulk(entries: InsertWin[]): Promise<Win[]> {
+    if (entries.length === 0) return [];
+    return await db.transaction(async (tx) => {
+      const created: Win[] = [];
+      // Chunked to stay well under the Postgres bind parameter limit
+      for (let i = 0; i < entries.length; i += 500) {
+        created.push(...await tx.insert(wins).values(entries.slice(i, i + 500)).returning());
+      }
+      return created;
+    });
+  }
+
   async getWinsByUserId(userId: string): Promise<Win[]> {
     return await db
       .select()
       .from(wins)
-      .where(eq(wins.userId, userId))
-      .orderBy(desc(wins.createdAt));
+      .where(and(eq(wins.userId, userId), isNull(wins.deletedAt)))
+      .orderBy(desc(wins.occurredOn), desc(wins.createdAt));
+  }
+
+  async getWinForUser(id: string, userId: string): Promise<Win | undefined> {
+    const [win] = await db
+      .select()
+      .from(wins)
+      .where(and(eq(wins.id, id), eq(wins.userId, userId), isNull(wins.deletedAt)));
+    return win;
+  }
+
+  async getWinsForUserByIds(ids: string[], userId: string, options: { includeTrashed?: boolean } = {}): Promise<Win[]> {
+    if (ids.length === 0) return [];
+    const found = await db
+      .select()
+      .from(wins)
+      .where(and(
+        inArray(wins.id, ids),
+        eq(wins.userId, userId),
+        options.includeTrashed ? undefined : isNull(wins.deletedAt),
+      ));
+    // Preserve the caller's ordering
+    return ids
+      .map(id => found.find(win => win.id === id))
+      .filter((win): win is Win => !!win);
   }
 
-  async updateWin(id: string, updates: Partial<InsertWin>): Promise<Win> {
+  async updateWinForUser(id: string, userId: string, updates: UpdateWin): Promise<Win | undefined> {
     const [updatedWin] = await db
       .update(wins)
       .set({ ...updates, updatedAt: new Date() })
-      .where(eq(wins.id, id))
+      .where(and(eq(wins.id, id), eq(wins.userId, userId), isNull(wins.deletedAt)))
       .returning();
     return updatedWin;
   }
 
-  async deleteWin(id: string): Promise<void> {
-    await db.delete(wins).where(eq(wins.id, id));
+  async deleteWinForUser(id: string, userId: string): Promise<boolean> {
+    const trashed = await db
+      .update(wins)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(wins.id, id), eq(wins.userId, userId), isNull(wins.deletedAt)))
+      .returning({ id: wins.id });
+    return trashed.length > 0;
   }
 
-  async getWinById(id: string): Promise<Win | undefined> {
-    const [win] = await db.select().from(wins).where(eq(wins.id, id));
-    return win;
+  async getStatementsReferencingWin(winId: string, userId: string, options: { includeTrashed?: boolean } = {}): Promise<Statement[]> {
+    return await db
+      .select()
+      .from(statements)
+      .where(and(
+        eq(statements.userId, userId),
+        options.includeTrashed ? undefined : isNull(statements.deletedAt),
+        sql`${statements.sourceWinIds} @> ARRAY[${winId}]::text[]`,
+      ))
+      .orderBy(desc(statements.createdAt));
   }
 
   // Statement operations
@@ -195,26 +369,154 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(statements)
-      .where(eq(statements.userId, userId))
+      .where(and(eq(statements.userId, userId), isNull(statements.deletedAt)))
       .orderBy(desc(statements.createdAt));
   }
 
-  async updateStatement(id: string, updates: Partial<InsertStatement>): Promise<Statement> {
+  async getStatementForUser(id: string, userId: string): Promise<Statement | undefined> {
+    const [statement] = await db
+      .select()
+      .from(statements)
+      .where(and(eq(statements.id, id), eq(statements.userId, userId), isNull(statements.deletedAt)));
+    return statement;
+  }
+
+  async updateStatementForUser(id: string, userId: string, updates: UpdateStatement): Promise<Statement | undefined> {
     const [updatedStatement] = await db
       .update(statements)
       .set({ ...updates, updatedAt: new Date() })
-      .where(eq(statements.id, id))
+      .where(and(eq(statements.id, id), eq(statements.userId, userId), isNull(statements.deletedAt)))
       .returning();
     return updatedStatement;
   }
 
-  async deleteStatement(id: string): Promise<void> {
-    await db.delete(statements).where(eq(statements.id, id));
+  async deleteStatementForUser(id: string, userId: string): Promise<boolean> {
+    const trashed = await db
+      .update(statements)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(statements.id, id), eq(statements.userId, userId), isNull(statements.deletedAt)))
+      .returning({ id: statements.id });
+    return trashed.length > 0;
   }
 
-  async getStatementById(id: string): Promise<Statement | undefined> {
-    const [statement] = await db.select().from(statements).where(eq(statements.id, id));
-    return statement;
+  // Trash operations. Trashed rows keep their tags so a restore brings them back.
+  async getTrashedWinsByUserId(userId: string): Promise<Win[]> {
+    return await db
+      .select()
+      .from(wins)
+      .where(and(eq(wins.userId, userId), isNotNull(wins.deletedAt)))
+      .orderBy(desc(wins.deletedAt));
+  }
+
+  async getTrashedStatementsByUserId(userId: string): Promise<Statement[]> {
+    return await db
+      .select()
+      .from(statements)
+      .where(and(eq(statements.userId, userId), isNotNull(statements.deletedAt)))
+      .orderBy(desc(statements.deletedAt));
+  }
+
+  async restoreWinForUser(id: string, userId: string): Promise<boolean> {
+    const restored = await db
+      .update(wins)
+      .set({ deletedAt: null })
+      .where(and(eq(wins.id, id), eq(wins.userId, userId), isNotNull(wins.deletedAt)))
+      .returning({ id: wins.id });
+    return restored.length > 0;
+  }
+
+  async restoreStatementForUser(id: string, userId: string): Promise<boolean> {
+    const restored = await db
+      .update(statements)
+      .set({ deletedAt: null })
+      .where(and(eq(statements.id, id), eq(statements.userId, userId), isNotNull(statements.deletedAt)))
+      .returning({ id: statements.id });
+    return restored.length > 0;
+  }
+
+  async purgeWinForUser(id: string, userId: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(wins)
+        .where(and(eq(wins.id, id), eq(wins.userId, userId), isNotNull(wins.deletedAt)))
+        .returning({ id: wins.id });
+      await this.pruneUnusedTags(tx, userId);
+      return deleted.length > 0;
+    });
+  }
+
+  async purgeStatementForUser(id: string, userId: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(statements)
+        .where(and(eq(statements.id, id), eq(statements.userId, userId), isNotNull(statements.deletedAt)))
+        .returning({ id: statements.id });
+      await this.pruneUnusedTags(tx, userId);
+      return deleted.length > 0;
+    });
+  }
+
+  async emptyTrashForUser(userId: string): Promise<{ wins: number; statements: number }> {
+    return await db.transaction(async (tx) => {
+      const deletedWins = await tx
+        .delete(wins)
+        .where(and(eq(wins.userId, userId), isNotNull(wins.deletedAt)))
+        .returning({ id: wins.id });
+      const deletedStatements = await tx
+        .delete(statements)
+        .where(and(eq(statements.userId, userId), isNotNull(statements.deletedAt)))
+        .returning({ id: statements.id });
+      await this.pruneUnusedTags(tx, userId);
+      return { wins: deletedWins.length, statements: deletedStatements.length };
+    });
+  }
+
+  async purgeExpiredTrash(cutoff: Date): Promise<{ wins: number; statements: number }> {
+    return await db.transaction(async (tx) => {
+      const deletedWins = await tx
+        .delete(wins)
+        .where(lt(wins.deletedAt, cutoff))
+        .returning({ userId: wins.userId });
+      const deletedStatements = await tx
+        .delete(statements)
+        .where(lt(statements.deletedAt, cutoff))
+        .returning({ userId: statements.userId });
+      const userIds = new Set([...deletedWins, ...deletedStatements].map(row => row.userId));
+      for (const userId of Array.from(userIds)) {
+        await this.pruneUnusedTags(tx, userId);
+      }
+      return { wins: deletedWins.length, statements: deletedStatements.length };
+    });
+  }
+
+  // Statement version operations
+  async createStatementVersion(version: InsertStatementVersion): Promise<StatementVersion> {
+    const [newVersion] = await db.insert(statementVersions).values(version).returning();
+    return newVersion;
+  }
+
+  async getStatementVersionsByUserId(userId: string): Promise<StatementVersion[]> {
+    return await db
+      .select()
+      .from(statementVersions)
+      .where(eq(statementVersions.userId, userId))
+      .orderBy(statementVersions.createdAt);
+  }
+
+  async getStatementVersionsForUser(statementId: string, userId: string): Promise<StatementVersion[]> {
+    return await db
+      .select()
+      .from(statementVersions)
+      .where(and(eq(statementVersions.statementId, statementId), eq(statementVersions.userId, userId)))
+      .orderBy(desc(statementVersions.createdAt));
+  }
+
+  async getStatementVersionForUser(id: string, userId: string): Promise<StatementVersion | undefined> {
+    const [version] = await db
+      .select()
+      .from(statementVersions)
+      .where(and(eq(statementVersions.id, id), eq(statementVersions.userId, userId)));
+    return version;
   }
 
   // Refinement session operations
@@ -223,11 +525,19 @@ export class DatabaseStorage implements IStorage {
     return newSession;
   }
 
-  async getRefinementSessionByStatementId(statementId: string): Promise<RefinementSession | undefined> {
+  async getRefinementSessionsByUserId(userId: string): Promise<RefinementSession[]> {
+    return await db
+      .select()
+      .from(refinementSessions)
+      .where(eq(refinementSessions.userId, userId))
+      .orderBy(refinementSessions.createdAt);
+  }
+
+  async getRefinementSessionForUser(statementId: string, userId: string): Promise<RefinementSession | undefined> {
     const [session] = await db
       .select()
       .from(refinementSessions)
-      .where(eq(refinementSessions.statementId, statementId));
+      .where(and(eq(refinementSessions.statementId, statementId), eq(refinementSessions.userId, userId)));
     return session;
   }
 
@@ -239,6 +549,438 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return updatedSession;
   }
+
+  // Generation results
+  async saveDraftStatements(userId: string, drafts: DraftStatementWrite[]): Promise<string[]> {
+    return await db.transaction(async (tx) => {
+      const ids: string[] = [];
+      for (const draft of drafts) {
+        const [statement] = await tx.insert(statements).values(draft.statement).returning();
+        await tx.insert(statementVersions).values({
+          statementId: statement.id,
+          userId,
+          content: statement.content,
+          source: "first_draft",
+        });
+        await tx.insert(refinementSessions).values({
+          statementId: statement.id,
+          userId,
+          currentStep: 1,
+          isCompleted: false,
+        });
+        const tagIds = await this.resolveTags(tx, userId, draft.tags);
+        if (tagIds.size > 0) {
+          await tx.insert(statementTags).values(Array.from(tagIds.values(), tagId => ({ statementId: statement.id, tagId })));
+        }
+        ids.push(statement.id);
+      }
+      return ids;
+    });
+  }
+
+  async saveRegenerationForUser(statementId: string, userId: string, regeneration: RegenerationWrite): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(statements)
+        .set({ content: regeneration.finalContent, updatedAt: new Date() })
+        .where(and(eq(statements.id, statementId), eq(statements.userId, userId), isNull(statements.deletedAt)));
+      // now() is fixed for the transaction; explicit times keep the final
+      // version ordered after stage 1 in the history
+      const recordedAt = Date.now();
+      await tx.insert(statementVersions).values([
+        { statementId, userId, content: regeneration.stage1Content, source: "askback_stage1", aiScore: regeneration.stage1Score, createdAt: new Date(recordedAt) },
+        { statementId, userId, content: regeneration.finalContent, source: "askback_final", createdAt: new Date(recordedAt + 1) },
+      ]);
+      await tx
+        .update(refinementSessions)
+        .set({ ...regeneration.session, updatedAt: new Date() })
+        .where(and(eq(refinementSessions.statementId, statementId), eq(refinementSessions.userId, userId)));
+    });
+  }
+
+  // Generation job operations
+  async createGenerationJob(job: InsertGenerationJob): Promise<GenerationJob> {
+    const [created] = await db.insert(generationJobs).values(job).returning();
+    return created;
+  }
+
+  async getGenerationJob(id: string): Promise<GenerationJob | undefined> {
+    const [job] = await db.select().from(generationJobs).where(eq(generationJobs.id, id));
+    return job;
+  }
+
+  async getGenerationJobForUser(id: string, userId: string): Promise<GenerationJob | undefined> {
+    const [job] = await db
+      .select()
+      .from(generationJobs)
+      .where(and(eq(generationJobs.id, id), eq(generationJobs.userId, userId)));
+    return job;
+  }
+
+  async claimNextGenerationJob(): Promise<GenerationJob | undefined> {
+    const [job] = await db
+      .update(generationJobs)
+      .set({
+        status: "running",
+        attempts: sql`${generationJobs.attempts} + 1`,
+        startedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(generationJobs.id, sql`(
+        select ${generationJobs.id} from ${generationJobs}
+        where ${generationJobs.status} = 'queued' and ${generationJobs.runAfter} <= now()
+        order by ${generationJobs.runAfter}
+        limit 1
+        for update skip locked
+      )`))
+      .returning();
+    return job;
+  }
+
+  async updateRunningGenerationJob(id: string, updates: Partial<InsertGenerationJob>): Promise<GenerationJob | undefined> {
+    const [job] = await db
+      .update(generationJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(generationJobs.id, id), eq(generationJobs.status, "running")))
+      .returning();
+    return job;
+  }
+
+  async cancelGenerationJobForUser(id: string, userId: string): Promise<GenerationJob | undefined> {
+    const [job] = await db
+      .update(generationJobs)
+      .set({ status: "cancelled", completedAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        eq(generationJobs.id, id),
+        eq(generationJobs.userId, userId),
+        inArray(generationJobs.status, ["queued", "running"]),
+      ))
+      .returning();
+    return job;
+  }
+
+  async requeueStaleGenerationJobs(updatedBefore: Date, skipIds: string[]): Promise<number> {
+    const requeued = await db
+      .update(generationJobs)
+      .set({
+        status: sql`case when ${generationJobs.attempts} >= ${generationJobs.maxAttempts} then 'failed' else 'queued' end`,
+        error: "The worker stopped before the job finished",
+        runAfter: new Date(),
+        completedAt: sql`case when ${generationJobs.attempts} >= ${generationJobs.maxAttempts} then now() end`,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(generationJobs.status, "running"),
+        lt(generationJobs.updatedAt, updatedBefore),
+        skipIds.length > 0 ? notInArray(generationJobs.id, skipIds) : undefined,
+      ))
+      .returning({ id: generationJobs.id });
+    return requeued.length;
+  }
+
+  async deleteFinishedGenerationJobs(completedBefore: Date): Promise<number> {
+    const deleted = await db
+      .delete(generationJobs)
+      .where(and(
+        inArray(generationJobs.status, ["succeeded", "failed", "cancelled"]),
+        lt(generationJobs.completedAt, completedBefore),
+      ))
+      .returning({ id: generationJobs.id });
+    return deleted.length;
+  }
+
+  // Rating period operations
+  async getRatingPeriodsByUserId(userId: string): Promise<RatingPeriod[]> {
+    return await db
+      .select()
+      .from(ratingPeriods)
+      .where(eq(ratingPeriods.userId, userId))
+      .orderBy(desc(ratingPeriods.startDate));
+  }
+
+  async getRatingPeriodForUser(id: string, userId: string): Promise<RatingPeriod | undefined> {
+    const [period] = await db
+      .select()
+      .from(ratingPeriods)
+      .where(and(eq(ratingPeriods.id, id), eq(ratingPeriods.userId, userId)));
+    return period;
+  }
+
+  async createRatingPeriod(period: InsertRatingPeriod): Promise<RatingPeriod> {
+    const [newPeriod] = await db.insert(ratingPeriods).values(period).returning();
+    return newPeriod;
+  }
+
+  async updateRatingPeriodForUser(id: string, userId: string, updates: UpdateRatingPeriod): Promise<RatingPeriod | undefined> {
+    const [updatedPeriod] = await db
+      .update(ratingPeriods)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(ratingPeriods.id, id), eq(ratingPeriods.userId, userId)))
+      .returning();
+    return updatedPeriod;
+  }
+
+  async deleteRatingPeriodForUser(id: string, userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(ratingPeriods)
+      .where(and(eq(ratingPeriods.id, id), eq(ratingPeriods.userId, userId)))
+      .returning({ id: ratingPeriods.id });
+    return deleted.length > 0;
+  }
+
+  async assignRatingPeriods(userId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      // Periods don't overlap, but prefer the latest start if they ever do
+      await tx.execute(sql`
+        UPDATE wins SET rating_period_id = (
+          SELECT p.id FROM rating_periods p
+          WHERE p.user_id = wins.user_id
+            AND wins.occurred_on BETWEEN p.start_date AND p.close_out_date
+          ORDER BY p.start_date DESC
+          LIMIT 1
+        )
+        WHERE wins.user_id = ${userId}
+      `);
+      await tx.execute(sql`
+        UPDATE statements SET rating_period_id = COALESCE(
+          (
+            SELECT w.rating_period_id FROM wins w
+            WHERE w.id = ANY(statements.source_win_ids) AND w.rating_period_id IS NOT NULL
+            ORDER BY w.occurred_on DESC
+            LIMIT 1
+          ),
+          (
+            SELECT p.id FROM rating_periods p
+            WHERE p.user_id = statements.user_id
+              AND statements.created_at::date BETWEEN p.start_date AND p.close_out_date
+            ORDER BY p.start_date DESC
+            LIMIT 1
+          )
+        )
+        WHERE statements.user_id = ${userId}
+      `);
+    });
+  }
+
+  // Abbreviation operations
+  async getAbbreviationsByUserId(userId: string): Promise<Abbreviation[]> {
+    return await db
+      .select()
+      .from(abbreviations)
+      .where(eq(abbreviations.userId, userId))
+      .orderBy(sql`lower(${abbreviations.term})`);
+  }
+
+  async createAbbreviation(entry: InsertAbbreviation): Promise<Abbreviation | undefined> {
+    const [created] = await db
+      .insert(abbreviations)
+      .values(entry)
+      .onConflictDoNothing()
+      .returning();
+    return created;
+  }
+
+  async deleteAbbreviationForUser(id: string, userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(abbreviations)
+      .where(and(eq(abbreviations.id, id), eq(abbreviations.userId, userId)))
+      .returning({ id: abbreviations.id });
+    return deleted.length > 0;
+  }
+
+  // Tag operations
+  async getTagsByUserId(userId: string): Promise<TagSummary[]> {
+    return await db
+      .select({
+        id: tags.id,
+        name: tags.name,
+        // Trashed items keep their tags but aren't counted
+        winCount: sql<number>`(SELECT count(*) FROM win_tags JOIN wins ON wins.id = win_tags.win_id WHERE win_tags.tag_id = ${tags.id} AND wins.deleted_at IS NULL)::int`,
+        statementCount: sql<number>`(SELECT count(*) FROM statement_tags JOIN statements ON statements.id = statement_tags.statement_id WHERE statement_tags.tag_id = ${tags.id} AND statements.deleted_at IS NULL)::int`,
+      })
+      .from(tags)
+      .where(eq(tags.userId, userId))
+      .orderBy(sql`lower(${tags.name})`);
+  }
+
+  async getWinTagNames(userId: string, winIds?: string[]): Promise<Map<string, string[]>> {
+    if (winIds && winIds.length === 0) return new Map();
+    const rows = await db
+      .select({ itemId: winTags.winId, name: tags.name })
+      .from(winTags)
+      .innerJoin(tags, eq(winTags.tagId, tags.id))
+      .where(and(eq(tags.userId, userId), winIds ? inArray(winTags.winId, winIds) : undefined))
+      .orderBy(sql`lower(${tags.name})`);
+    return groupTagNames(rows);
+  }
+
+  async getStatementTagNames(userId: string, statementIds?: string[]): Promise<Map<string, string[]>> {
+    if (statementIds && statementIds.length === 0) return new Map();
+    const rows = await db
+      .select({ itemId: statementTags.statementId, name: tags.name })
+      .from(statementTags)
+      .innerJoin(tags, eq(statementTags.tagId, tags.id))
+      .where(and(eq(tags.userId, userId), statementIds ? inArray(statementTags.statementId, statementIds) : undefined))
+      .orderBy(sql`lower(${tags.name})`);
+    return groupTagNames(rows);
+  }
+
+  async setWinTagsForUser(winId: string, userId: string, names: string[]): Promise<string[]> {
+    return await db.transaction(async (tx) => {
+      const tagIds = await this.resolveTags(tx, userId, names);
+      await tx.delete(winTags).where(eq(winTags.winId, winId));
+      if (tagIds.size > 0) {
+        await tx.insert(winTags).values(Array.from(tagIds.values(), tagId => ({ winId, tagId })));
+      }
+      await this.pruneUnusedTags(tx, userId);
+      return Array.from(tagIds.keys());
+    });
+  }
+
+  async setStatementTagsForUser(statementId: string, userId: string, names: string[]): Promise<string[]> {
+    return await db.transaction(async (tx) => {
+      const tagIds = await this.resolveTags(tx, userId, names);
+      await tx.delete(statementTags).where(eq(statementTags.statementId, statementId));
+      if (tagIds.size > 0) {
+        await tx.insert(statementTags).values(Array.from(tagIds.values(), tagId => ({ statementId, tagId })));
+      }
+      await this.pruneUnusedTags(tx, userId);
+      return Array.from(tagIds.keys());
+    });
+  }
+
+  // Creates any missing tags and returns tag IDs keyed by the stored spelling
+  private async resolveTags(tx: Transaction, userId: string, names: string[]): Promise<Map<string, string>> {
+    const cleaned = normalizeTagNames(names);
+    if (cleaned.length === 0) return new Map();
+
+    await tx
+      .insert(tags)
+      .values(cleaned.map(name => ({ userId, name })))
+      .onConflictDoNothing();
+
+    const keys = cleaned.map(tagKey);
+    const rows = await tx
+      .select({ id: tags.id, name: tags.name })
+      .from(tags)
+      .where(and(eq(tags.userId, userId), inArray(sql`lower(${tags.name})`, keys)));
+    const byKey = new Map(rows.map(row => [tagKey(row.name), row]));
+
+    // Keep the caller's order
+    const resolved = new Map<string, string>();
+    for (const key of keys) {
+      const row = byKey.get(key);
+      if (row) resolved.set(row.name, row.id);
+    }
+    return resolved;
+  }
+
+  private async pruneUnusedTags(tx: Transaction | typeof db, userId: string): Promise<void> {
+    await tx.execute(sql`
+      DELETE FROM tags
+      WHERE tags.user_id = ${userId}
+        AND NOT EXISTS (SELECT 1 FROM win_tags WHERE win_tags.tag_id = tags.id)
+        AND NOT EXISTS (SELECT 1 FROM statement_tags WHERE statement_tags.tag_id = tags.id)
+    `);
+  }
+
+  async restoreAccount(userId: string, backup: AccountBackup): Promise<RestoreSummary> {
+    const winIds = new Map(backup.wins.map(win => [win.id, randomUUID()]));
+    const statementIds = new Map(backup.statements.map(statement => [statement.id, randomUUID()]));
+    let droppedReferences = 0;
+
+    const newWins = backup.wins.map(({ id, tags: _tags, ...win }) => ({
+      ...win,
+      id: winIds.get(id)!,
+      userId,
+      // Version 1 archives predate accomplishment dates
+      occurredOn: win.occurredOn ?? win.createdAt?.toISOString().slice(0, 10),
+    }));
+
+    const newStatements = backup.statements.map(({ id, sourceWinIds, tags: _tags, ...statement }) => {
+      const remapped = (sourceWinIds || []).flatMap(winId => {
+        const newId = winIds.get(winId);
+        if (!newId) droppedReferences++;
+        return newId ? [newId] : [];
+      });
+      return { ...statement, id: statementIds.get(id)!, userId, sourceWinIds: remapped };
+    });
+
+    // Sessions and versions are meaningless without their statement
+    const newSessions = backup.refinementSessions.flatMap(({ id, statementId, ...session }) => {
+      const newStatementId = statementIds.get(statementId);
+      if (!newStatementId) droppedReferences++;
+      return newStatementId ? [{ ...session, statementId: newStatementId, userId }] : [];
+    });
+
+    const newVersions = backup.statementVersions.flatMap(({ id, statementId, ...version }) => {
+      const newStatementId = statementIds.get(statementId);
+      if (!newStatementId) droppedReferences++;
+      return newStatementId ? [{ ...version, statementId: newStatementId, userId }] : [];
+    });
+
+    const newPeriods = backup.ratingPeriods.map(({ id, ...period }) => ({ ...period, userId }));
+    const newAbbreviations = backup.abbreviations.map(entry => ({ ...entry, userId }));
+
+    const insertChunked = async <T>(rows: T[], insert: (chunk: T[]) => Promise<unknown>) => {
+      for (let i = 0; i < rows.length; i += 500) {
+        await insert(rows.slice(i, i + 500));
+      }
+    };
+
+    await db.transaction(async (tx) => {
+      const { yearlyGoals, ...profile } = backup.profile;
+      await tx
+        .update(users)
+        .set({ ...profile, yearlyGoals: yearlyGoals ?? null, updatedAt: new Date() })
+        .where(eq(users.id, userId));
+
+      await insertChunked(newWins, chunk => tx.insert(wins).values(chunk));
+      await insertChunked(newStatements, chunk => tx.insert(statements).values(chunk));
+      await insertChunked(newSessions, chunk => tx.insert(refinementSessions).values(chunk));
+      await insertChunked(newVersions, chunk => tx.insert(statementVersions).values(chunk));
+      await insertChunked(newPeriods, chunk => tx.insert(ratingPeriods).values(chunk));
+      // Entries already in the dictionary are kept as they are
+      await insertChunked(newAbbreviations, chunk => tx.insert(abbreviations).values(chunk).onConflictDoNothing());
+
+      const tagIds = await this.resolveTags(tx, userId, [
+        ...backup.wins.flatMap(win => win.tags),
+        ...backup.statements.flatMap(statement => statement.tags),
+      ]);
+      const tagIdsByKey = new Map(Array.from(tagIds, ([name, tagId]) => [tagKey(name), tagId]));
+      const linkTags = (names: string[]) =>
+        Array.from(new Set(names.flatMap(name => tagIdsByKey.get(tagKey(name)) ?? [])));
+
+      const newWinTags = backup.wins.flatMap(win =>
+        linkTags(win.tags).map(tagId => ({ winId: winIds.get(win.id)!, tagId })));
+      const newStatementTags = backup.statements.flatMap(statement =>
+        linkTags(statement.tags).map(tagId => ({ statementId: statementIds.get(statement.id)!, tagId })));
+      await insertChunked(newWinTags, chunk => tx.insert(winTags).values(chunk));
+      await insertChunked(newStatementTags, chunk => tx.insert(statementTags).values(chunk));
+    });
+
+    await this.assignRatingPeriods(userId);
+
+    return {
+      wins: newWins.length,
+      statements: newStatements.length,
+      refinementSessions: newSessions.length,
+      statementVersions: newVersions.length,
+      ratingPeriods: newPeriods.length,
+      abbreviations: newAbbreviations.length,
+      droppedReferences,
+    };
+  }
+}
+
+function groupTagNames(rows: { itemId: string; name: string }[]): Map<string, string[]> {
+  const grouped = new Map<string, string[]>();
+  for (const { itemId, name } of rows) {
+    const names = grouped.get(itemId);
+    if (names) names.push(name);
+    else grouped.set(itemId, [name]);
+  }
+  return grouped;
 }
 
 export const storage = new DatabaseStorage();
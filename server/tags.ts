@@ -0,0 +1,15 @@
+import type { Statement, Win } from "@shared/schema";
+import type { Tagged } from "@shared/tags";
+import { storage } from "./storage";
+
+// Attach tag names to wins and statements on their way out of the API
+
+export async function withWinTags(userId: string, wins: Win[]): Promise<Tagged<Win>[]> {
+  const tagNames = await storage.getWinTagNames(userId, wins.map(win => win.id));
+  return wins.map(win => ({ ...win, tags: tagNames.get(win.id) ?? [] }));
+}
+
+export async function withStatementTags(userId: string, statements: Statement[]): Promise<Tagged<Statement>[]> {
+  const tagNames = await storage.getStatementTagNames(userId, statements.map(statement => statement.id));
+  return statements.map(statement => ({ ...statement, tags: tagNames.get(statement.id) ?? [] }));
+}
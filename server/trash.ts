@@ -0,0 +1,28 @@
+import { DEFAULT_TRASH_RETENTION_DAYS } from "@shared/trash";
+import { storage } from "./storage";
+
+const PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// How long deleted wins and statements stay recoverable:
+//   TRASH_RETENTION_DAYS  whole days, default 30
+export function getTrashRetentionDays(env: NodeJS.ProcessEnv = process.env): number {
+  const days = Number(env.TRASH_RETENTION_DAYS);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export async function purgeExpiredTrash(now: Date = new Date()): Promise<void> {
+  const cutoff = new Date(now);
+  cutoff.setDate(cutoff.getDate() - getTrashRetentionDays());
+  const purged = await storage.purgeExpiredTrash(cutoff);
+  if (purged.wins > 0 || purged.statements > 0) {
+    console.log(`Purged ${purged.wins} win(s) and ${purged.statements} statement(s) from the Trash`);
+  }
+}
+
+// Purges at startup and every few hours after; the timer doesn't hold the
+// process open
+export function scheduleTrashPurge(): void {
+  const run = () => purgeExpiredTrash().catch(error => console.error("Error purging trash:", error));
+  run();
+  setInterval(run, PURGE_INTERVAL_MS).unref();
+}
@@ -0,0 +1,174 @@
+import type { Abbreviation, AbbreviationKind } from "./schema";
+import { findUndefinedAcronyms } from "./statementLint";
+
+// Abbreviation dictionary: a global list every member gets plus their own
+// entries. Compressing swaps full terms for their short forms until a statement
+// reaches a length target; expanding does the reverse and spells acronyms out
+// on first use.
+
+export interface AbbreviationEntry {
+  term: string;
+  abbreviation: string;
+  kind: AbbreviationKind;
+}
+
+// Where several terms share a short form, the first listed is used to expand it
+export const GLOBAL_ABBREVIATIONS: AbbreviationEntry[] = [
+  ...Object.entries({
+    maintenance: 'maint', management: 'mgmt', operations: 'ops', operational: 'ops', hours: 'hrs',
+    personnel: 'pers', program: 'prgm', equipment: 'equip', training: 'trng', inspection: 'insp',
+    inspections: 'insps', aircraft: 'acft', squadron: 'sq', organization: 'org', requirements: 'reqs',
+    department: 'dept', government: "gov't", information: 'info', communications: 'comm',
+    vehicles: 'vehs', mission: 'msn', members: 'mbrs', accountability: 'acct', Airmen: 'Amn',
+    Airman: 'Amn', manhours: 'manhrs', assessment: 'assmt', development: 'dvlpmt', readiness: 'rdns',
+    installation: 'instl', deployment: 'dplymt', administrative: 'admin', supervised: 'supv',
+    hazardous: 'haz', procedures: 'procs', annual: 'annl',
+  }).map(([term, abbreviation]) => ({ term, abbreviation, kind: 'abbreviation' as const })),
+  ...Object.entries({
+    'Air Force Specialty Code': 'AFSC', 'temporary duty': 'TDY', 'noncommissioned officer': 'NCO',
+    'senior noncommissioned officer': 'SNCO', 'noncommissioned officer in charge': 'NCOIC',
+    'quality assurance': 'QA', 'standard operating procedure': 'SOP', 'point of contact': 'POC',
+    'area of responsibility': 'AOR', 'Professional Military Education': 'PME', 'Airman Leadership School': 'ALS',
+    'Community College of the Air Force': 'CCAF', 'permanent change of station': 'PCS', 'fiscal year': 'FY',
+    'Department of Defense': 'DoD', 'major command': 'MAJCOM', 'explosive ordnance disposal': 'EOD',
+    'unit type code': 'UTC', 'Unit Effectiveness Inspection': 'UEI', 'Combined Federal Campaign': 'CFC',
+    'Air Force Assistance Fund': 'AFAF', 'hazardous materials': 'HAZMAT', 'government travel card': 'GTC',
+    'Air Expeditionary Force': 'AEF', 'letter of appreciation': 'LOA', 'distinguished visitor': 'DV',
+    'Air Force Instruction': 'AFI', 'technical order': 'TO', 'mission capable': 'MC',
+  }).map(([term, abbreviation]) => ({ term, abbreviation, kind: 'acronym' as const })),
+];
+
+// GET /api/abbreviations
+export interface AbbreviationDictionary {
+  global: AbbreviationEntry[];
+  custom: Abbreviation[];
+}
+
+export interface UndefinedAcronym {
+  acronym: string;
+  // The dictionary's spelled-out form, when it has one
+  expansion: string | null;
+}
+
+export interface RewriteResult {
+  text: string;
+  // What was swapped, e.g. "maintenance → maint"
+  changes: string[];
+}
+
+// A member's own entries replace global ones for the same term
+export function mergeDictionary(global: AbbreviationEntry[], custom: Pick<Abbreviation, 'term' | 'abbreviation' | 'kind'>[]): AbbreviationEntry[] {
+  const customEntries = custom.map(({ term, abbreviation, kind }) => ({ term, abbreviation, kind: kind as AbbreviationKind }));
+  const overridden = new Set(customEntries.map(entry => entry.term.toLowerCase()));
+  return [...customEntries, ...global.filter(entry => !overridden.has(entry.term.toLowerCase()))];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+// Whole words only; a "-" or "/" joins words rather than splitting them
+function wordPattern(word: string, caseSensitive: boolean): RegExp {
+  return new RegExp(`(^|[^A-Za-z0-9'/-])${escapeRegExp(word).replace(/\s+/g, '\\s+')}(?![A-Za-z0-9'/-])`, caseSensitive ? 'g' : 'gi');
+}
+
+// "Maintenance" at the start of a clause becomes "Maint", not "maint"
+function matchCase(original: string, replacement: string): string {
+  if (/^[A-Z][a-z]/.test(original) && /^[a-z]/.test(replacement)) return replacement[0].toUpperCase() + replacement.slice(1);
+  return replacement;
+}
+
+function scaled(value: number): string {
+  if (value >= 1e9) return `${+(value / 1e9).toFixed(2)}B`;
+  if (value >= 1e6) return `${+(value / 1e6).toFixed(2)}M`;
+  return `${+(value / 1e3).toFixed(2)}K`;
+}
+
+// 1,250,000 -> 1.25M and 1,200 -> 1.2K; two decimals keeps any rounding well
+// inside the fact check's tolerance. Figures with decimals ($12,345.67) are
+// left alone.
+export function shortenNumbers(text: string): string {
+  return text
+    .replace(/(^|[^\d.,])(\d{1,3}(?:,\d{3}){1,3})(?![\d,]|\.\d)/g, (_match, before, digits) => before + scaled(Number(digits.replace(/,/g, ''))))
+    .replace(/\s?\bpercent\b/gi, '%')
+    .replace(/(\d)\s(thousand|million|billion)\b/gi, (_match, digit, unit) => digit + unit[0].toUpperCase());
+}
+
+export function abbreviate(text: string, entry: AbbreviationEntry): string {
+  return text.replace(wordPattern(entry.term, false), (match, before) =>
+    before + (entry.kind === 'acronym' ? entry.abbreviation : matchCase(match.slice(before.length), entry.abbreviation))
+  );
+}
+
+// Applies whichever swap saves the most characters until the statement is no
+// longer than targetLength or nothing else is left to shorten
+export function compressStatement(text: string, entries: AbbreviationEntry[], targetLength: number): RewriteResult {
+  let current = text;
+  const changes: string[] = [];
+  const candidates: { label: string; apply: (text: string) => string }[] = [
+    { label: 'shortened numbers', apply: shortenNumbers },
+    ...entries.map(entry => ({ label: `${entry.term} → ${entry.abbreviation}`, apply: (text: string) => abbreviate(text, entry) })),
+  ];
+
+  while (current.length > targetLength) {
+    let best: { index: number; text: string } | null = null;
+    for (let index = 0; index < candidates.length; index++) {
+      const candidate = candidates[index].apply(current);
+      if (candidate.length < (best?.text.length ?? current.length)) best = { index, text: candidate };
+    }
+    if (!best) break;
+    changes.push(candidates[best.index].label);
+    candidates.splice(best.index, 1);
+    current = best.text;
+  }
+
+  return { text: current, changes };
+}
+
+// Spells abbreviations out in full and defines each acronym the first time it
+// appears, as "Air Force Specialty Code (AFSC)"
+export function expandStatement(text: string, entries: AbbreviationEntry[]): RewriteResult {
+  let current = text;
+  const changes: string[] = [];
+  const expanded = new Set<string>();
+
+  for (const entry of entries) {
+    if (expanded.has(entry.abbreviation)) continue;
+    // Lower-case short forms match any case; "Amn" and acronyms only as written
+    const pattern = wordPattern(entry.abbreviation, /[A-Z]/.test(entry.abbreviation));
+
+    if (entry.kind === 'acronym') {
+      if (wordPattern(entry.term, false).test(current)) continue;
+      let first = true;
+      const next = current.replace(pattern, (match, before) => {
+        if (!first) return match;
+        first = false;
+        return `${before}${entry.term} (${entry.abbreviation})`;
+      });
+      if (next !== current) {
+        expanded.add(entry.abbreviation);
+        changes.push(`${entry.abbreviation} → ${entry.term} (${entry.abbreviation})`);
+        current = next;
+      }
+    } else {
+      const next = current.replace(pattern, (match, before) => before + matchCase(match.slice(before.length), entry.term));
+      if (next !== current) {
+        expanded.add(entry.abbreviation);
+        changes.push(`${entry.abbreviation} → ${entry.term}`);
+        current = next;
+      }
+    }
+  }
+
+  return { text: current, changes };
+}
+
+export function listUndefinedAcronyms(text: string, entries: AbbreviationEntry[]): UndefinedAcronym[] {
+  const expansions = new Map(
+    entries.filter(entry => entry.kind === 'acronym').map(entry => [entry.abbreviation.toUpperCase(), entry.term])
+  );
+  return findUndefinedAcronyms(text).map(({ acronym }) => ({
+    acronym,
+    expansion: expansions.get(acronym.toUpperCase()) ?? null,
+  }));
+}
@@ -0,0 +1,138 @@
+import { z } from "zod";
+import { abbreviationKinds, generationAudiences, ratingPeriodStatuses, statementVersionSources } from "./schema";
+import { tagListSchema } from "./tags";
+import { ISO_DATE_PATTERN } from "./winDates";
+
+// Portable account archive. Records keep their original IDs so cross references
+// (statement.sourceWinIds, session.statementId, version.statementId) can be
+// remapped on restore. Bump BACKUP_VERSION whenever the shape changes and keep
+// older versions readable.
+
+export const BACKUP_FORMAT = "af-performance-tracker-backup";
+// 2: wins carry occurredOn/endedOn; version 1 archives are dated from createdAt
+// 3: rating periods; wins and statements are reassigned to them on restore
+// 4: tag names on wins and statements
+// 5: the member's abbreviation dictionary
+// 6: the audience each statement was written for; older statements restore as EPB
+// 7: refinement sessions keep their ask-back questions
+export const BACKUP_VERSION = 7;
+
+// Dates travel as ISO strings inside JSON. Missing dates fall back to the
+// column default on restore rather than being coerced to the epoch.
+const timestamp = z.preprocess(value => value ?? undefined, z.coerce.date().optional());
+
+export const backupProfileSchema = z.object({
+  username: z.string().nullable().optional(),
+  rank: z.string().nullable().optional(),
+  afsc: z.string().nullable().optional(),
+  shred: z.string().nullable().optional(),
+  skillLevel: z.string().nullable().optional(),
+  totalXP: z.number().int().nullable().optional(),
+  level: z.number().int().nullable().optional(),
+  currentStreak: z.number().int().nullable().optional(),
+  maxStreak: z.number().int().nullable().optional(),
+  badges: z.array(z.string()).nullable().optional(),
+  weeklyGoal: z.number().int().nullable().optional(),
+  yearlyGoals: z.unknown().optional(),
+  useRankDefaultDue: z.boolean().nullable().optional(),
+  customDueDate: z.string().nullable().optional(),
+  dailyReminderEnabled: z.boolean().nullable().optional(),
+  dailyReminderTime: z.string().nullable().optional(),
+  dailyReminderDays: z.array(z.string()).nullable().optional(),
+});
+
+export const backupWinSchema = z.object({
+  id: z.string(),
+  category: z.string(),
+  action: z.string(),
+  impact: z.string(),
+  result: z.string(),
+  occurredOn: z.string().regex(ISO_DATE_PATTERN).optional(),
+  endedOn: z.string().regex(ISO_DATE_PATTERN).nullable().optional(),
+  tags: tagListSchema.default([]),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+export const backupStatementSchema = z.object({
+  id: z.string(),
+  content: z.string(),
+  category: z.string(),
+  aiScore: z.number().int().nullable().optional(),
+  isCompleted: z.boolean().nullable().optional(),
+  sourceWinIds: z.array(z.string()).nullable().optional(),
+  audience: z.enum(generationAudiences).optional(),
+  tags: tagListSchema.default([]),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+export const backupRefinementSessionSchema = z.object({
+  id: z.string(),
+  statementId: z.string(),
+  currentStep: z.number().int().nullable().optional(),
+  aiFeeds: z.unknown().optional(),
+  askBackQuestions: z.unknown().optional(),
+  askBackAnswers: z.unknown().optional(),
+  enhancedSteps: z.unknown().optional(),
+  isCompleted: z.boolean().nullable().optional(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+export const backupStatementVersionSchema = z.object({
+  id: z.string(),
+  statementId: z.string(),
+  content: z.string(),
+  source: z.enum(statementVersionSources),
+  aiScore: z.number().int().nullable().optional(),
+  createdAt: timestamp,
+});
+
+export const backupRatingPeriodSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  startDate: z.string().regex(ISO_DATE_PATTERN),
+  closeOutDate: z.string().regex(ISO_DATE_PATTERN),
+  scod: z.string().regex(ISO_DATE_PATTERN).nullable().optional(),
+  status: z.enum(ratingPeriodStatuses).optional(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+export const backupAbbreviationSchema = z.object({
+  term: z.string(),
+  abbreviation: z.string(),
+  kind: z.enum(abbreviationKinds).optional(),
+  createdAt: timestamp,
+});
+
+export const accountBackupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: timestamp,
+  profile: backupProfileSchema,
+  wins: z.array(backupWinSchema),
+  statements: z.array(backupStatementSchema),
+  refinementSessions: z.array(backupRefinementSessionSchema),
+  statementVersions: z.array(backupStatementVersionSchema).default([]),
+  ratingPeriods: z.array(backupRatingPeriodSchema).default([]),
+  abbreviations: z.array(backupAbbreviationSchema).default([]),
+});
+
+export type BackupProfile = z.infer<typeof backupProfileSchema>;
+// Parsed archive, as handed to storage on restore
+export type AccountBackup = z.infer<typeof accountBackupSchema>;
+// Archive as written to disk, before dates are revived
+export type AccountBackupArchive = z.input<typeof accountBackupSchema>;
+
+export interface RestoreSummary {
+  wins: number;
+  statements: number;
+  refinementSessions: number;
+  statementVersions: number;
+  ratingPeriods: number;
+  abbreviations: number;
+  // References that pointed at records missing from the archive
+  droppedReferences: number;
+}
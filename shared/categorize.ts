@@ -0,0 +1,115 @@
+import { z } from "zod";
+import { performanceCategories, type PerformanceCategory } from "./schema";
+
+// Suggested performance area for a win. The server asks the LLM when one is
+// configured and falls back to the keyword scorer below offline or on error.
+
+export const MAX_RECATEGORIZE_WINS = 50;
+
+export interface CategoryChoice {
+  category: PerformanceCategory;
+  // 0-1
+  confidence: number;
+}
+
+export interface CategorySuggestion extends CategoryChoice {
+  alternative: CategoryChoice | null;
+  source: 'llm' | 'keywords';
+}
+
+// POST /api/wins/recategorize
+export interface WinCategorySuggestion {
+  winId: string;
+  current: string;
+  suggestion: CategorySuggestion;
+}
+
+export const winTextSchema = z.object({
+  action: z.string().max(2000).default(''),
+  impact: z.string().max(2000).default(''),
+  result: z.string().max(2000).default(''),
+});
+
+export type WinText = z.infer<typeof winTextSchema>;
+
+export const recategorizeRequestSchema = z.object({
+  winIds: z.array(z.string()).min(1).max(MAX_RECATEGORIZE_WINS, `At most ${MAX_RECATEGORIZE_WINS} entries at a time`),
+});
+
+// Accepted suggestions from the Library review
+export const categoryUpdatesSchema = z.object({
+  updates: z.array(z.object({
+    id: z.string(),
+    category: z.enum(performanceCategories),
+  })).max(MAX_RECATEGORIZE_WINS),
+});
+
+// Word stems; a token matches when it starts with the stem
+const CATEGORY_KEYWORDS: Record<PerformanceCategory, string[]> = {
+  "Mission Execution": [
+    'mission', 'sortie', 'deploy', 'launch', 'flight', 'flew', 'executed', 'exercise', 'combat', 'aircraft',
+    'acft', 'maint', 'repair', 'troubleshoot', 'airlift', 'cargo', 'tasking', 'on-time', 'generat', 'alert',
+    'readiness', 'inspect', 'secur', 'patrol', 'dispatch', 'response', 'responded', 'ops',
+  ],
+  "Leading People": [
+    'led', 'lead', 'mentor', 'trained', 'train', 'supervis', 'coach', 'airmen', 'amn', 'subordinate', 'counsel',
+    'morale', 'taught', 'instruct', 'guided', 'team', 'feedback', 'recogni', 'promot', 'resilien', 'sponsor',
+  ],
+  "Improving Unit": [
+    'streamlin', 'process', 'improv', 'innovat', 'automat', 'implement', 'creat', 'revamp', 'overhaul',
+    'efficien', 'redesign', 'initiative', 'standardiz', 'sop', 'checklist', 'policy', 'modernized', 'digitiz',
+    'eliminat', 'reduced', 'cut', 'tool', 'database', 'tracker',
+  ],
+  "Managing Resources": [
+    'budget', 'fund', 'saved', 'saving', 'cost', 'dollar', 'equipment', 'equip', 'inventor', 'accountab',
+    'procure', 'contract', 'suppl', 'asset', 'property', 'vehicle', 'allocat', 'purchas', 'spend', 'expense',
+    'account', 'manhour', 'man-hour', 'fuel',
+  ],
+  "Personal Development": [
+    'course', 'degree', 'ccaf', 'pme', 'als', 'college', 'certif', 'credit', 'studied', 'education', 'class',
+    'graduat', 'gpa', 'university', 'enroll', 'completed', 'self-', 'fitness', 'volunteer', 'community',
+    'distinguished', 'semester', 'seminar', 'language',
+  ],
+};
+
+// Currency is a strong resources signal even without the words
+const MONEY_PATTERN = /\$\s?\d/;
+const MONEY_WEIGHT = 2;
+// Pseudo-count that keeps a couple of keyword hits from reading as certainty
+const KEYWORD_PRIOR = 2;
+
+function round(confidence: number): number {
+  return Math.round(confidence * 100) / 100;
+}
+
+export function suggestCategoryByKeywords({ action, impact, result }: WinText): CategorySuggestion {
+  const text = `${action} ${impact} ${result}`;
+  const tokens = text.toLowerCase().match(/[a-z$][a-z-]*/g) ?? [];
+  const scores = new Map<PerformanceCategory, number>(performanceCategories.map(category => [category, 0]));
+
+  for (const category of performanceCategories) {
+    for (const token of tokens) {
+      if (CATEGORY_KEYWORDS[category].some(stem => stem.length <= 3 ? token === stem : token.startsWith(stem))) {
+        scores.set(category, scores.get(category)! + 1);
+      }
+    }
+  }
+  if (MONEY_PATTERN.test(text)) scores.set("Managing Resources", scores.get("Managing Resources")! + MONEY_WEIGHT);
+
+  // Ties keep performanceCategories order, so an entry with no signal lands in Mission Execution
+  const ranked = Array.from(scores.entries()).sort((a, b) => b[1] - a[1]);
+  const total = ranked.reduce((sum, [, score]) => sum + score, 0);
+  const confidenceOf = (score: number) => total > 0 ? round(score / (total + KEYWORD_PRIOR)) : round(1 / performanceCategories.length);
+  const [first, second] = ranked;
+
+  return {
+    category: first[0],
+    confidence: confidenceOf(first[1]),
+    alternative: second[1] > 0 ? { category: second[0], confidence: confidenceOf(second[1]) } : null,
+    source: 'keywords',
+  };
+}
+
+export function isPerformanceCategory(value: unknown): value is PerformanceCategory {
+  return typeof value === 'string' && (performanceCategories as readonly string[]).includes(value);
+}
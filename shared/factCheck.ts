@@ -0,0 +1,191 @@
+import { COMMON_ACRONYMS } from "./statementLint";
+
+// Checks that an AI rewrite kept the hard facts from what the member wrote:
+// figures (counts, dollars, percentages) and names (bases, aircraft, exercises,
+// operations). Figures match by value, so "$1,200,000" and "$1.2M" agree and a
+// rewrite may round by up to FIGURE_TOLERANCE.
+
+export type FactKind = 'number' | 'money' | 'percent' | 'name';
+
+export interface Fact {
+  kind: FactKind;
+  // As written
+  text: string;
+  // Numeric value for figures
+  value: number | null;
+}
+
+export interface FactIssue {
+  type: 'dropped' | 'invented';
+  fact: Fact;
+  message: string;
+}
+
+export interface FactCheckReport {
+  // Problems left in the returned text
+  issues: FactIssue[];
+  // Rewrites regenerated because of fact problems
+  retries: number;
+}
+
+const FIGURE_TOLERANCE = 0.05;
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3, thousand: 1e3,
+  m: 1e6, mil: 1e6, million: 1e6,
+  b: 1e9, bn: 1e9, billion: 1e9,
+};
+
+const FIGURE_PATTERN = /(\$\s?)?(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?(?:\s?(k|m|mil|bn|b|thousand|million|billion)\b)?(\s?(?:%|percent\b))?/gi;
+
+// Spelled-out counts only confirm a figure; they never raise an issue themselves
+const NUMBER_WORDS: Record<string, number> = {
+  two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19, twenty: 20, dozen: 12,
+};
+
+// Airframes and systems: F-16, KC-135R, C-17
+const DESIGNATOR_PATTERN = /\b[A-Z]{1,4}-\d{1,4}[A-Z]?\b/g;
+// RED FLAG, NATO, AMC
+const CAPITALISED_PATTERN = /\b[A-Z][A-Z&]+(?:\s+[A-Z][A-Z&]+)*\b/g;
+const OPERATION_PATTERN = /\b(?:Operation|Exercise|Op|Ex)\s+[A-Z][A-Za-z]*(?:\s+[A-Z][A-Za-z]*)*/g;
+// Capitalised words that aren't opening a clause: Ramstein, Kadena Air Base
+const TITLE_CASE_PATTERN = /\b[A-Z][a-z]+(?:\s+[A-Z][a-z]+)*/g;
+const CLAUSE_START = /(?:^|[.;:!?\n]|--|—|-\s)\s*$/;
+
+// Ranks, units and service words writers capitalise without naming anything
+const GENERIC_TITLE_WORDS = new Set([
+  'airman', 'airmen', 'amn', 'wing', 'squadron', 'sq', 'group', 'gp', 'flight', 'flt', 'air', 'force',
+  'base', 'team', 'unit', 'section', 'office', 'commander', 'chief', 'sergeant', 'officer', 'member',
+  'members', 'guard', 'reserve', 'space', 'army', 'navy', 'marine', 'marines', 'joint', 'total',
+]);
+
+function isFigureBoundary(text: string, start: number, end: number): boolean {
+  const before = text[start - 1] ?? '';
+  const after = text[end] ?? '';
+  // Skip serials and ranges written as identifiers: 24-1, 24/7
+  return !/[A-Za-z0-9.\-\/]/.test(before) && !/[A-Za-z0-9\/]/.test(after) && !/^-\d/.test(text.slice(end));
+}
+
+function extractFigures(text: string): Fact[] {
+  const figures: Fact[] = [];
+  for (const match of Array.from(text.matchAll(FIGURE_PATTERN))) {
+    const [whole, dollar, digits, decimals, multiplier, percent] = match;
+    const trimmed = whole.trimEnd();
+    if (!isFigureBoundary(text, match.index!, match.index! + trimmed.length)) continue;
+    const value = parseFloat(digits.replace(/,/g, '') + (decimals ?? '')) * (multiplier ? MULTIPLIERS[multiplier.toLowerCase()] : 1);
+    figures.push({
+      kind: dollar ? 'money' : percent ? 'percent' : 'number',
+      text: trimmed,
+      value,
+    });
+  }
+  return figures;
+}
+
+function spelledValues(text: string): number[] {
+  return Array.from(text.toLowerCase().matchAll(/[a-z]+/g), match => NUMBER_WORDS[match[0]])
+    .filter((value): value is number => value !== undefined);
+}
+
+function extractNames(text: string): Fact[] {
+  const common = new Set(COMMON_ACRONYMS.map(acronym => acronym.toUpperCase()));
+  const names = new Map<string, Fact>();
+  const add = (name: string) => {
+    const key = name.toLowerCase();
+    if (!names.has(key)) names.set(key, { kind: 'name', text: name, value: null });
+  };
+
+  for (const match of Array.from(text.matchAll(DESIGNATOR_PATTERN))) add(match[0]);
+  for (const match of Array.from(text.matchAll(OPERATION_PATTERN))) add(match[0]);
+  for (const match of Array.from(text.matchAll(CAPITALISED_PATTERN))) {
+    // "KC" in KC-135 is part of the designator
+    if (!common.has(match[0]) && !/^-\d/.test(text.slice(match.index! + match[0].length))) add(match[0]);
+  }
+  for (const match of Array.from(text.matchAll(TITLE_CASE_PATTERN))) {
+    const words = match[0].split(/\s+/);
+    // The first word may only be capitalised because it opens the clause
+    const start = CLAUSE_START.test(text.slice(0, match.index!)) ? 1 : 0;
+    const proper = words.slice(start).filter(word => !GENERIC_TITLE_WORDS.has(word.toLowerCase()));
+    if (proper.length > 0 && !/^(?:Operation|Exercise|Op|Ex)$/.test(words[0])) add(words.slice(start).join(' '));
+  }
+
+  return Array.from(names.values());
+}
+
+export function extractFacts(text: string): Fact[] {
+  return [...extractFigures(text), ...extractNames(text)];
+}
+
+function sameFigure(a: number, b: number): boolean {
+  if (a === b) return true;
+  return Math.abs(a - b) / Math.max(Math.abs(a), Math.abs(b)) <= FIGURE_TOLERANCE;
+}
+
+function normalise(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ');
+}
+
+// Initials of every run of two to six words, so "Operation Inherent Resolve"
+// in the source accepts "OIR" in the rewrite and the other way round
+function initialisms(text: string): Set<string> {
+  const words = Array.from(text.matchAll(/[A-Za-z][A-Za-z'-]*/g), match => match[0][0].toUpperCase());
+  const found = new Set<string>();
+  for (let start = 0; start < words.length; start++) {
+    for (let length = 2; length <= 6 && start + length <= words.length; length++) {
+      found.add(words.slice(start, start + length).join(''));
+    }
+  }
+  return found;
+}
+
+function mentions(text: string, textInitials: Set<string>, name: string): boolean {
+  if (normalise(text).includes(normalise(name))) return true;
+  // An acronym spelled out, or a name shortened to its acronym
+  if (/^[A-Z&]+$/.test(name) && textInitials.has(name.replace(/&/g, ''))) return true;
+  const nameInitials = name.split(/\s+/).map(word => word[0].toUpperCase()).join('');
+  return nameInitials.length > 1 && new RegExp(`\\b${nameInitials}\\b`).test(text);
+}
+
+// Compare a rewrite against everything the member supplied (win fields, ask-back
+// answers, the draft they edited)
+export function checkFacts(sources: string[], rewritten: string): FactIssue[] {
+  const sourceText = sources.filter(Boolean).join('\n');
+  const sourceFacts = extractFacts(sourceText);
+  const rewrittenFacts = extractFacts(rewritten);
+  const sourceValues = [...sourceFacts.filter(fact => fact.value !== null).map(fact => fact.value!), ...spelledValues(sourceText)];
+  const rewrittenValues = [...rewrittenFacts.filter(fact => fact.value !== null).map(fact => fact.value!), ...spelledValues(rewritten)];
+  const sourceInitials = initialisms(sourceText);
+  const rewrittenInitials = initialisms(rewritten);
+  const issues: FactIssue[] = [];
+  const reported = new Set<string>();
+  const report = (type: FactIssue['type'], fact: Fact, message: string) => {
+    const key = `${type}:${fact.value ?? normalise(fact.text)}`;
+    if (reported.has(key)) return;
+    reported.add(key);
+    issues.push({ type, fact, message });
+  };
+
+  for (const fact of sourceFacts) {
+    const kept = fact.value !== null
+      ? rewrittenValues.some(value => sameFigure(value, fact.value!))
+      : mentions(rewritten, rewrittenInitials, fact.text);
+    if (!kept) report('dropped', fact, `"${fact.text}" from your inputs is missing`);
+  }
+
+  for (const fact of rewrittenFacts) {
+    const grounded = fact.value !== null
+      ? sourceValues.some(value => sameFigure(value, fact.value!))
+      : mentions(sourceText, sourceInitials, fact.text);
+    if (!grounded) report('invented', fact, `"${fact.text}" doesn't appear in your wins or answers`);
+  }
+
+  return issues;
+}
+
+// Dropped names are expected when a statement is cut to length; invented
+// anything and dropped figures are not
+export function isBlockingFactIssue(issue: FactIssue): boolean {
+  return issue.type === 'invented' || issue.fact.kind !== 'name';
+}
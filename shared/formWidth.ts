@@ -0,0 +1,159 @@
+import { abbreviate, GLOBAL_ABBREVIATIONS, shortenNumbers, type AbbreviationEntry } from "./abbreviations";
+
+// Rendered-width measurement for AF Form 910 narrative statements. The form
+// limits how much text fits in the box, not how many characters it has, so a
+// statement heavy in "m" and "W" can overflow where one full of "i" and "l"
+// fits. Widths are Times New Roman 12 pt advance widths at 96 dpi.
+
+export const FORM_FONT_SIZE_PT = 12;
+// 7.5 in narrative block at 96 dpi, three lines per statement
+export const FORM_LINE_WIDTH_PX = 720;
+export const FORM_MAX_LINES = 3;
+
+// Advance widths in 1/1000 em (Times Roman metrics)
+const GLYPH_WIDTHS: Record<string, number> = {
+  ' ': 250, '!': 333, '"': 408, '#': 500, '$': 500, '%': 833, '&': 778, "'": 180, '(': 333, ')': 333,
+  '*': 500, '+': 564, ',': 250, '-': 333, '.': 250, '/': 278, ':': 278, ';': 278, '<': 564, '=': 564,
+  '>': 564, '?': 444, '@': 921, '[': 333, '\\': 278, ']': 333, '^': 469, '_': 500, '`': 333, '{': 480,
+  '|': 200, '}': 480, '~': 541, '–': 500, '—': 1000, '‘': 333, '’': 333, '“': 444, '”': 444, '…': 1000,
+  '0': 500, '1': 500, '2': 500, '3': 500, '4': 500, '5': 500, '6': 500, '7': 500, '8': 500, '9': 500,
+  A: 722, B: 667, C: 667, D: 722, E: 611, F: 556, G: 722, H: 722, I: 333, J: 389, K: 722, L: 611, M: 889,
+  N: 722, O: 722, P: 556, Q: 722, R: 667, S: 556, T: 611, U: 722, V: 722, W: 944, X: 722, Y: 722, Z: 611,
+  a: 444, b: 500, c: 444, d: 500, e: 444, f: 333, g: 500, h: 500, i: 278, j: 278, k: 500, l: 278, m: 778,
+  n: 500, o: 500, p: 500, q: 500, r: 333, s: 389, t: 278, u: 500, v: 500, w: 722, x: 500, y: 500, z: 444,
+};
+const DEFAULT_GLYPH_WIDTH = 500;
+
+export interface FormWidthOptions {
+  lineWidthPx?: number;
+  maxLines?: number;
+}
+
+export interface TightenOptions extends FormWidthOptions {
+  // Dictionary to abbreviate from; the global list when omitted
+  abbreviations?: AbbreviationEntry[];
+}
+
+export interface FormFit {
+  fits: boolean;
+  // Width of each wrapped line, in px
+  lines: number[];
+  lineWidthPx: number;
+  maxLines: number;
+  // Width of the text that wraps past the last allowed line; 0 when it fits
+  overflowPx: number;
+  // Room left before the text would wrap past the last allowed line; 0 when it doesn't fit
+  remainingPx: number;
+}
+
+export function measureText(text: string, fontSizePt = FORM_FONT_SIZE_PT): number {
+  const pxPerUnit = (fontSizePt * 96) / 72 / 1000;
+  let units = 0;
+  for (const char of Array.from(text)) units += GLYPH_WIDTHS[char] ?? DEFAULT_GLYPH_WIDTH;
+  return units * pxPerUnit;
+}
+
+// Greedy word wrap, the way the form's text box breaks lines
+export function measureFormFit(text: string, options: FormWidthOptions = {}): FormFit {
+  const lineWidthPx = options.lineWidthPx ?? FORM_LINE_WIDTH_PX;
+  const maxLines = options.maxLines ?? FORM_MAX_LINES;
+  const space = measureText(' ');
+  const lines: number[] = [];
+  let current = 0;
+
+  for (const word of text.trim().split(/\s+/).filter(Boolean)) {
+    const width = measureText(word);
+    if (current > 0 && current + space + width > lineWidthPx) {
+      lines.push(current);
+      current = 0;
+    }
+    current = current > 0 ? current + space + width : width;
+    // A single word wider than the box breaks mid-word
+    while (current > lineWidthPx) {
+      lines.push(lineWidthPx);
+      current -= lineWidthPx;
+    }
+  }
+  if (current > 0) lines.push(current);
+
+  const overflowLines = lines.slice(maxLines);
+  const fits = overflowLines.length === 0;
+  const lastLine = lines[lines.length - 1] ?? 0;
+  const emptyLines = maxLines - Math.max(lines.length, 1);
+  return {
+    fits,
+    lines: lines.map(width => Math.round(width)),
+    lineWidthPx,
+    maxLines,
+    // Each wrapped line costs the space it broke on
+    overflowPx: fits ? 0 : Math.ceil(overflowLines.reduce((total, width) => total + space + width, 0)),
+    remainingPx: fits ? Math.floor(lineWidthPx - lastLine + emptyLines * lineWidthPx) : 0,
+  };
+}
+
+interface TighteningRule {
+  label: string;
+  // Lower tiers are tried first: number formats, then symbols, then abbreviations
+  tier: number;
+  apply: (text: string) => string;
+}
+
+function replaceRule(label: string, tier: number, pattern: RegExp, replacement: string): TighteningRule {
+  return { label, tier, apply: text => text.replace(pattern, replacement) };
+}
+
+function tighteningRules(abbreviations: AbbreviationEntry[]): TighteningRule[] {
+  return [
+    { label: 'Shortened numbers', tier: 0, apply: shortenNumbers },
+    replaceRule('Used "&" for "and"', 1, /\band\b/g, '&'),
+    replaceRule('Used "w/" for "with"', 1, /\bwith\b/g, 'w/'),
+    replaceRule('Used "thru" for "through"', 1, /\bthrough\b/g, 'thru'),
+    replaceRule('Used "~" for "approximately"', 1, /\bapproximately\s/gi, '~'),
+    ...abbreviations.map(entry => ({
+      label: `Abbreviated "${entry.term}"`,
+      tier: 2,
+      apply: (text: string) => abbreviate(text, entry),
+    })),
+  ];
+}
+
+export interface TightenResult {
+  text: string;
+  // Labels of the rules applied, in order
+  changes: string[];
+  fit: FormFit;
+}
+
+// Applies tightening rules until the statement fits the form or nothing else
+// helps: the lowest tier that still saves width goes first, and within a tier
+// the rule saving the most. Wording and facts are left alone.
+export function tightenToWidth(text: string, options: TightenOptions = {}): TightenResult {
+  let current = text;
+  let fit = measureFormFit(current, options);
+  const changes: string[] = [];
+  const remaining = tighteningRules(options.abbreviations ?? GLOBAL_ABBREVIATIONS);
+
+  while (!fit.fits && remaining.length > 0) {
+    const currentWidth = measureText(current);
+    let bestIndex = -1;
+    let bestText = current;
+    let bestSaved = 0;
+    for (let index = 0; index < remaining.length; index++) {
+      if (bestIndex !== -1 && remaining[index].tier > remaining[bestIndex].tier) break;
+      const candidate = remaining[index].apply(current);
+      const saved = currentWidth - measureText(candidate);
+      if (saved > bestSaved) {
+        bestIndex = index;
+        bestText = candidate;
+        bestSaved = saved;
+      }
+    }
+    if (bestIndex === -1) break;
+    changes.push(remaining[bestIndex].label);
+    remaining.splice(bestIndex, 1);
+    current = bestText;
+    fit = measureFormFit(current, options);
+  }
+
+  return { text: current, changes, fit };
+}
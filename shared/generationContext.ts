@@ -0,0 +1,94 @@
+import type { GenerationAudience, User } from "./schema";
+import type { Rank } from "./types";
+import { RANK_ABBREVIATIONS, RANK_NAMES } from "./ranks";
+import { findAfsc } from "./afscs";
+
+// What every prompt is told about the member and who the statement is for. A
+// SrA is credited for their own work and their work center; a MSgt is expected
+// to show programs, people and impact across the squadron and beyond.
+
+export type GenerationProfile = Pick<User, 'rank' | 'afsc' | 'shred' | 'skillLevel'>;
+
+export const AUDIENCE_LABELS: Record<GenerationAudience, string> = {
+  epb: "EPB",
+  award: "Award package",
+  decoration: "Decoration",
+};
+
+export const AUDIENCE_DESCRIPTIONS: Record<GenerationAudience, string> = {
+  epb: "Concise and factual for the Enlisted Performance Brief",
+  award: "Competitive, for a quarterly or annual award board",
+  decoration: "Formal narrative for a medal citation",
+};
+
+const AUDIENCE_GUIDANCE: Record<GenerationAudience, string> = {
+  epb: "The statement is for an Enlisted Performance Brief. Keep it concise and factual: plain action, impact and result with standard abbreviations, no superlatives and no stratification claims.",
+  award: "The statement is for an award package read by a board comparing nominees. Lead with the most competitive accomplishment, quantify scope, show impact beyond the member's own unit, and keep rankings such as \"#1 of 40\" only when the inputs give them.",
+  decoration: "The statement is for a decoration citation. Write a formal, past-tense narrative of distinguished achievement that stresses the member's contribution to the unit and the Air Force mission. Spell terms out rather than abbreviating them.",
+};
+
+type RankTier = 'airman' | 'nco' | 'snco';
+
+const RANK_TIERS: Record<Rank, RankTier> = {
+  'E-1': 'airman',
+  'E-2': 'airman',
+  'E-3': 'airman',
+  'E-4': 'airman',
+  'E-5': 'nco',
+  'E-6': 'nco',
+  'E-7': 'snco',
+  'E-8': 'snco',
+  'E-9': 'snco',
+};
+
+const TIER_EXPECTATIONS: Record<RankTier, string> = {
+  airman: "Credit technical skill, reliability and initiative in their own duties; impact is felt by their work center and flight. Do not inflate them into leading large teams or programs the inputs do not mention.",
+  nco: "Credit leading small teams, supervising and training Airmen, and owning a section's tasks; impact reaches the flight and squadron.",
+  snco: "Credit managing programs, people and resources across sections or flights and shaping policy; impact reaches the squadron, group, wing or higher.",
+};
+
+const SKILL_LEVEL_TITLES: Record<string, string> = {
+  '3': 'apprentice',
+  '5': 'journeyman',
+  '7': 'craftsman',
+  '9': 'superintendent',
+};
+
+export interface GenerationContext {
+  audience: GenerationAudience;
+  // Who the member is and what is expected at their grade; goes ahead of the prompt
+  brief: string;
+  // Tone and scope for the audience; goes after the system instructions
+  guidance: string;
+}
+
+function isRank(value: string | null | undefined): value is Rank {
+  return !!value && Object.hasOwn(RANK_TIERS, value);
+}
+
+export function buildGenerationContext(profile: GenerationProfile | undefined, audience: GenerationAudience = 'epb'): GenerationContext {
+  const member: string[] = [];
+  const rank = isRank(profile?.rank) ? profile!.rank : null;
+  if (rank) member.push(`${RANK_ABBREVIATIONS[rank]} (${RANK_NAMES[rank]}, ${rank})`);
+
+  const afsc = findAfsc(profile?.afsc);
+  const shred = profile?.shred?.trim().toUpperCase();
+  const shredNote = shred ? ` (shred ${shred})` : '';
+  if (afsc) member.push(`${afsc.code} ${afsc.title}${shredNote}`);
+  else if (profile?.afsc?.trim()) member.push(`AFSC ${profile.afsc.trim().toUpperCase()}${shredNote}`);
+
+  const skillTitle = profile?.skillLevel ? SKILL_LEVEL_TITLES[profile.skillLevel] : undefined;
+  if (skillTitle) member.push(`${profile!.skillLevel}-level (${skillTitle})`);
+
+  const lines: string[] = [];
+  if (member.length > 0) lines.push(`Member: ${member.join(', ')}`);
+  if (rank) lines.push(`Scope expected at this grade: ${TIER_EXPECTATIONS[RANK_TIERS[rank]]}`);
+  if (afsc) lines.push(`Use the terminology of the ${afsc.title} career field where the inputs support it.`);
+  lines.push(`Written for: ${AUDIENCE_LABELS[audience]}`);
+
+  return {
+    audience,
+    brief: lines.join('\n'),
+    guidance: AUDIENCE_GUIDANCE[audience],
+  };
+}
@@ -0,0 +1,42 @@
+// Progress of a streamed generation request. The /stream endpoints send these
+// as Server-Sent Events:
+//   event: progress  data: GenerationProgressEvent
+//   event: result    data: the same JSON the non-streaming endpoint responds with
+//   event: error     data: { message }
+// Closing the connection cancels the request; nothing is saved. Job event
+// streams (shared/jobs.ts) also send
+//   event: retry     data: JobRetryEvent
+// when an attempt failed and the job is queued to run again.
+
+export type GenerationStage =
+  | 'draft'     // first draft from wins
+  | 'stage1'    // enhanced regeneration: ask-back answers worked in
+  | 'feedback'  // scoring and improvements
+  | 'questions' // ask-back questions
+  | 'final';    // enhanced regeneration: polished result
+
+export type GenerationStageStatus =
+  | 'started'
+  | 'retrying'  // the attempt changed the facts; partial text so far is discarded
+  | 'done';
+
+export type GenerationProgressEvent =
+  | { type: 'stage'; stage: GenerationStage; status: GenerationStageStatus; text?: string }
+  | { type: 'token'; stage: GenerationStage; text: string };
+
+export type GenerationStreamEventName = 'progress' | 'result' | 'error' | 'retry';
+
+export interface JobRetryEvent {
+  attempts: number;
+  maxAttempts: number;
+  // ISO time the next attempt starts at the earliest
+  runAfter: string;
+}
+
+export const GENERATION_STAGE_LABELS: Record<GenerationStage, string> = {
+  draft: "Writing first draft",
+  stage1: "Working in your answers",
+  feedback: "Reviewing the draft",
+  questions: "Writing follow-up questions",
+  final: "Polishing",
+};
@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { generationAudiences, type GenerationJobKind, type GenerationJobStatus } from "./schema";
+import type { GenerationStage, GenerationStageStatus } from "./generationStream";
+
+// Background generation jobs. POST /api/jobs queues one and answers 202 with
+// the job; the client then polls GET /api/jobs/:id or follows
+// GET /api/jobs/:id/events (the progress/result/error events of
+// shared/generationStream.ts). Closing either does not stop the job, so a
+// client that drops off can reconnect to the same ID and collect the result.
+
+// The member's answers keyed by question; regeneration without answers is the
+// first draft
+export const askBackAnswersSchema = z.record(z.string()).default({});
+
+export const jobRequestSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("generate"),
+    winIds: z.array(z.string()).min(1, "No valid wins provided"),
+    mode: z.enum(["combine", "separate"]).default("combine"),
+    audience: z.enum(generationAudiences).default("epb"),
+  }),
+  z.object({
+    kind: z.literal("feedback"),
+    statementId: z.string(),
+  }),
+  z.object({
+    kind: z.literal("askbacks"),
+    statementId: z.string(),
+  }),
+  z.object({
+    kind: z.literal("regenerate"),
+    statementId: z.string(),
+    askBackAnswers: askBackAnswersSchema,
+  }),
+]);
+
+export type JobRequest = z.infer<typeof jobRequestSchema>;
+// The body of POST /api/jobs, before defaults
+export type JobRequestInput = z.input<typeof jobRequestSchema>;
+
+// A stage as last recorded; text is the stage's output once it is done
+export interface JobStageProgress {
+  stage: GenerationStage;
+  status: GenerationStageStatus;
+  text?: string;
+}
+
+// GET /api/jobs/:id
+export interface GenerationJobView {
+  id: string;
+  kind: GenerationJobKind;
+  status: GenerationJobStatus;
+  statementId: string | null;
+  progress: JobStageProgress[];
+  result: unknown;
+  error: string | null;
+  attempts: number;
+  createdAt: string | null;
+  completedAt: string | null;
+}
@@ -0,0 +1,32 @@
+import type { Statement, Win } from "./schema";
+
+// Win-to-statement lineage, read back from statements.sourceWinIds. Statements
+// in the Trash don't count as using a win.
+
+export type WithUsage<T> = T & {
+  // Statements outside the Trash built from this win
+  statementCount: number;
+};
+
+export const winUsageFilters = ["all", "used", "unused"] as const;
+export type WinUsageFilter = typeof winUsageFilters[number];
+
+export type LineageStatement = Pick<Statement, "id" | "content" | "category" | "isCompleted" | "createdAt" | "deletedAt">;
+
+export interface WinLineage {
+  winId: string;
+  // Newest first, including any in the Trash (deletedAt set)
+  statements: LineageStatement[];
+}
+
+// A source reference resolves to a live win, one in the Trash, or nothing
+// once the win has been permanently deleted
+export type LineageSource =
+  | { winId: string; status: "active" | "trashed"; win: Pick<Win, "id" | "category" | "action" | "occurredOn" | "endedOn" | "deletedAt"> }
+  | { winId: string; status: "missing"; win: null };
+
+export interface StatementLineage {
+  statementId: string;
+  // In sourceWinIds order
+  sources: LineageSource[];
+}
@@ -0,0 +1,27 @@
+import type { Rank } from "./types";
+
+// Full rank titles
+export const RANK_NAMES: Record<Rank, string> = {
+  'E-1': 'Airman Basic',
+  'E-2': 'Airman',
+  'E-3': 'Airman First Class',
+  'E-4': 'Senior Airman',
+  'E-5': 'Staff Sergeant',
+  'E-6': 'Technical Sergeant',
+  'E-7': 'Master Sergeant',
+  'E-8': 'Senior Master Sergeant',
+  'E-9': 'Chief Master Sergeant',
+};
+
+// Official abbreviations used on forms and signature blocks
+export const RANK_ABBREVIATIONS: Record<Rank, string> = {
+  'E-1': 'AB',
+  'E-2': 'Amn',
+  'E-3': 'A1C',
+  'E-4': 'SrA',
+  'E-5': 'SSgt',
+  'E-6': 'TSgt',
+  'E-7': 'MSgt',
+  'E-8': 'SMSgt',
+  'E-9': 'CMSgt',
+};
@@ -0,0 +1,72 @@
+import { isIsoDate, parseIsoDate, toIsoDate } from "./winDates";
+
+// Rating period (EPB cycle) helpers shared by the period switcher and the
+// server-side export filter
+
+interface PeriodRange {
+  id: string;
+  startDate: string;
+  closeOutDate: string;
+  status: string;
+}
+
+interface PeriodScoped {
+  ratingPeriodId?: string | null;
+}
+
+// Switcher value: a period ID, every period that isn't archived, or everything
+export type RatingPeriodFilter = 'active' | 'all' | string;
+
+export function periodsOverlap(a: Pick<PeriodRange, 'startDate' | 'closeOutDate'>, b: Pick<PeriodRange, 'startDate' | 'closeOutDate'>): boolean {
+  return a.startDate <= b.closeOutDate && b.startDate <= a.closeOutDate;
+}
+
+export function findOverlappingPeriod<T extends PeriodRange>(
+  periods: T[],
+  candidate: Pick<PeriodRange, 'startDate' | 'closeOutDate'>,
+  excludeId?: string,
+): T | undefined {
+  return periods.find(period => period.id !== excludeId && periodsOverlap(period, candidate));
+}
+
+// Returns an error message, or null when the dates are usable
+export function validateRatingPeriodRange(period: { startDate: string; closeOutDate: string; scod?: string | null }): string | null {
+  if (!isIsoDate(period.startDate)) return 'Start date must be a valid YYYY-MM-DD date';
+  if (!isIsoDate(period.closeOutDate)) return 'Close-out date must be a valid YYYY-MM-DD date';
+  if (period.scod && !isIsoDate(period.scod)) return 'SCOD must be a valid YYYY-MM-DD date';
+  if (period.closeOutDate < period.startDate) return 'Close-out date cannot be before the start date';
+  if (period.scod && period.scod < period.startDate) return 'SCOD cannot be before the start date';
+  return null;
+}
+
+// The period that contains today, if any
+export function findCurrentPeriod<T extends PeriodRange>(periods: T[], today: Date = new Date()): T | undefined {
+  const date = toIsoDate(today);
+  return periods.find(period => period.startDate <= date && date <= period.closeOutDate);
+}
+
+export function matchesPeriodFilter(item: PeriodScoped, filter: RatingPeriodFilter, periods: PeriodRange[]): boolean {
+  if (filter === 'all') return true;
+  if (filter === 'active') {
+    const period = periods.find(p => p.id === item.ratingPeriodId);
+    return !period || period.status !== 'archived';
+  }
+  return item.ratingPeriodId === filter;
+}
+
+// A one-year period ending on the given close-out date, e.g. for pre-filling
+// the create form from the member's SCOD
+export function suggestRatingPeriod(closeOut: Date): { name: string; startDate: string; closeOutDate: string; scod: string } {
+  const start = new Date(closeOut.getFullYear() - 1, closeOut.getMonth(), closeOut.getDate() + 1);
+  return {
+    name: `${closeOut.getFullYear()} EPB`,
+    startDate: toIsoDate(start),
+    closeOutDate: toIsoDate(closeOut),
+    scod: toIsoDate(closeOut),
+  };
+}
+
+export function formatPeriodRange(period: Pick<PeriodRange, 'startDate' | 'closeOutDate'>): string {
+  const format = (value: string) => parseIsoDate(value).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+  return `${format(period.startDate)} – ${format(period.closeOutDate)}`;
+}
@@ -1,6 +1,8 @@
 import { sql } from 'drizzle-orm';
 import {
   index,
+  uniqueIndex,
+  primaryKey,
   jsonb,
   pgTable,
   timestamp,
@@ -8,10 +10,12 @@ import {
   text,
   integer,
   boolean,
+  date,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { ISO_DATE_PATTERN } from "./winDates";
 
 // Session storage table (mandatory for Replit Auth)
 export const sessions = pgTable(
@@ -72,6 +76,24 @@ export const performanceCategories = [
   "Personal Development"
 ] as const;
 
+// Rating period lifecycle: open while collecting, closed after close-out,
+// archived to drop out of the default views
+export const ratingPeriodStatuses = ["open", "closed", "archived"] as const;
+
+// Rating periods table - one EPB cycle per row; wins and statements are assigned
+// to the period whose date range contains them
+export const ratingPeriods = pgTable("rating_periods", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  startDate: date("start_date").notNull(), // first day of the period (YYYY-MM-DD)
+  closeOutDate: date("close_out_date").notNull(), // last day of the period
+  scod: date("scod"), // static close-out date the EPB is due against
+  status: varchar("status").notNull().default("open"), // one of ratingPeriodStatuses
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_rating_periods_user").on(table.userId)]);
+
 // Wins table - stores raw AIR entries
 export const wins = pgTable("wins", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -80,9 +102,16 @@ export const wins = pgTable("wins", {
   action: text("action").notNull(),
   impact: text("impact").notNull(),
   result: text("result").notNull(),
+  occurredOn: date("occurred_on").notNull().default(sql`CURRENT_DATE`), // when the accomplishment happened (YYYY-MM-DD)
+  endedOn: date("ended_on"), // last day of a multi-week effort (optional)
+  ratingPeriodId: varchar("rating_period_id").references(() => ratingPeriods.id, { onDelete: "set null" }), // assigned from occurredOn
+  deletedAt: timestamp("deleted_at"), // set while in the Trash; purged after the retention window
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  // Full-text search over the AIR fields (server/search.ts)
+  index("IDX_wins_search").using("gin", sql`to_tsvector('english', ${table.action} || ' ' || ${table.impact} || ' ' || ${table.result})`),
+]);
 
 // Statements table - stores refined performance statements
 export const statements = pgTable("statements", {
@@ -93,9 +122,61 @@ export const statements = pgTable("statements", {
   aiScore: integer("ai_score"), // 0-10 rating from AI
   isCompleted: boolean("is_completed").default(false), // completed refinement workflow
   sourceWinIds: text("source_win_ids").array(), // IDs of wins used to generate this statement
+  audience: varchar("audience").notNull().default("epb"), // one of generationAudiences
+  ratingPeriodId: varchar("rating_period_id").references(() => ratingPeriods.id, { onDelete: "set null" }), // follows the source wins
+  deletedAt: timestamp("deleted_at"), // set while in the Trash
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_statements_search").using("gin", sql`to_tsvector('english', ${table.content})`),
+  // Lineage lookups ("which statements use this win")
+  index("IDX_statements_source_wins").using("gin", table.sourceWinIds),
+]);
+
+// Tags table - free-form labels (exercise names, deployments, award packages)
+// shared by a member's wins and statements. Names are unique per user ignoring
+// case; the first spelling used is kept.
+export const tags = pgTable("tags", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 50 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_tags_user_name").on(table.userId, sql`lower(${table.name})`)]);
+
+export const winTags = pgTable("win_tags", {
+  winId: varchar("win_id").notNull().references(() => wins.id, { onDelete: "cascade" }),
+  tagId: varchar("tag_id").notNull().references(() => tags.id, { onDelete: "cascade" }),
+}, (table) => [
+  primaryKey({ columns: [table.winId, table.tagId] }),
+  index("IDX_win_tags_tag").on(table.tagId),
+]);
+
+export const statementTags = pgTable("statement_tags", {
+  statementId: varchar("statement_id").notNull().references(() => statements.id, { onDelete: "cascade" }),
+  tagId: varchar("tag_id").notNull().references(() => tags.id, { onDelete: "cascade" }),
+}, (table) => [
+  primaryKey({ columns: [table.statementId, table.tagId] }),
+  index("IDX_statement_tags_tag").on(table.tagId),
+]);
+
+// A dictionary entry either shortens a word (maintenance -> maint) or stands
+// for a phrase that should be spelled out on first use (AFSC)
+export const abbreviationKinds = ["abbreviation", "acronym"] as const;
+
+// A member's own abbreviation dictionary entries, on top of the global list
+// in shared/abbreviations.ts
+export const abbreviations = pgTable("abbreviations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  term: varchar("term", { length: 80 }).notNull(), // the full form
+  abbreviation: varchar("abbreviation", { length: 30 }).notNull(),
+  kind: varchar("kind").notNull().default("abbreviation"), // one of abbreviationKinds
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_abbreviations_user_term").on(table.userId, sql`lower(${table.term})`)]);
+
+// Who a statement is written for; sets the tone and scope of every prompt
+// (shared/generationContext.ts)
+export const generationAudiences = ["epb", "award", "decoration"] as const;
 
 // Refinement sessions table - tracks the 5-step refinement process
 export const refinementSessions = pgTable("refinement_sessions", {
@@ -104,6 +185,7 @@ export const refinementSessions = pgTable("refinement_sessions", {
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   currentStep: integer("current_step").default(1), // 1-5
   aiFeeds: jsonb("ai_feedback"), // AI feedback and scoring
+  askBackQuestions: jsonb("ask_back_questions"), // Last ask-back questions generated
   askBackAnswers: jsonb("ask_back_answers"), // User answers to ask-back questions
   enhancedSteps: jsonb("enhanced_steps"), // Enhanced regeneration intermediate steps
   isCompleted: boolean("is_completed").default(false),
@@ -111,18 +193,87 @@ export const refinementSessions = pgTable("refinement_sessions", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Where a statement version came from
+export const statementVersionSources = [
+  "first_draft",      // AI draft from /api/statements/generate
+  "manual",           // written by hand in the Library
+  "askback_stage1",   // enhanced regeneration, stage 1 (user answers incorporated)
+  "askback_final",    // enhanced regeneration, polished final result
+  "manual_edit",      // edited by hand after creation
+  "restore",          // an older version restored as current
+  "original",         // content from before version history was kept (startup backfill)
+] as const;
+
+// Statement versions table - append-only history of every content change
+export const statementVersions = pgTable("statement_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  statementId: varchar("statement_id").notNull().references(() => statements.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  content: text("content").notNull(),
+  source: varchar("source").notNull(), // one of statementVersionSources
+  aiScore: integer("ai_score"), // 0-10 rating from AI, when one was produced for this content
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_statement_versions_statement").on(table.statementId)]);
+
+export const generationJobKinds = ["generate", "feedback", "askbacks", "regenerate"] as const;
+export const generationJobStatuses = ["queued", "running", "succeeded", "failed", "cancelled"] as const;
+
+// Generation jobs table - AI work run by the background worker (server/jobs.ts)
+// so a result survives the client disconnecting. Failed attempts are retried
+// with backoff by moving runAfter.
+export const generationJobs = pgTable("generation_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  statementId: varchar("statement_id").references(() => statements.id, { onDelete: "cascade" }), // null for "generate"
+  kind: varchar("kind").notNull(), // one of generationJobKinds
+  status: varchar("status").notNull().default("queued"), // one of generationJobStatuses
+  input: jsonb("input").notNull(), // the request (shared/jobs.ts)
+  progress: jsonb("progress"), // stages started and finished so far
+  output: jsonb("output"), // model output, saved before anything is written so a retry reuses it
+  result: jsonb("result"), // what the equivalent JSON endpoint responds with
+  error: text("error"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(4),
+  runAfter: timestamp("run_after").notNull().defaultNow(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_generation_jobs_queue").on(table.status, table.runAfter),
+  index("IDX_generation_jobs_user").on(table.userId, table.createdAt),
+]);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   wins: many(wins),
   statements: many(statements),
   refinementSessions: many(refinementSessions),
+  ratingPeriods: many(ratingPeriods),
+  tags: many(tags),
+  abbreviations: many(abbreviations),
+  generationJobs: many(generationJobs),
+}));
+
+export const ratingPeriodsRelations = relations(ratingPeriods, ({ one, many }) => ({
+  user: one(users, {
+    fields: [ratingPeriods.userId],
+    references: [users.id],
+  }),
+  wins: many(wins),
+  statements: many(statements),
 }));
 
-export const winsRelations = relations(wins, ({ one }) => ({
+export const winsRelations = relations(wins, ({ one, many }) => ({
   user: one(users, {
     fields: [wins.userId],
     references: [users.id],
   }),
+  ratingPeriod: one(ratingPeriods, {
+    fields: [wins.ratingPeriodId],
+    references: [ratingPeriods.id],
+  }),
+  tags: many(winTags),
 }));
 
 export const statementsRelations = relations(statements, ({ one, many }) => ({
@@ -130,7 +281,63 @@ export const statementsRelations = relations(statements, ({ one, many }) => ({
     fields: [statements.userId],
     references: [users.id],
   }),
+  ratingPeriod: one(ratingPeriods, {
+    fields: [statements.ratingPeriodId],
+    references: [ratingPeriods.id],
+  }),
   refinementSessions: many(refinementSessions),
+  versions: many(statementVersions),
+  tags: many(statementTags),
+  generationJobs: many(generationJobs),
+}));
+
+export const abbreviationsRelations = relations(abbreviations, ({ one }) => ({
+  user: one(users, {
+    fields: [abbreviations.userId],
+    references: [users.id],
+  }),
+}));
+
+export const tagsRelations = relations(tags, ({ one, many }) => ({
+  user: one(users, {
+    fields: [tags.userId],
+    references: [users.id],
+  }),
+  wins: many(winTags),
+  statements: many(statementTags),
+}));
+
+export const winTagsRelations = relations(winTags, ({ one }) => ({
+  win: one(wins, {
+    fields: [winTags.winId],
+    references: [wins.id],
+  }),
+  tag: one(tags, {
+    fields: [winTags.tagId],
+    references: [tags.id],
+  }),
+}));
+
+export const statementTagsRelations = relations(statementTags, ({ one }) => ({
+  statement: one(statements, {
+    fields: [statementTags.statementId],
+    references: [statements.id],
+  }),
+  tag: one(tags, {
+    fields: [statementTags.tagId],
+    references: [tags.id],
+  }),
+}));
+
+export const statementVersionsRelations = relations(statementVersions, ({ one }) => ({
+  statement: one(statements, {
+    fields: [statementVersions.statementId],
+    references: [statements.id],
+  }),
+  user: one(users, {
+    fields: [statementVersions.userId],
+    references: [users.id],
+  }),
 }));
 
 export const refinementSessionsRelations = relations(refinementSessions, ({ one }) => ({
@@ -144,25 +351,82 @@ export const refinementSessionsRelations = relations(refinementSessions, ({ one
   }),
 }));
 
+export const generationJobsRelations = relations(generationJobs, ({ one }) => ({
+  user: one(users, {
+    fields: [generationJobs.userId],
+    references: [users.id],
+  }),
+  statement: one(statements, {
+    fields: [generationJobs.statementId],
+    references: [statements.id],
+  }),
+}));
+
 // Insert schemas
-export const insertWinSchema = createInsertSchema(wins).omit({
+export const insertWinSchema = createInsertSchema(wins, {
+  occurredOn: z.string().regex(ISO_DATE_PATTERN, "Date must be YYYY-MM-DD").optional(),
+  endedOn: z.string().regex(ISO_DATE_PATTERN, "End date must be YYYY-MM-DD").nullable().optional(),
+}).omit({
   id: true,
+  ratingPeriodId: true,
+  deletedAt: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertStatementSchema = createInsertSchema(statements).omit({
+// Client-editable win fields; ownership is never changed through an update
+export const updateWinSchema = insertWinSchema.omit({ userId: true }).partial();
+
+export const insertStatementSchema = createInsertSchema(statements, {
+  audience: z.enum(generationAudiences).optional(),
+}).omit({
   id: true,
+  ratingPeriodId: true,
+  deletedAt: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// Client-editable statement fields; ownership is never changed through an update
+export const updateStatementSchema = insertStatementSchema.omit({ userId: true }).partial();
+
 export const insertRefinementSessionSchema = createInsertSchema(refinementSessions).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertStatementVersionSchema = createInsertSchema(statementVersions, {
+  source: z.enum(statementVersionSources),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertRatingPeriodSchema = createInsertSchema(ratingPeriods, {
+  name: z.string().trim().min(1, "Name is required").max(80),
+  startDate: z.string().regex(ISO_DATE_PATTERN, "Start date must be YYYY-MM-DD"),
+  closeOutDate: z.string().regex(ISO_DATE_PATTERN, "Close-out date must be YYYY-MM-DD"),
+  scod: z.string().regex(ISO_DATE_PATTERN, "SCOD must be YYYY-MM-DD").nullable().optional(),
+  status: z.enum(ratingPeriodStatuses).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Client-editable rating period fields
+export const updateRatingPeriodSchema = insertRatingPeriodSchema.omit({ userId: true }).partial();
+
+export const insertAbbreviationSchema = createInsertSchema(abbreviations, {
+  term: z.string().trim().min(1, "Term is required").max(80),
+  abbreviation: z.string().trim().min(1, "Abbreviation is required").max(30),
+  kind: z.enum(abbreviationKinds).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Extended insert and select schemas for users
 export const insertUserProfileSchema = createInsertSchema(users).omit({
   id: true,
@@ -178,11 +442,29 @@ export type User = typeof users.$inferSelect;
 export type InsertUserProfile = z.infer<typeof insertUserProfileSchema>;
 export type UpdateUserProfile = z.infer<typeof updateUserProfileSchema>;
 export type InsertWin = z.infer<typeof insertWinSchema>;
+export type UpdateWin = z.infer<typeof updateWinSchema>;
 export type Win = typeof wins.$inferSelect;
 export type InsertStatement = z.infer<typeof insertStatementSchema>;
+export type UpdateStatement = z.infer<typeof updateStatementSchema>;
 export type Statement = typeof statements.$inferSelect;
+export type InsertStatementVersion = z.infer<typeof insertStatementVersionSchema>;
+export type StatementVersion = typeof statementVersions.$inferSelect;
+export type StatementVersionSource = typeof statementVersionSources[number];
+export type GenerationAudience = typeof generationAudiences[number];
+export type InsertRatingPeriod = z.infer<typeof insertRatingPeriodSchema>;
+export type UpdateRatingPeriod = z.infer<typeof updateRatingPeriodSchema>;
+export type RatingPeriod = typeof ratingPeriods.$inferSelect;
+export type RatingPeriodStatus = typeof ratingPeriodStatuses[number];
+export type Tag = typeof tags.$inferSelect;
+export type InsertAbbreviation = z.infer<typeof insertAbbreviationSchema>;
+export type Abbreviation = typeof abbreviations.$inferSelect;
+export type AbbreviationKind = typeof abbreviationKinds[number];
 export type InsertRefinementSession = z.infer<typeof insertRefinementSessionSchema>;
 export type RefinementSession = typeof refinementSessions.$inferSelect;
+export type GenerationJob = typeof generationJobs.$inferSelect;
+export type InsertGenerationJob = typeof generationJobs.$inferInsert;
+export type GenerationJobKind = typeof generationJobKinds[number];
+export type GenerationJobStatus = typeof generationJobStatuses[number];
 export type PerformanceCategory = typeof performanceCategories[number];
 
 // Re-export types from shared/types.ts for convenience
@@ -0,0 +1,29 @@
+// GET /api/search: ranked full-text search over the Library with keyset
+// (cursor) pagination. Without a query the results are ordered newest first.
+
+export const searchTypes = ["wins", "statements"] as const;
+export type SearchType = typeof searchTypes[number];
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+
+// A run of snippet text; highlighted parts matched the query
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchHit<T> {
+  item: T;
+  // Best-matching fragments of the text, only when a query was given
+  snippet: SnippetPart[] | null;
+  rank: number | null;
+}
+
+export interface SearchPage<T> {
+  hits: SearchHit<T>[];
+  // Total matches across all pages
+  total: number;
+  // Pass back as `cursor` for the next page; null on the last page
+  nextCursor: string | null;
+}
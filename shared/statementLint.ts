@@ -0,0 +1,188 @@
+// Rule-based checks for performance statements (client and server). Everything
+// here is deterministic so the same text always gets the same findings; the AI
+// feedback covers the judgement calls.
+
+export const MAX_STATEMENT_LENGTH = 350;
+
+export type LintRule =
+  | 'length'
+  | 'no-metric'
+  | 'leading-verb'
+  | 'passive-voice'
+  | 'banned-word'
+  | 'repeated-word'
+  | 'weak-verb'
+  | 'undefined-acronym';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+// Offsets into the statement, end exclusive
+export interface LintSpan {
+  start: number;
+  end: number;
+}
+
+export interface LintFinding {
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+  // null when the finding is about the statement as a whole
+  span: LintSpan | null;
+}
+
+export interface LintOptions {
+  maxLength?: number;
+  // Acronyms the member doesn't need to spell out, on top of COMMON_ACRONYMS
+  knownAcronyms?: Iterable<string>;
+}
+
+export const BANNED_WORDS = ['orchestrated', 'utilized', 'utilize', 'synergy', 'synergized', 'very', 'really'];
+
+export const WEAK_VERBS = ['helped', 'assisted', 'worked', 'participated', 'handled', 'tried', 'involved', 'tasked', 'responsible'];
+
+// Irregular past-tense verbs that make a strong opener; anything ending in -ed counts too
+const IRREGULAR_ACTION_VERBS = new Set([
+  'led', 'built', 'drove', 'ran', 'won', 'wrote', 'taught', 'oversaw', 'sought', 'fought', 'bought',
+  'brought', 'kept', 'held', 'made', 'took', 'spent', 'sent', 'set', 'cut', 'rebuilt', 'overhauled',
+  'withstood', 'undertook', 'forged', 'flew', 'shot', 'met', 'beat', 'broke', 'found', 'grew', 'saved',
+]);
+
+const NON_VERB_OPENERS = new Set(['i', 'my', 'we', 'our', 'the', 'a', 'an', 'this', 'member', 'airman', 'sra', 'ssgt']);
+
+const PASSIVE_PARTICIPLES = 'built|led|done|given|taken|made|written|run|won|taught|chosen|seen|known|held|kept|brought|sent|spent|found|[a-z]+ed';
+const PASSIVE_PATTERN = new RegExp(`\\b(?:am|is|are|was|were|be|been|being)\\s+(?:${PASSIVE_PARTICIPLES})\\b`, 'gi');
+
+// Acronyms every rater knows; anything else should be spelled out on first use
+export const COMMON_ACRONYMS = [
+  'AF', 'USAF', 'DoD', 'DOD', 'US', 'USA', 'NATO', 'AFB', 'AB', 'MAJCOM', 'NAF', 'CC', 'CV', 'CCC', 'CMSgt', 'SNCO',
+  'NCO', 'NCOIC', 'OIC', 'AFSC', 'CSAF', 'SecAF', 'TDY', 'PCS', 'AEF', 'EPB', 'OPB', 'EPR', 'OPR', 'PME',
+  'ALS', 'CCAF', 'IAW', 'POC', 'SOP', 'QA', 'IT', 'HQ', 'PT', 'AOR', 'CONUS', 'OCONUS', 'UCMJ', 'FY',
+];
+
+const ACRONYM_PATTERN = /\b[A-Z][A-Za-z]*[A-Z][A-Z0-9&]*s?\b/g;
+// "Quality Assurance (QA)" defines QA for the rest of the statement
+const DEFINITION_PATTERN = /\(([A-Z][A-Za-z0-9&]*[A-Z])s?\)/g;
+// Runs of capitalised words are names ("RED FLAG", "COPE NORTH"), not acronyms
+const CAPITALISED_NAME_PATTERN = /\b[A-Z]{3,}(?:\s+[A-Z]{3,})+\b/g;
+
+const WORD_PATTERN = /[A-Za-z][A-Za-z'-]*/g;
+const MIN_REPEATED_WORD_LENGTH = 4;
+const REPEAT_EXEMPT = new Set(['with', 'that', 'from', 'into', 'their', 'which', 'while', 'over', 'across', 'through']);
+
+function wordsIn(text: string): { word: string; start: number; end: number }[] {
+  return Array.from(text.matchAll(WORD_PATTERN), match => ({
+    word: match[0],
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+function isActionVerb(word: string): boolean {
+  const lower = word.toLowerCase();
+  return IRREGULAR_ACTION_VERBS.has(lower) || (lower.endsWith('ed') && lower.length > 3);
+}
+
+export function hasQuantitativeData(text: string): boolean {
+  return /\d|%|\$/.test(text);
+}
+
+// ACTION; IMPACT--RESULT, or any statement split into clauses the same way
+export function followsAirStructure(text: string): boolean {
+  return /;|--|—/.test(text);
+}
+
+// First use of each acronym that isn't common knowledge and hasn't been spelled
+// out earlier as "Full Name (ACR)"
+export function findUndefinedAcronyms(text: string, knownAcronyms: Iterable<string> = []): { acronym: string; span: LintSpan }[] {
+  const known = new Set([...COMMON_ACRONYMS, ...Array.from(knownAcronyms)].map(acronym => acronym.toUpperCase()));
+  const definedAt = new Map<string, number>();
+  for (const match of Array.from(text.matchAll(DEFINITION_PATTERN))) {
+    if (!definedAt.has(match[1].toUpperCase())) definedAt.set(match[1].toUpperCase(), match.index!);
+  }
+  const names = Array.from(text.matchAll(CAPITALISED_NAME_PATTERN), match => ({ start: match.index!, end: match.index! + match[0].length }));
+  const found: { acronym: string; span: LintSpan }[] = [];
+  const flagged = new Set<string>();
+  for (const match of Array.from(text.matchAll(ACRONYM_PATTERN))) {
+    const acronym = match[0].replace(/s$/, '');
+    const key = acronym.toUpperCase();
+    const defined = definedAt.get(key);
+    if (known.has(key) || flagged.has(key) || (defined !== undefined && defined <= match.index!)) continue;
+    if (names.some(name => match.index! >= name.start && match.index! < name.end)) continue;
+    flagged.add(key);
+    found.push({ acronym, span: { start: match.index!, end: match.index! + match[0].length } });
+  }
+  return found;
+}
+
+export function lintStatement(text: string, options: LintOptions = {}): LintFinding[] {
+  const findings: LintFinding[] = [];
+  const maxLength = options.maxLength ?? MAX_STATEMENT_LENGTH;
+  const words = wordsIn(text);
+
+  if (text.length > maxLength) {
+    findings.push({
+      rule: 'length',
+      severity: 'error',
+      message: `${text.length - maxLength} characters over the ${maxLength}-character limit`,
+      span: { start: maxLength, end: text.length },
+    });
+  }
+
+  if (text.trim() && !hasQuantitativeData(text)) {
+    findings.push({
+      rule: 'no-metric',
+      severity: 'warning',
+      message: 'No metric: add a number, percentage or dollar amount',
+      span: null,
+    });
+  }
+
+  const opener = words[0];
+  if (opener && (NON_VERB_OPENERS.has(opener.word.toLowerCase()) || !isActionVerb(opener.word))) {
+    findings.push({
+      rule: 'leading-verb',
+      severity: 'warning',
+      message: `Open with a strong past-tense action verb instead of "${opener.word}"`,
+      span: { start: opener.start, end: opener.end },
+    });
+  }
+
+  for (const match of Array.from(text.matchAll(PASSIVE_PATTERN))) {
+    findings.push({
+      rule: 'passive-voice',
+      severity: 'warning',
+      message: `Passive voice: "${match[0]}" hides who did the work`,
+      span: { start: match.index!, end: match.index! + match[0].length },
+    });
+  }
+
+  const seen = new Map<string, number>();
+  for (const { word, start, end } of words) {
+    const lower = word.toLowerCase();
+
+    if (BANNED_WORDS.includes(lower)) {
+      findings.push({ rule: 'banned-word', severity: 'error', message: `Avoid "${word}"`, span: { start, end } });
+    } else if (WEAK_VERBS.includes(lower)) {
+      findings.push({ rule: 'weak-verb', severity: 'warning', message: `"${word}" is weak; say what you actually did`, span: { start, end } });
+    }
+
+    if (lower.length >= MIN_REPEATED_WORD_LENGTH && !REPEAT_EXEMPT.has(lower)) {
+      const count = (seen.get(lower) ?? 0) + 1;
+      seen.set(lower, count);
+      if (count === 2) {
+        findings.push({ rule: 'repeated-word', severity: 'info', message: `"${word}" is used more than once`, span: { start, end } });
+      }
+    }
+  }
+
+  for (const { acronym, span } of findUndefinedAcronyms(text, options.knownAcronyms)) {
+    findings.push({
+      rule: 'undefined-acronym',
+      severity: 'info',
+      message: `Spell out "${acronym}" unless every reader will know it`,
+      span,
+    });
+  }
+
+  return findings.sort((a, b) => (a.span?.start ?? -1) - (b.span?.start ?? -1));
+}
@@ -0,0 +1,53 @@
+import { z } from "zod";
+
+// Free-form labels on wins and statements. Tags are matched ignoring case and
+// surrounding whitespace, so "red flag 24-2" and "RED FLAG 24-2" are one tag.
+
+export const MAX_TAG_LENGTH = 50;
+export const MAX_TAGS_PER_ITEM = 20;
+
+// Wins and statements as returned by the API, with their tag names attached
+export type Tagged<T> = T & { tags: string[] };
+
+// GET /api/tags
+export interface TagSummary {
+  id: string;
+  name: string;
+  winCount: number;
+  statementCount: number;
+}
+
+export function cleanTagName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+export function tagKey(name: string): string {
+  return cleanTagName(name).toLowerCase();
+}
+
+// Trims, drops blanks and removes case-insensitive repeats, keeping the first spelling
+export function normalizeTagNames(names: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const name of names) {
+    const cleaned = cleanTagName(name);
+    const key = cleaned.toLowerCase();
+    if (!cleaned || seen.has(key)) continue;
+    seen.add(key);
+    result.push(cleaned);
+  }
+  return result;
+}
+
+// The limit counts the tags that are stored, after blanks and repeats are dropped
+export const tagListSchema = z
+  .array(z.string().max(MAX_TAG_LENGTH, `Tags can be at most ${MAX_TAG_LENGTH} characters`))
+  .transform(normalizeTagNames)
+  .pipe(z.array(z.string()).max(MAX_TAGS_PER_ITEM, `At most ${MAX_TAGS_PER_ITEM} tags`));
+
+// True when the item carries any of the selected tags (or nothing is selected)
+export function matchesTagFilter(itemTags: string[] | undefined, selected: string[]): boolean {
+  if (selected.length === 0) return true;
+  const keys = new Set((itemTags || []).map(tagKey));
+  return selected.some(tag => keys.has(tagKey(tag)));
+}
@@ -0,0 +1,27 @@
+import type { Statement, Win } from "./schema";
+import type { Tagged } from "./tags";
+
+// Deleted wins and statements sit in the Trash until restored, removed by
+// hand, or purged once they have been there longer than the retention window
+// (TRASH_RETENTION_DAYS on the server).
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export interface TrashContents {
+  wins: Tagged<Win>[];
+  statements: Tagged<Statement>[];
+  retentionDays: number;
+}
+
+// Statements still in use that were built from a win, returned with the 409
+// from DELETE /api/wins/:id until the member confirms
+export interface WinReference {
+  id: string;
+  content: string;
+}
+
+export function getPurgeDate(deletedAt: Date | string, retentionDays: number): Date {
+  const purgeAt = new Date(deletedAt);
+  purgeAt.setDate(purgeAt.getDate() + retentionDays);
+  return purgeAt;
+}
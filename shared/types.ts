@@ -86,6 +86,23 @@ export interface AFSC {
 // Due date status for EPB tracking
 export type DueDateStatus = 'urgent' | 'caution' | 'neutral';
 
+// Where a member's static close-out date comes from
+export type DueDateSource = 'rank' | 'custom' | 'default';
+
+// GET /api/profile/due-dates
+export interface ProfileDueDates {
+  source: DueDateSource;
+  // Label for the SCOD table row used, e.g. "SSgt" or "Civilian"
+  tier: string;
+  // "YYYY-MM-DD" calendar dates
+  currentScod: string;
+  nextScod: string;
+  daysRemaining: number;
+  status: DueDateStatus;
+  // Percent of the current cycle that has elapsed (0-100)
+  progress: number;
+}
+
 // Theme types
 export type Theme = 'light' | 'dark' | 'system';
 
@@ -101,6 +118,40 @@ export interface NotificationPreferences {
 export type ExportFormat = 'PDF' | 'DOCX' | 'CSV';
 export type ExportView = 'Full Report' | 'Category-only' | 'Timeline' | 'Statements Only';
 
+// Bulk import of wins
+export type ImportFormat = 'CSV' | 'JSON';
+export type ImportField = 'category' | 'action' | 'impact' | 'result' | 'date' | 'endDate';
+// Import field -> source column name
+export type ImportColumnMapping = Partial<Record<ImportField, string>>;
+export type ImportRowStatus = 'valid' | 'invalid' | 'duplicate';
+
+export interface ImportRowPreview {
+  // 1-based data row number (CSV header excluded)
+  row: number;
+  status: ImportRowStatus;
+  values: Record<ImportField, string>;
+  errors: string[];
+  // Set for duplicates: the existing win ID, or "row N" for an earlier row in the same file
+  duplicateOf?: string;
+}
+
+export interface ImportPreview {
+  columns: string[];
+  mapping: ImportColumnMapping;
+  rows: ImportRowPreview[];
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+    duplicate: number;
+  };
+}
+
+export interface ImportResult {
+  imported: number;
+  skipped: number;
+}
+
 // Component Props Types
 export interface ProfileSetupScreenProps {
   onProfileComplete: (profile: Partial<UserProfile>) => void;
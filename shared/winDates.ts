@@ -0,0 +1,57 @@
+// Accomplishment dates. A win's `occurredOn` (and optional `endedOn` for
+// multi-week efforts) is a calendar date stored as "YYYY-MM-DD"; `createdAt` is
+// only when the entry was typed in and is used as a fallback for rows that
+// predate the column.
+
+export const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface DatedWin {
+  occurredOn?: string | null;
+  endedOn?: string | null;
+  createdAt?: Date | string | null;
+}
+
+// "YYYY-MM-DD" as a local-midnight Date, so week and month bucketing match the
+// calendar the member picked regardless of timezone
+export function parseIsoDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function toIsoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function isIsoDate(value: string): boolean {
+  return ISO_DATE_PATTERN.test(value) && toIsoDate(parseIsoDate(value)) === value;
+}
+
+// The date a win counts toward in metrics and timelines
+export function getWinDate(win: DatedWin): Date | null {
+  if (win.occurredOn) return parseIsoDate(win.occurredOn);
+  return win.createdAt ? new Date(win.createdAt) : null;
+}
+
+export function getWinEndDate(win: DatedWin): Date | null {
+  return win.endedOn ? parseIsoDate(win.endedOn) : getWinDate(win);
+}
+
+// True when any part of the win's date span falls inside [start, end]
+export function winOverlapsRange(win: DatedWin, start?: Date | null, end?: Date | null): boolean {
+  const from = getWinDate(win);
+  const to = getWinEndDate(win);
+  if (!from || !to) return false;
+  if (start && to < start) return false;
+  if (end && from > end) return false;
+  return true;
+}
+
+// Returns an error message, or null when the range is usable
+export function validateWinDateRange(occurredOn?: string | null, endedOn?: string | null): string | null {
+  if (occurredOn && !isIsoDate(occurredOn)) return 'Date must be a valid YYYY-MM-DD date';
+  if (endedOn && !isIsoDate(endedOn)) return 'End date must be a valid YYYY-MM-DD date';
+  if (occurredOn && endedOn && endedOn < occurredOn) return 'End date cannot be before the start date';
+  return null;
+}